@@ -0,0 +1,151 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { NCFileGenerator } from '@/lib/nc-generator';
+import { detectClashes } from '@/lib/clash-detection';
+import { applyClashSuppressions } from '@/lib/clash-suppressions';
+import { ValidationError, validateProfileData } from '@/lib/validation';
+import { calculateStubPositions, isBearerProfile } from '@/lib/utils/manufacturing';
+import { getPostProcessor } from '@/lib/post-processors';
+import { JobFileError, jobFileToSnapshot, parseJobFile } from '@/lib/job-file';
+import { JobSnapshot } from '@/lib/job-library';
+import { applyPunchOverrides, describeOverride } from '@/lib/punch-overrides';
+import { SpanTableFileError, describeStandard, getActiveStandard, parseSpanTableFile, setSpanTableLibrary } from '@/lib/span-table-library';
+
+/**
+ * Span+ command line NC generator
+ *
+ * Usage: span-plus <job.spanplus.json> [--out <file.csv>] [--report <file.json>] [--span-table <file.csv|json>]
+ *
+ * The job file is a .spanplus.json exported from the app (see lib/job-file.ts); bare
+ * { "profileData": {...}, "exportData": {...} } jobs are still accepted as version 0 files.
+ * exportData.postProcessor selects the machine format and punch overrides are re-applied;
+ * overrides that no longer fit the profile are skipped with a warning. Suppressed clash issues
+ * are left out of the counts and listed in the report; expired suppressions are warned about.
+ * Span limits come from the capacity checks unless --span-table loads a published table
+ * (see lib/span-table-library.ts); the first standard in the file is used.
+ * Exit codes: 0 = written with no clash errors, 1 = written but clash errors found, 2 = bad input
+ */
+
+const USAGE = 'Usage: span-plus <job.spanplus.json> [--out <file.csv>] [--report <file.json>] [--span-table <file.csv|json>]';
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const parseArgs = (args: string[]) => {
+  const options: { jobFile?: string; out?: string; report?: string; spanTable?: string } = {};
+  const valueOptions = { '--out': 'out', '--report': 'report', '--span-table': 'spanTable' } as const;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg in valueOptions) {
+      const value = args[++i];
+      if (!value) fail(`Missing value for ${arg}\n${USAGE}`);
+      options[valueOptions[arg as keyof typeof valueOptions]] = value;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (!options.jobFile) {
+      options.jobFile = arg;
+    } else {
+      fail(`Unexpected argument "${arg}"\n${USAGE}`);
+    }
+  }
+
+  return options;
+};
+
+const readJob = (jobFile: string): JobSnapshot => {
+  let text: string;
+  try {
+    text = readFileSync(jobFile, 'utf8');
+  } catch (error) {
+    return fail(`Could not read job file ${jobFile}: ${(error as Error).message}`);
+  }
+
+  let snapshot: JobSnapshot;
+  try {
+    snapshot = jobFileToSnapshot(parseJobFile(text));
+  } catch (error) {
+    if (error instanceof JobFileError) {
+      const details = error.issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n');
+      return fail(details ? `Invalid job file ${jobFile}:\n${details}` : error.message);
+    }
+    throw error;
+  }
+
+  const { profileData } = snapshot;
+
+  // Profile Settings derives stub positions from stub spacing - do the same when the job omits them
+  if (isBearerProfile(profileData.profileType) && !profileData.stubPositions?.length && profileData.stubSpacing) {
+    profileData.stubPositions = calculateStubPositions(profileData.length, profileData.stubSpacing);
+  }
+
+  return snapshot;
+};
+
+const loadSpanTable = (spanTableFile: string) => {
+  try {
+    const standards = parseSpanTableFile(spanTableFile, readFileSync(spanTableFile, 'utf8'));
+    setSpanTableLibrary({ standards, activeStandardId: standards[0].id });
+  } catch (error) {
+    if (error instanceof SpanTableFileError) return fail(`Invalid span table ${spanTableFile}: ${error.message}`);
+    return fail(`Could not read span table ${spanTableFile}: ${(error as Error).message}`);
+  }
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.jobFile) return fail(USAGE);
+
+  if (options.spanTable) loadSpanTable(options.spanTable);
+  const { profileData, exportData, punchOverrides, clashSuppressions } = readJob(options.jobFile);
+
+  try {
+    validateProfileData(profileData);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return fail(`Invalid ${error.field} (${error.code}): ${error.message}`);
+    }
+    throw error;
+  }
+
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, exportData);
+  if (punchOverrides.length > 0) {
+    const { punches, results } = applyPunchOverrides(generator.getPunches(), punchOverrides, profileData.length);
+    generator.setManualPunches(punches, profileData.profileType);
+    results
+      .filter(result => result.status === 'stale')
+      .forEach(result => console.warn(`WARNING: skipped override ${describeOverride(result.override)} - ${result.reason}`));
+  }
+
+  const programName = exportData.programName || generator.getPartCode();
+  const csvFile = options.out ?? `${programName}.${getPostProcessor(exportData.postProcessor).fileExtension}`;
+  const reportFile = options.report ?? `${programName}.clashes.json`;
+
+  const { result: clashes, results: suppressions } = applyClashSuppressions(
+    detectClashes(generator.getCalculations(), profileData).issues,
+    clashSuppressions
+  );
+  suppressions
+    .filter(result => result.status === 'expired')
+    .forEach(({ suppression }) => console.warn(`WARNING: suppression of ${suppression.ruleId} has expired - ${suppression.issue}`));
+
+  writeFileSync(csvFile, generator.generateCSV());
+  writeFileSync(reportFile, JSON.stringify({ programName, spanTable: describeStandard(getActiveStandard()), ...clashes, suppressions }, null, 2) + '\n');
+
+  console.log(`Wrote ${csvFile}`);
+  console.log(`Wrote ${reportFile} (${clashes.errorCount} errors, ${clashes.warningCount} warnings)`);
+
+  clashes.issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => {
+      const position = issue.position === null ? '' : ` @ ${issue.position}mm`;
+      console.error(`ERROR [${issue.ruleId}]${position}: ${issue.element1} / ${issue.element2} - ${issue.issue}`);
+    });
+
+  process.exit(clashes.errorCount > 0 ? 1 : 0);
+};
+
+main();
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, File, FolderOpen, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { BatchPart } from '@/types/manufacturing';
+import { assignComponentCodes, findDuplicatePartCodes } from '@/lib/batch-job';
+
+interface BatchJobPanelProps {
+  parts: BatchPart[];
+  onAddCurrent: () => void;
+  onUpdatePart: (id: string, updates: Partial<Omit<BatchPart, 'id'>>) => void;
+  onMovePart: (id: string, direction: -1 | 1) => void;
+  onRemovePart: (id: string) => void;
+  onLoadPart: (part: BatchPart) => void;
+  onReplacePart: (part: BatchPart) => void;
+  onExport: () => void;
+}
+
+export function BatchJobPanel({
+  parts,
+  onAddCurrent,
+  onUpdatePart,
+  onMovePart,
+  onRemovePart,
+  onLoadPart,
+  onReplacePart,
+  onExport,
+}: BatchJobPanelProps) {
+  const componentCodes = useMemo(() => assignComponentCodes(parts), [parts]);
+  const duplicatePartCodes = useMemo(() => findDuplicatePartCodes(parts), [parts]);
+
+  return (
+    <div className="space-y-4">
+      <Button type="button" variant="outline" onClick={onAddCurrent} className="w-full">
+        <Plus className="h-4 w-4 mr-2" />
+        Add Current Part
+      </Button>
+
+      {parts.length > 0 ? (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Code</TableHead>
+                <TableHead>Part</TableHead>
+                <TableHead className="w-16">Qty</TableHead>
+                <TableHead className="w-32"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {parts.map((part, index) => (
+                <TableRow key={part.id}>
+                  <TableCell className="text-numbers text-xs">{componentCodes[index]}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={part.partCode}
+                      onChange={e => onUpdatePart(part.id, { partCode: e.target.value })}
+                      className="h-7 text-xs sidebar-input"
+                    />
+                    <div className="flex items-center gap-1 mt-1">
+                      <span className="text-xs text-muted-foreground">{part.profileData.length}mm</span>
+                      {part.manualPunches && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">Manual</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={part.quantity}
+                      onChange={e => onUpdatePart(part.id, { quantity: Math.max(1, Number(e.target.value)) })}
+                      className="h-7 w-14 text-xs sidebar-input"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="grid grid-cols-3 gap-1">
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Move up" disabled={index === 0} onClick={() => onMovePart(part.id, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Move down" disabled={index === parts.length - 1} onClick={() => onMovePart(part.id, 1)}>
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Delete part" onClick={() => onRemovePart(part.id)}>
+                        <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Open in Profile Settings" onClick={() => onLoadPart(part)}>
+                        <FolderOpen className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Replace with current settings" onClick={() => onReplacePart(part)}>
+                        <RefreshCw className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No parts in this job yet
+        </p>
+      )}
+
+      {duplicatePartCodes.length > 0 && (
+        <div className="text-sm text-amber-600 bg-amber-50 p-2 rounded-md">
+          ⚠️ Duplicate part codes: {duplicatePartCodes.join(', ')}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        onClick={onExport}
+        disabled={parts.length === 0}
+        className="w-full bg-blue-600 hover:bg-blue-700"
+      >
+        <File className="h-4 w-4 mr-2" />
+        Export Batch NC File ({parts.length} {parts.length === 1 ? 'part' : 'parts'})
+      </Button>
+    </div>
+  );
+}
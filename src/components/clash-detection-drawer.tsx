@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Drawer,
   DrawerClose,
@@ -11,18 +11,71 @@ import {
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
-import { ClashDetectionResult, ClashIssue } from '@/lib/clash-detection';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, AlertTriangle, BellOff, CheckCircle2, Eye, Trash2, Wrench } from 'lucide-react';
+import { ClashDetectionResult, ClashIssue, getIssueFingerprint } from '@/lib/clash-detection';
+import { CheckedClashFix, isSafeFix } from '@/lib/clash-fixes';
+import { SuppressionResult, getSuppressionAuthor, setSuppressionAuthor } from '@/lib/clash-suppressions';
 
 interface ClashDetectionDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   clashResult: ClashDetectionResult;
+  // Show an issue on the drawing and select its punches
+  onIssueSelect?: (issue: ClashIssue) => void;
+  // Fixes for the issue they're shown for, each re-checked against the whole program
+  fixIssue?: ClashIssue | null;
+  fixes?: CheckedClashFix[];
+  onShowFixes?: (issue: ClashIssue | null) => void;
+  onPreviewFix?: (fix: CheckedClashFix) => void;
+  onApplyFix?: (fix: CheckedClashFix) => void;
+  // Accepted issues, and suppressions that expired when their issue's geometry changed
+  suppressions?: SuppressionResult[];
+  onSuppressIssue?: (issue: ClashIssue, note: string, author: string) => void;
+  onRemoveSuppression?: (id: string) => void;
 }
 
-export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashDetectionDrawerProps) {
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-AU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+export function ClashDetectionDrawer({
+  open,
+  onOpenChange,
+  clashResult,
+  onIssueSelect,
+  fixIssue,
+  fixes = [],
+  onShowFixes,
+  onPreviewFix,
+  onApplyFix,
+  suppressions = [],
+  onSuppressIssue,
+  onRemoveSuppression,
+}: ClashDetectionDrawerProps) {
   const { issues, errorCount, warningCount } = clashResult;
   const hasIssues = issues.length > 0;
+  const fixFingerprint = fixIssue ? getIssueFingerprint(fixIssue) : null;
+  const hasActions = !!onShowFixes || !!onSuppressIssue;
+  const expiredCount = suppressions.filter(result => result.status === 'expired').length;
+
+  // Issue being suppressed - a note and the engineer's name are required
+  const [suppressFingerprint, setSuppressFingerprint] = useState<string | null>(null);
+  const [suppressNote, setSuppressNote] = useState('');
+  const [suppressAuthor, setSuppressAuthor] = useState(getSuppressionAuthor);
+
+  const toggleSuppressForm = (issue: ClashIssue) => {
+    const fingerprint = getIssueFingerprint(issue);
+    setSuppressFingerprint(suppressFingerprint === fingerprint ? null : fingerprint);
+    setSuppressNote('');
+  };
+
+  const handleSuppress = (issue: ClashIssue) => {
+    setSuppressionAuthor(suppressAuthor.trim());
+    onSuppressIssue?.(issue, suppressNote, suppressAuthor);
+    setSuppressFingerprint(null);
+    setSuppressNote('');
+  };
 
   const getSeverityIcon = (severity: ClashIssue['severity']) => {
     if (severity === 'error') {
@@ -38,6 +91,16 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
     return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">Warning</Badge>;
   };
 
+  const canLocate = (issue: ClashIssue) => !!onIssueSelect && (issue.position !== null || issue.punches.length > 0);
+
+  const describeCheck = ({ check }: CheckedClashFix) => {
+    if (!check.resolved) return 'Re-check: the issue remains';
+    if (check.newIssues.length > 0) {
+      return `Re-check: introduces ${check.newIssues.length} new ${check.newIssues.length === 1 ? 'issue' : 'issues'} - ${check.newIssues[0].issue}`;
+    }
+    return 'Re-check: resolves the issue with no new clashes';
+  };
+
   const getTypeLabel = (type: ClashIssue['type']) => {
     switch (type) {
       case 'clearance': return 'Clearance';
@@ -45,6 +108,8 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
       case 'span-limit': return 'Span Limit';
       case 'position-conflict': return 'Position';
       case 'alignment': return 'Alignment';
+      case 'tooling': return 'Tooling';
+      case 'web-bearing': return 'Web Bearing';
       default: return type;
     }
   };
@@ -68,7 +133,7 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
           </DrawerTitle>
           <DrawerDescription>
             {hasIssues 
-              ? 'Manufacturing rule violations and potential conflicts detected'
+              ? `Manufacturing rule violations and potential conflicts detected${onIssueSelect ? ' - click an issue to show it on the drawing' : ''}`
               : 'All manufacturing rules satisfied - no conflicts found'}
           </DrawerDescription>
         </DrawerHeader>
@@ -97,18 +162,31 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="w-24">Type</TableHead>
+                      <TableHead className="w-40">Type / Rule</TableHead>
                       <TableHead className="w-28">Position</TableHead>
                       <TableHead className="w-32">Element 1</TableHead>
                       <TableHead className="w-32">Element 2</TableHead>
                       <TableHead>Issue</TableHead>
                       <TableHead className="w-24 text-center">Severity</TableHead>
+                      {hasActions && <TableHead className="w-44"></TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {issues.map((issue, index) => (
-                      <TableRow key={index} className="hover:bg-slate-50">
-                        <TableCell className="font-medium">{getTypeLabel(issue.type)}</TableCell>
+                    {issues.map((issue, index) => {
+                      const showingFixes = fixFingerprint === getIssueFingerprint(issue);
+                      const suppressing = suppressFingerprint === getIssueFingerprint(issue);
+
+                      return (
+                      <React.Fragment key={index}>
+                      <TableRow
+                        className={canLocate(issue) ? 'hover:bg-slate-50 cursor-pointer' : 'hover:bg-slate-50'}
+                        title={canLocate(issue) ? 'Show on drawing' : undefined}
+                        onClick={() => canLocate(issue) && onIssueSelect?.(issue)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{getTypeLabel(issue.type)}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{issue.ruleId}</div>
+                        </TableCell>
                         <TableCell className="font-mono text-sm">
                           {issue.position !== null ? `${issue.position}mm` : 'N/A'}
                         </TableCell>
@@ -121,8 +199,114 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
                             {getSeverityBadge(issue.severity)}
                           </div>
                         </TableCell>
+                        {hasActions && (
+                          <TableCell>
+                            <div className="flex gap-1">
+                              {onShowFixes && issue.punches.length > 0 && (
+                                <Button
+                                  variant={showingFixes ? 'secondary' : 'ghost'}
+                                  size="sm"
+                                  className="h-7 gap-1 px-2"
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    onShowFixes(showingFixes ? null : issue);
+                                  }}
+                                >
+                                  <Wrench className="h-3 w-3" />
+                                  Fix
+                                </Button>
+                              )}
+                              {onSuppressIssue && (
+                                <Button
+                                  variant={suppressing ? 'secondary' : 'ghost'}
+                                  size="sm"
+                                  className="h-7 gap-1 px-2"
+                                  title="Accept this issue as designed"
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    toggleSuppressForm(issue);
+                                  }}
+                                >
+                                  <BellOff className="h-3 w-3" />
+                                  Suppress
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
                       </TableRow>
-                    ))}
+                      {suppressing && (
+                        <TableRow className="bg-slate-50 hover:bg-slate-50">
+                          <TableCell colSpan={7} className="py-2">
+                            <div className="flex items-end gap-3">
+                              <label className="flex flex-1 flex-col gap-1 text-xs">
+                                <span className="text-muted-foreground">Why this issue is acceptable</span>
+                                <Textarea
+                                  value={suppressNote}
+                                  onChange={(e) => setSuppressNote(e.target.value)}
+                                  placeholder="e.g. Web tab spacing reduced by design at the splice"
+                                  className="min-h-[60px] text-sm"
+                                />
+                              </label>
+                              <label className="flex flex-col gap-1 text-xs">
+                                <span className="text-muted-foreground">Accepted by</span>
+                                <Input
+                                  value={suppressAuthor}
+                                  onChange={(e) => setSuppressAuthor(e.target.value)}
+                                  placeholder="Your name"
+                                  className="h-8 w-44 text-sm"
+                                />
+                              </label>
+                              <Button
+                                size="sm"
+                                className="h-8"
+                                disabled={!suppressNote.trim() || !suppressAuthor.trim()}
+                                onClick={() => handleSuppress(issue)}
+                              >
+                                Suppress
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {showingFixes && (
+                        <TableRow className="bg-slate-50 hover:bg-slate-50">
+                          <TableCell colSpan={7} className="py-2">
+                            {fixes.length === 0 ? (
+                              <div className="text-sm text-muted-foreground">No automatic fix for this issue.</div>
+                            ) : (
+                              <div className="space-y-2">
+                                {fixes.map(checked => (
+                                  <div key={checked.fix.id} className="flex items-center gap-3">
+                                    <div className="flex-1">
+                                      <div className="text-sm text-numbers">{checked.fix.description}</div>
+                                      <div className={isSafeFix(checked.check) ? 'text-xs text-green-700' : 'text-xs text-amber-700'}>
+                                        {describeCheck(checked)}
+                                      </div>
+                                    </div>
+                                    <Button variant="outline" size="sm" className="h-7 gap-1" onClick={() => onPreviewFix?.(checked)}>
+                                      <Eye className="h-3 w-3" />
+                                      Preview
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      className="h-7"
+                                      disabled={!isSafeFix(checked.check)}
+                                      title={isSafeFix(checked.check) ? undefined : 'Only fixes that pass the re-check can be applied'}
+                                      onClick={() => onApplyFix?.(checked)}
+                                    >
+                                      Apply
+                                    </Button>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      </React.Fragment>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </div>
@@ -152,6 +336,68 @@ export function ClashDetectionDrawer({ open, onOpenChange, clashResult }: ClashD
               </p>
             </div>
           )}
+
+          {/* Suppressed Issues */}
+          {suppressions.length > 0 && (
+            <div className="mt-6 mb-4">
+              <div className="font-medium mb-2">
+                Suppressed Issues ({suppressions.length - expiredCount} active{expiredCount > 0 && `, ${expiredCount} expired`})
+              </div>
+              <div className="rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">Rule</TableHead>
+                      <TableHead>Issue</TableHead>
+                      <TableHead>Note</TableHead>
+                      <TableHead className="w-40">Accepted By</TableHead>
+                      <TableHead className="w-24 text-center">Status</TableHead>
+                      <TableHead className="w-10"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suppressions.map(({ suppression, status }) => (
+                      <TableRow key={suppression.id} className={status === 'expired' ? 'opacity-70' : undefined}>
+                        <TableCell className="text-xs font-mono">{suppression.ruleId}</TableCell>
+                        <TableCell className="text-sm">{suppression.issue}</TableCell>
+                        <TableCell className="text-sm">{suppression.note}</TableCell>
+                        <TableCell>
+                          <div className="text-sm">{suppression.author}</div>
+                          <div className="text-xs text-muted-foreground">{formatDate(suppression.createdAt)}</div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {status === 'active' ? (
+                            <Badge variant="outline">Suppressed</Badge>
+                          ) : (
+                            <Badge
+                              variant="outline"
+                              className="bg-amber-50 text-amber-700 border-amber-300"
+                              title="The issue's geometry has changed since it was accepted - review it again"
+                            >
+                              Expired
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {onRemoveSuppression && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              title={status === 'active' ? 'Unsuppress - the issue is counted again' : 'Remove expired suppression'}
+                              onClick={() => onRemoveSuppression(suppression.id)}
+                            >
+                              <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
         </div>
 
         <DrawerFooter>
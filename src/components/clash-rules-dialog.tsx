@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, RotateCcw, ShieldCheck, Trash2 } from 'lucide-react';
+import { useFactoryProfiles } from '@/hooks/use-factory-profiles';
+import { ClashSeverity } from '@/lib/clash-detection';
+import { CLASH_RULES, ClashRule, describeApplicability } from '@/lib/clash-rules';
+import {
+  RuleSettings,
+  getActiveFactoryProfile,
+  removeFactoryProfile,
+  resetRuleSettings,
+  resolveRuleSettings,
+  setFactoryProfiles,
+  updateRuleSettings,
+  upsertFactoryProfile,
+} from '@/lib/factory-profiles';
+
+export function ClashRulesDialog() {
+  const profiles = useFactoryProfiles();
+  const profile = getActiveFactoryProfile(profiles);
+  const [newProfileName, setNewProfileName] = useState('');
+
+  const updateRule = (rule: ClashRule, updates: RuleSettings) => {
+    setFactoryProfiles(upsertFactoryProfile(profiles, updateRuleSettings(profile, rule, updates)));
+  };
+
+  // New profiles start from the active profile's settings
+  const handleAddProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    const id = `factory-${Date.now()}`;
+    setFactoryProfiles({ ...upsertFactoryProfile(profiles, { id, name, rules: { ...profile.rules } }), activeProfileId: id });
+    setNewProfileName('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Clash Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="text-header">Clash Rules</DialogTitle>
+          <DialogDescription>
+            Checks run by clash detection. Each factory profile can switch rules off or change their severity and tolerances.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-auto max-h-[calc(90vh-160px)] space-y-6">
+          {/* Factory profiles */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Factory Profile</Label>
+              <Select
+                value={profile.id}
+                onValueChange={(id) => setFactoryProfiles({ ...profiles, activeProfileId: id })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Profile Name</Label>
+              <Input
+                key={profile.id}
+                defaultValue={profile.name}
+                onBlur={(e) => e.target.value.trim() && setFactoryProfiles(upsertFactoryProfile(profiles, { ...profile, name: e.target.value.trim() }))}
+                className="w-56"
+              />
+            </div>
+            {profiles.profiles.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => setFactoryProfiles(removeFactoryProfile(profiles, profile.id))}>
+                <Trash2 className="h-4 w-4 mr-2" style={{color: '#F2B33D'}} />
+                Remove Profile
+              </Button>
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>New Profile</Label>
+                <Input
+                  value={newProfileName}
+                  onChange={(e) => setNewProfileName(e.target.value)}
+                  placeholder="Factory name"
+                  className="w-48"
+                />
+              </div>
+              <Button variant="outline" size="sm" onClick={handleAddProfile} disabled={!newProfileName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Rules */}
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">On</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="w-36">Applies To</TableHead>
+                  <TableHead className="w-32">Severity</TableHead>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {CLASH_RULES.map((rule) => {
+                  const settings = resolveRuleSettings(rule, profile);
+                  const customised = !!profile.rules[rule.id];
+
+                  return (
+                    <TableRow key={rule.id} className={settings.enabled ? undefined : 'opacity-60'}>
+                      <TableCell>
+                        <Checkbox
+                          checked={settings.enabled}
+                          onCheckedChange={(checked) => updateRule(rule, { enabled: !!checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{rule.name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{rule.id}</div>
+                        <div className="text-xs text-muted-foreground mt-1 max-w-sm">{rule.description}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">{describeApplicability(rule.appliesTo)}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={settings.severity}
+                          onValueChange={(severity) => updateRule(rule, { severity: severity as ClashSeverity })}
+                        >
+                          <SelectTrigger className="h-8 text-xs w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="error">Error</SelectItem>
+                            <SelectItem value="warning">Warning</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-2">
+                          {Object.entries(rule.parameters).map(([key, parameter]) => (
+                            <label key={key} className="flex flex-col gap-1 text-xs">
+                              <span className="text-muted-foreground">{parameter.label} ({parameter.unit})</span>
+                              <Input
+                                type="number"
+                                value={settings.params[key]}
+                                onChange={(e) => e.target.value !== '' && updateRule(rule, { params: { [key]: Number(e.target.value) } })}
+                                className="h-8 text-xs w-24"
+                              />
+                            </label>
+                          ))}
+                          {Object.keys(rule.parameters).length === 0 && (
+                            <span className="text-xs text-muted-foreground">None</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {customised && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Reset to rule defaults"
+                            onClick={() => setFactoryProfiles(upsertFactoryProfile(profiles, resetRuleSettings(profile, rule.id)))}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,7 @@
 import React from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { NCFileGenerator } from '@/lib/nc-generator';
-
-const COLOR_MAP: Record<string, string> = {
-  'BOLT HOLE': '#ef4444',
-  'DIMPLE': '#f59e0b',
-  'WEB TAB': '#22c55e',
-  'SERVICE HOLE': '#3b82f6',
-  'STUB POSITION': '#9333ea',
-};
+import { getPunchColor, getPunchDescription } from '@/lib/punch-dimensions';
 
 interface CuttingListTableProps {
   ncGenerator: NCFileGenerator | null;
@@ -53,27 +46,36 @@ export const CuttingListTable: React.FC<CuttingListTableProps> = ({
   const calcs = ncGenerator.getCalculations();
   const isBearer = partCode.startsWith('B');
 
-  const boltPositions = calcs.boltHoles.filter((h) => h.active).map((h) => roundOne(h.position));
-  const dimplePositions = calcs.dimples.filter((d) => d.active).map((d) => roundOne(d.position));
-  const webTabPositions = calcs.webHoles.filter((w) => w.active).map((w) => roundOne(w.position));
-  const serviceHolePositions = calcs.serviceHoles.filter((s) => s.active).map((s) => roundOne(s.position));
-  const stubPositions = calcs.stubs.filter((s) => s.active).map((s) => roundOne(s.position));
+  type CalculatedPunch = { position: number; active: boolean; type: string };
+
+  // One row per station punched in each group - stations come from the tooling library
+  const buildRows = (group: CalculatedPunch[], defaultType: string | null, getSpacing: (positions: number[]) => number | undefined) => {
+    const active = group.filter((p) => p.active);
+    const types = [...new Set(active.map((p) => p.type))];
+    if (!types.length && defaultType) types.push(defaultType);
+
+    return types.map((type) => {
+      const positions = active.filter((p) => p.type === type).map((p) => roundOne(p.position));
+      return { type, summary: formatPunchSummary(positions, getSpacing(positions)).summary };
+    });
+  };
+
+  const firstGap = (positions: number[]) => (positions.length > 1 ? positions[1] - positions[0] : undefined);
 
-  const boltSummary = formatPunchSummary(boltPositions);
-  // Bearers have uniform 450mm spacing, joists have 600mm ±75mm pattern (non-uniform)
-  const dimpleSummary = formatPunchSummary(dimplePositions, isBearer ? 450 : undefined);
-  const webTabSummary = formatPunchSummary(webTabPositions, webTabPositions.length > 1 ? webTabPositions[1] - webTabPositions[0] : undefined);
-  const serviceSpacing = serviceHolePositions.length > 1 ? Math.round(serviceHolePositions[1] - serviceHolePositions[0]) : undefined;
-  const serviceHoleSummary = formatPunchSummary(serviceHolePositions, serviceSpacing);
-  const stubSummary = formatPunchSummary(stubPositions);
+  const rows = [
+    ...buildRows(calcs.boltHoles, 'BOLT HOLE', () => undefined),
+    // Bearers have uniform 450mm spacing, joists have 600mm ±75mm pattern (non-uniform)
+    ...buildRows(calcs.dimples, 'DIMPLE', () => (isBearer ? 450 : undefined)),
+    ...buildRows(calcs.webHoles, 'WEB TAB', firstGap),
+    ...buildRows(calcs.serviceHoles, null, (positions) => {
+      const gap = firstGap(positions);
+      return gap === undefined ? undefined : Math.round(gap);
+    }),
+    ...buildRows(calcs.stubs, null, () => undefined),
+  ];
 
-  const hasServiceHoles = serviceHolePositions.length > 0;
-  const hasStubPositions = stubPositions.length > 0;
-  
-  // Calculate row span based on what types of holes are present
-  let rowSpan = 3; // Base: bolt holes, dimples, web tabs
-  if (hasServiceHoles) rowSpan++;
-  if (hasStubPositions) rowSpan++;
+  const getStationLabel = (type: string) => (type === 'SERVICE' ? 'SERVICE STUBS' : type);
+  const getStationDescription = (type: string) => (type === 'SERVICE' ? 'Service Connection Points' : getPunchDescription(type));
 
   return (
     <Table>
@@ -87,70 +89,26 @@ export const CuttingListTable: React.FC<CuttingListTableProps> = ({
         </TableRow>
       </TableHeader>
       <TableBody>
-        <TableRow>
-          <TableCell className="flex items-center gap-2">
-            <span
-              className="w-3 h-3 rounded-sm"
-              style={{ backgroundColor: COLOR_MAP['BOLT HOLE'] }}
-            />
-            BOLT HOLE
-          </TableCell>
-          <TableCell>Flange Bolt Hole</TableCell>
-          <TableCell>{boltSummary.summary}</TableCell>
-          <TableCell rowSpan={rowSpan}>{quantity}</TableCell>
-          <TableCell rowSpan={rowSpan}>{length}mm</TableCell>
-        </TableRow>
-        <TableRow>
-          <TableCell className="flex items-center gap-2">
-            <span
-              className="w-3 h-3 rounded-sm"
-              style={{ backgroundColor: COLOR_MAP['DIMPLE'] }}
-            />
-            DIMPLE
-          </TableCell>
-          <TableCell>Flange Stitch</TableCell>
-          <TableCell>{dimpleSummary.summary}</TableCell>
-        </TableRow>
-        <TableRow>
-          <TableCell className="flex items-center gap-2">
-            <span
-              className="w-3 h-3 rounded-sm"
-              style={{ backgroundColor: COLOR_MAP['WEB TAB'] }}
-            />
-            WEB TAB
-          </TableCell>
-          <TableCell>Web Connection Tab</TableCell>
-          <TableCell>{webTabSummary.summary}</TableCell>
-        </TableRow>
-        {hasServiceHoles && (
-          <TableRow>
-            <TableCell className="flex items-center gap-2">
-              <span
-                className="w-3 h-3 rounded-sm"
-                style={{ backgroundColor: COLOR_MAP['SERVICE HOLE'] }}
-              />
-              SERVICE HOLE
-            </TableCell>
-            <TableCell>Service Hole</TableCell>
-            <TableCell>{serviceHoleSummary.summary}</TableCell>
-          </TableRow>
-        )}
-        {hasStubPositions && (
-          <TableRow>
+        {rows.map((row, index) => (
+          <TableRow key={row.type}>
             <TableCell className="flex items-center gap-2">
               <span
                 className="w-3 h-3 rounded-sm"
-                style={{ backgroundColor: COLOR_MAP['STUB POSITION'] }}
+                style={{ backgroundColor: getPunchColor(row.type) }}
               />
-              {partCode?.startsWith('B') ? 'SERVICE STUBS' : 'CORNER BRACKETS'}
+              {getStationLabel(row.type)}
             </TableCell>
-            <TableCell>
-              {partCode?.startsWith('B') ? 'Service Connection Points' : 'Corner Bracket Positions'}
-            </TableCell>
-            <TableCell>{stubSummary.summary}</TableCell>
+            <TableCell>{getStationDescription(row.type)}</TableCell>
+            <TableCell>{row.summary}</TableCell>
+            {index === 0 && (
+              <>
+                <TableCell rowSpan={rows.length}>{quantity}</TableCell>
+                <TableCell rowSpan={rows.length}>{length}mm</TableCell>
+              </>
+            )}
           </TableRow>
-        )}
+        ))}
       </TableBody>
     </Table>
   );
-}; 
\ No newline at end of file
+};
@@ -2,26 +2,25 @@
 import { useForm } from 'react-hook-form';
 import { useEffect } from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ExportData } from '@/types/form-types';
-import { FileText, File } from 'lucide-react';
-
-const exportSchema = z.object({
-  quantity: z.number().min(1).max(999),
-  programName: z.string().min(1).max(50)
-});
+import { DEFAULT_POST_PROCESSOR_ID, getPostProcessors } from '@/lib/post-processors';
+import { exportSchema } from '@/lib/schemas';
+import { FileText, File, PenTool } from 'lucide-react';
 
 interface ExportFormProps {
   data: ExportData;
   onChange: (data: ExportData) => void;
   onExportCSV: () => void;
   onExportPDF: () => void;
+  onExportDXF: () => void;
 }
 
-export function ExportForm({ data, onChange, onExportCSV, onExportPDF }: ExportFormProps) {
+export function ExportForm({ data, onChange, onExportCSV, onExportPDF, onExportDXF }: ExportFormProps) {
   const form = useForm<ExportData>({
     resolver: zodResolver(exportSchema),
     values: data
@@ -77,6 +76,46 @@ export function ExportForm({ data, onChange, onExportCSV, onExportPDF }: ExportF
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="postProcessor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Machine Format</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value || DEFAULT_POST_PROCESSOR_ID}>
+                <FormControl>
+                  <SelectTrigger className="sidebar-select">
+                    <SelectValue placeholder="Select machine format" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {getPostProcessors().map(postProcessor => (
+                    <SelectItem key={postProcessor.id} value={postProcessor.id}>
+                      {postProcessor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+          <div className="space-y-0.5 flex-1 pr-4">
+            <span className="text-sm font-medium">Load Diagrams on PDF</span>
+            <p className="text-xs text-muted-foreground">
+              Shear, moment and deflection at the kPa rating, on a sheet after the drawing
+            </p>
+          </div>
+          <div className="flex-shrink-0">
+            <Switch
+              checked={form.watch('includeDiagrams') || false}
+              onCheckedChange={(value) => form.setValue('includeDiagrams', !!value)}
+            />
+          </div>
+        </div>
+
         <div className="space-y-3 pt-4">
           <Button 
             type="button" 
@@ -96,6 +135,16 @@ export function ExportForm({ data, onChange, onExportCSV, onExportPDF }: ExportF
             <FileText className="h-4 w-4 mr-2" />
             Export Drawing (PDF)
           </Button>
+
+          <Button 
+            type="button" 
+            onClick={onExportDXF}
+            variant="outline"
+            className="w-full"
+          >
+            <PenTool className="h-4 w-4 mr-2" />
+            Export Drawing (DXF)
+          </Button>
         </div>
       </form>
     </Form>
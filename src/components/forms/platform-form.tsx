@@ -0,0 +1,85 @@
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { PlatformData } from '@/types/form-types';
+import { LayoutGrid } from 'lucide-react';
+
+const platformSchema = z.object({
+  width: z.number().min(1000).max(15000),
+  span: z.number().min(1000).max(15000),
+  bays: z.number().int().min(1).max(20),
+  pitch: z.number().min(300).max(1200),
+});
+
+interface PlatformFormProps {
+  data: PlatformData;
+  onChange: (data: PlatformData) => void;
+  onGenerate: () => void;
+}
+
+export function PlatformForm({ data, onChange, onGenerate }: PlatformFormProps) {
+  const form = useForm<PlatformData>({
+    resolver: zodResolver(platformSchema),
+    values: data
+  });
+
+  useEffect(() => {
+    const subscription = form.watch((value) => {
+      if (value.width && value.span && value.bays && value.pitch) {
+        onChange(value as PlatformData);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form, onChange]);
+
+  const fields: Array<{ name: keyof PlatformData; label: string; hint: string }> = [
+    { name: 'width', label: 'Platform Width (mm)', hint: 'Bearer length' },
+    { name: 'span', label: 'Joist Span (mm)', hint: 'Distance between bearer lines' },
+    { name: 'bays', label: 'Bays', hint: 'Post bays along each bearer' },
+    { name: 'pitch', label: 'Joist Pitch (mm)', hint: 'Joist centres along the bearers' },
+  ];
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6">
+        {fields.map(({ name, label, hint }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...field}
+                    onChange={e => field.onChange(Number(e.target.value))}
+                    className="sidebar-input"
+                  />
+                </FormControl>
+                <p className="text-xs text-muted-foreground">{hint}</p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <div className="pt-4">
+          <Button
+            type="button"
+            onClick={form.handleSubmit(onGenerate)}
+            className="w-full bg-blue-600 hover:bg-blue-700"
+          >
+            <LayoutGrid className="h-4 w-4 mr-2" />
+            Generate Member Schedule
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,46 +1,42 @@
 import React, { useCallback, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { ProfileData, PunchStationType } from '@/types/form-types';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import { PointLoad, ProfileData } from '@/types/form-types';
 import { PunchStationConfig } from '@/types/manufacturing';
 import { MANUFACTURING_CONSTANTS } from '@/lib/constants';
-import { getSpanTableRecommendation, calculateStubPositions, isBearerProfile, isJoistProfile } from '@/lib/utils/manufacturing';
+import { profileSchema } from '@/lib/schemas';
+import { getHoleTypeFitError } from '@/lib/validation';
+import { calculateStubPositions, isBearerProfile, isJoistProfile } from '@/lib/utils/manufacturing';
+import { getSpanTableRecommendation } from '@/lib/span-table';
+import { describeStandard, getActiveStandard, getLoadClasses } from '@/lib/span-table-library';
+import { useSpanTableLibrary } from '@/hooks/use-span-table-library';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 
-const profileSchema = z.object({
-  profileType: z.enum(['Joist Single', 'Bearer Single', 'Joist Box', 'Bearer Box']),
-  profileHeight: z.number().min(200).max(500),
-  length: z.number().min(1000).max(15000),
-  joistLength: z.number().min(1000).max(15000).optional(),
-  joistSpacing: z.number().min(400).max(1200),
-  stubSpacing: z.number().min(600).max(2400),
-  stubsEnabled: z.boolean(),
-  holeType: z.enum(['50mm', '200mm', '200mm x 400mm', '115 Round', 'No Holes']),
-  holeSpacing: z.number().min(400).max(1000),
-  punchStations: z.array(z.object({
-    station: z.custom<PunchStationType>(),
-    enabled: z.boolean(),
-    spacing: z.number().optional(),
-    customPositions: z.array(z.number()).optional(),
-  })),
-  stubPositions: z.array(z.number()).optional(),
-  endBoxJoist: z.boolean().optional(),
-  screensEnabled: z.boolean().optional(),
-  kpaRating: z.enum(['2.5', '5.0']).optional(),
-  joistBox: z.boolean().optional(),
-});
-
 interface ProfileFormProps {
   data: ProfileData;
   onChange: (data: ProfileData) => void;
 }
 
+const PROFILE_HEIGHTS = [200, 250, 300, 350];
+
+// A new point load starts at midspan, bearing on a 100mm plate
+const NEW_POINT_LOAD_BEARING = 100;
+
+const HOLE_TYPE_OPTIONS: { value: ProfileData['holeType']; label: string }[] = [
+  { value: '50mm', label: '50mm Round' },
+  { value: '200mm', label: '200mm Round' },
+  { value: '200mm x 400mm', label: '200mm x 400mm Oval' },
+  { value: '115 Round', label: '115mm Round' },
+  { value: 'No Holes', label: 'No Holes' },
+];
+
 // kPa span table logic
 // Using shared utility function from manufacturing utils
 
@@ -92,11 +88,20 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
         spanLength = value.length;
       }
       
-      // Apply span table logic when kPa rating, length, or joistLength changes
-      if ((name === 'kpaRating' || name === 'length' || name === 'joistLength') && 
+      // Apply span table logic when anything the derived table depends on changes
+      if ((name === 'kpaRating' || name === 'length' || name === 'joistLength' || name === 'profileHeight' || name === 'holeType') && 
           value.kpaRating && 
+          value.profileHeight &&
           spanLength) {
-        const recommendation = getSpanTableRecommendation(spanLength, value.kpaRating);
+        // A bearer's own service holes don't weaken the joists it carries
+        const joistHoleType = isBearerProfile(value.profileType ?? '') ? undefined : value.holeType;
+        const recommendation = getSpanTableRecommendation(spanLength, value.kpaRating, value.profileHeight, joistHoleType);
+        if (!recommendation) {
+          toast.warning('No span table', {
+            description: `${describeStandard(getActiveStandard())} has no span table for ${value.kpaRating}kPa at ${value.profileHeight}mm`
+          });
+          return;
+        }
         
         // Show warning if exceeds limits
         if (recommendation.exceedsLimit) {
@@ -152,12 +157,28 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
     const subscription = form.watch((value) => {
       if (value.profileType && value.profileHeight && value.length && 
           value.joistSpacing && value.stubSpacing && value.holeType && value.holeSpacing) {
+        // Hold back hole types that don't physically fit the web until the height or hole changes
+        const holeTypeError = getHoleTypeFitError(value.holeType, value.profileHeight);
+        if (holeTypeError) {
+          form.setError('holeType', { type: 'validate', message: holeTypeError });
+          return;
+        }
+        if (form.getFieldState('holeType').error) {
+          form.clearErrors('holeType');
+        }
         onChange(value as ProfileData);
       }
     });
     return () => subscription.unsubscribe();
   }, [form, onChange]);
 
+  const loadClasses = getLoadClasses(useSpanTableLibrary());
+
+  const pointLoads = form.watch('pointLoads') ?? [];
+  const setPointLoads = (next: PointLoad[]) => form.setValue('pointLoads', next, { shouldValidate: true });
+  const updatePointLoad = (index: number, updates: Partial<PointLoad>) =>
+    setPointLoads(pointLoads.map((pointLoad, i) => (i === index ? { ...pointLoad, ...updates } : pointLoad)));
+
   const profileType = form.watch('profileType');
   const isJoist = useMemo(() => isJoistProfile(profileType), [profileType]);
   const isBearer = useMemo(() => isBearerProfile(profileType), [profileType]);
@@ -307,10 +328,15 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="200">200mm</SelectItem>
-                  <SelectItem value="250">250mm</SelectItem>
-                  <SelectItem value="300">300mm</SelectItem>
-                  <SelectItem value="350">350mm</SelectItem>
+                  {PROFILE_HEIGHTS.map((height) => (
+                    <SelectItem
+                      key={height}
+                      value={height.toString()}
+                      disabled={!!getHoleTypeFitError(form.watch('holeType'), height)}
+                    >
+                      {height}mm
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -332,8 +358,9 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="2.5">2.5 kPa</SelectItem>
-                  <SelectItem value="5.0">5.0 kPa</SelectItem>
+                  {loadClasses.map((loadClass) => (
+                    <SelectItem key={loadClass} value={loadClass}>{loadClass} kPa</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -387,11 +414,15 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="50mm">50mm Round</SelectItem>
-                  <SelectItem value="200mm">200mm Round</SelectItem>
-                  <SelectItem value="200mm x 400mm">200mm x 400mm Oval</SelectItem>
-                  <SelectItem value="115 Round">115mm Round</SelectItem>
-                  <SelectItem value="No Holes">No Holes</SelectItem>
+                  {HOLE_TYPE_OPTIONS.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={!!getHoleTypeFitError(option.value, form.watch('profileHeight'))}
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -463,6 +494,90 @@ export const ProfileForm = React.memo(function ProfileForm({ data, onChange }: P
             </div>
           )}
         </div>
+
+        <Separator />
+
+        {/* Point loads on the top flange - checked for web bearing in clash detection */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <FormLabel className="text-base font-medium">Point Loads</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPointLoads([
+                ...pointLoads,
+                { position: Math.round(form.getValues('length') / 2), load: 1, bearingLength: NEW_POINT_LOAD_BEARING },
+              ])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {pointLoads.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Plant, tanks or stair landings bearing on the member
+            </p>
+          )}
+          {pointLoads.map((pointLoad, index) => (
+            <div key={index} className="grid grid-cols-2 gap-2 rounded-lg border p-3 shadow-sm">
+              <div className="col-span-2 flex items-center gap-2">
+                <Input
+                  placeholder="Description"
+                  value={pointLoad.description ?? ''}
+                  onChange={e => updatePointLoad(index, { description: e.target.value || undefined })}
+                  className="sidebar-input"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPointLoads(pointLoads.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" style={{color: '#F2B33D'}} />
+                </Button>
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Position (mm)</span>
+                <Input
+                  type="number"
+                  value={pointLoad.position}
+                  onChange={e => updatePointLoad(index, { position: Number(e.target.value) })}
+                  className="sidebar-input"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Bearing (mm)</span>
+                <Input
+                  type="number"
+                  value={pointLoad.bearingLength}
+                  onChange={e => updatePointLoad(index, { bearingLength: Number(e.target.value) })}
+                  className="sidebar-input"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Dead (kN)</span>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={pointLoad.dead ?? 0}
+                  onChange={e => updatePointLoad(index, { dead: Number(e.target.value) || undefined })}
+                  className="sidebar-input"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Live (kN)</span>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={pointLoad.load}
+                  onChange={e => updatePointLoad(index, { load: Number(e.target.value) })}
+                  className="sidebar-input"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
       </form>
     </Form>
   );
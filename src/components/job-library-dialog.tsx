@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Copy, Download, FolderOpen, Save, Search, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { SavedJob } from '@/types/manufacturing';
+import { JobSnapshot, addJob, deleteJob, duplicateJob, listJobs, saveJob, searchJobs } from '@/lib/job-library';
+import {
+  JOB_FILE_EXTENSION,
+  JobFileError,
+  JobFileIssue,
+  createJobFile,
+  getJobFileToolingWarnings,
+  jobFileToSnapshot,
+  parseJobFile,
+  serializeJobFile,
+} from '@/lib/job-file';
+import { downloadTextFile } from '@/lib/utils';
+
+interface JobLibraryDialogProps {
+  currentJob: SavedJob | null;
+  getSnapshot: () => JobSnapshot;
+  onSaved: (job: SavedJob) => void;
+  onOpen: (job: SavedJob) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export function JobLibraryDialog({ currentJob, getSnapshot, onSaved, onOpen }: JobLibraryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [jobs, setJobs] = useState<SavedJob[]>([]);
+  const [query, setQuery] = useState('');
+  const [name, setName] = useState('');
+  const [customer, setCustomer] = useState('');
+  const [fileIssues, setFileIssues] = useState<{ fileName: string; issues: JobFileIssue[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshJobs = useCallback(async () => {
+    try {
+      setJobs(await listJobs());
+    } catch (error) {
+      toast.error('Failed to load saved jobs');
+      console.error('Job library error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setName(currentJob?.name ?? '');
+      setCustomer(currentJob?.customer ?? '');
+      setFileIssues(null);
+      refreshJobs();
+    }
+  }, [open, currentJob, refreshJobs]);
+
+  const handleSave = async (asNew: boolean) => {
+    try {
+      const job = await saveJob(
+        { name: name.trim(), customer: customer.trim() },
+        getSnapshot(),
+        asNew ? undefined : currentJob?.id,
+      );
+      onSaved(job);
+      toast.success(`Saved ${job.name} (Rev ${job.revision})`);
+      refreshJobs();
+    } catch (error) {
+      toast.error('Failed to save job');
+      console.error('Job library error:', error);
+    }
+  };
+
+  const handleDuplicate = async (job: SavedJob) => {
+    try {
+      const copy = await duplicateJob(job);
+      toast.success(`Duplicated as ${copy.name}`);
+      refreshJobs();
+    } catch (error) {
+      toast.error('Failed to duplicate job');
+      console.error('Job library error:', error);
+    }
+  };
+
+  const handleDelete = async (job: SavedJob) => {
+    try {
+      await deleteJob(job.id);
+      refreshJobs();
+    } catch (error) {
+      toast.error('Failed to delete job');
+      console.error('Job library error:', error);
+    }
+  };
+
+  const handleExportFile = () => {
+    try {
+      const now = new Date().toISOString();
+      const file = createJobFile(
+        {
+          name: name.trim(),
+          customer: customer.trim(),
+          revision: currentJob?.revision ?? 1,
+          createdAt: currentJob?.createdAt ?? now,
+          updatedAt: currentJob?.updatedAt ?? now,
+        },
+        getSnapshot(),
+      );
+      downloadTextFile(serializeJobFile(file), `${file.job.name}${JOB_FILE_EXTENSION}`, 'application/json');
+      toast.success(`Exported ${file.job.name}${JOB_FILE_EXTENSION}`);
+    } catch (error) {
+      if (error instanceof JobFileError) {
+        setFileIssues({ fileName: `${name.trim()}${JOB_FILE_EXTENSION}`, issues: error.issues });
+      }
+      toast.error('Failed to export job file');
+      console.error('Job file error:', error);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const jobFile = parseJobFile(await file.text());
+      const job = await addJob({ ...jobFile.job, ...jobFileToSnapshot(jobFile) });
+      setFileIssues(null);
+      getJobFileToolingWarnings(jobFile).forEach((warning) => toast.warning(warning));
+      handleOpen(job);
+    } catch (error) {
+      if (error instanceof JobFileError) {
+        setFileIssues({
+          fileName: file.name,
+          issues: error.issues.length > 0 ? error.issues : [{ path: '(file)', message: error.message }],
+        });
+      }
+      toast.error(`Could not import ${file.name}`);
+      console.error('Job file error:', error);
+    }
+  };
+
+  const handleOpen = (job: SavedJob) => {
+    onOpen(job);
+    setOpen(false);
+  };
+
+  const results = searchJobs(jobs, query);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <FolderOpen className="h-4 w-4" />
+          {currentJob ? `${currentJob.name} · Rev ${currentJob.revision}` : 'Jobs'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="text-header">Job Library</DialogTitle>
+          <DialogDescription>
+            Jobs are saved in this browser with their profile settings, export options and manual punch edits. Job files (.spanplus.json) carry a job between computers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-auto max-h-[calc(90vh-160px)] space-y-6">
+          {/* Save current job */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Job Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Job name" className="w-56" />
+            </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Input value={customer} onChange={(e) => setCustomer(e.target.value)} placeholder="Customer" className="w-56" />
+            </div>
+            <Button size="sm" onClick={() => handleSave(false)} disabled={!name.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              {currentJob ? `Save Rev ${currentJob.revision + 1}` : 'Save'}
+            </Button>
+            {currentJob && (
+              <Button variant="outline" size="sm" onClick={() => handleSave(true)} disabled={!name.trim()}>
+                Save as New
+              </Button>
+            )}
+          </div>
+
+          {/* Job files */}
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Job File
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportFile} disabled={!name.trim()}>
+              <Download className="h-4 w-4 mr-2" />
+              Export Job File
+            </Button>
+          </div>
+
+          {fileIssues && (
+            <div className="text-sm text-amber-600 bg-amber-50 p-2 rounded-md space-y-1">
+              <div className="font-medium">⚠️ {fileIssues.fileName}</div>
+              {fileIssues.issues.map((issue, index) => (
+                <div key={index} className="text-xs">
+                  <span className="text-numbers">{issue.path}</span>: {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Saved jobs */}
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by job, customer or program name"
+              className="pl-9"
+            />
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="w-16">Rev</TableHead>
+                  <TableHead className="w-40">Saved</TableHead>
+                  <TableHead className="w-28"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                      {jobs.length === 0 ? 'No saved jobs' : 'No jobs match your search'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  results.map((job) => (
+                    <TableRow key={job.id} className={job.id === currentJob?.id ? 'bg-blue-50' : undefined}>
+                      <TableCell>
+                        <div className="text-sm font-medium">{job.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {job.exportData.programName}
+                          {job.punchOverrides.length > 0 && ` · ${job.punchOverrides.length} punch overrides`}
+                          {job.clashSuppressions.length > 0 && ` · ${job.clashSuppressions.length} suppressed clashes`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{job.customer}</TableCell>
+                      <TableCell className="text-numbers text-sm">{job.revision}</TableCell>
+                      <TableCell className="text-xs">{formatDate(job.updatedAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open job" onClick={() => handleOpen(job)}>
+                            <FolderOpen className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Duplicate as new job" onClick={() => handleDuplicate(job)}>
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Delete job" onClick={() => handleDelete(job)}>
+                            <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMemo, useRef, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FolderOpen, Plus, Upload, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProfileData } from '@/types/form-types';
+import { ImportedComponent, NCImportResult, checkImportedComponent, parseNCCsv } from '@/lib/nc-import';
+import { ProfileInference, inferProfileData } from '@/lib/profile-inference';
+
+interface NCImportPanelProps {
+  baseProfile: ProfileData;
+  onOpenComponent: (component: ImportedComponent, inferred?: ProfileData) => void;
+  onAddToBatch: (components: ImportedComponent[]) => void;
+  onApplyInference: (component: ImportedComponent, inference: ProfileInference) => void;
+}
+
+export function NCImportPanel({ baseProfile, onOpenComponent, onAddToBatch, onApplyInference }: NCImportPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<NCImportResult | null>(null);
+  const [inferred, setInferred] = useState<{ component: ImportedComponent; inference: ProfileInference } | null>(null);
+
+  // Settings inferred for a component are used when checking and opening it
+  const inferredFor = (component: ImportedComponent) =>
+    inferred?.component === component ? inferred.inference.profileData : undefined;
+
+  const clashResults = useMemo(
+    () => result?.components.map(component => checkImportedComponent(
+      component,
+      baseProfile,
+      inferred?.component === component ? inferred.inference.profileData : undefined
+    )) ?? [],
+    [result, baseProfile, inferred]
+  );
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseNCCsv(await file.text());
+      setFileName(file.name);
+      setResult(parsed);
+      setInferred(null);
+
+      if (parsed.components.length === 0) {
+        toast.error(`No components found in ${file.name}`);
+      } else {
+        toast.success(`Imported ${parsed.components.length} components from ${file.name}`);
+      }
+    } catch (error) {
+      toast.error('Failed to read NC file');
+      console.error('Import error:', error);
+    }
+  };
+
+  const handleInfer = (component: ImportedComponent) => {
+    try {
+      setInferred({ component, inference: inferProfileData(component, baseProfile) });
+    } catch (error) {
+      toast.error(`Could not infer settings for ${component.partCode}`);
+      console.error('Inference error:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+        <Upload className="h-4 w-4 mr-2" />
+        Import NC File
+      </Button>
+
+      {result && (
+        <>
+          <p className="text-xs text-muted-foreground">{fileName}</p>
+
+          {result.components.length > 0 && (
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Code</TableHead>
+                    <TableHead>Part</TableHead>
+                    <TableHead className="w-20">Clashes</TableHead>
+                    <TableHead className="w-14"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.components.map((component, index) => {
+                    const clashes = clashResults[index];
+                    return (
+                      <TableRow key={`${component.line}-${component.componentCode}`}>
+                        <TableCell className="text-numbers text-xs">{component.componentCode}</TableCell>
+                        <TableCell>
+                          <div className="text-xs font-medium">{component.partCode}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {component.memberType} · {component.length}mm · {component.punches.length} punches · x{component.quantity}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {clashes.errorCount > 0 ? (
+                            <Badge variant="destructive" className="text-[10px] px-1 py-0">{clashes.errorCount} errors</Badge>
+                          ) : clashes.warningCount > 0 ? (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">{clashes.warningCount} warnings</Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-[10px] px-1 py-0">OK</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="grid grid-cols-2 gap-1">
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Open in manual mode" onClick={() => onOpenComponent(component, inferredFor(component))}>
+                              <FolderOpen className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Infer profile settings" onClick={() => handleInfer(component)}>
+                              <Wand2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {inferred && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{inferred.component.partCode}</span>
+                <Badge variant={inferred.inference.confidence === 1 ? 'secondary' : 'outline'} className="text-[10px] px-1 py-0">
+                  {Math.round(inferred.inference.confidence * 100)}% match
+                </Badge>
+              </div>
+              <div className="text-xs text-muted-foreground space-y-0.5">
+                <div>{inferred.inference.profileData.profileType} · {inferred.inference.profileData.holeType}</div>
+                <div>
+                  Joist spacing {inferred.inference.profileData.joistSpacing}mm
+                  {inferred.component.memberType === 'BEARER' && !inferred.inference.profileData.joistBox && (
+                    <> · Stub spacing {inferred.inference.profileData.stubSpacing}mm</>
+                  )}
+                </div>
+                <div>
+                  {[
+                    inferred.inference.profileData.screensEnabled && 'Screens',
+                    inferred.inference.profileData.joistBox && 'Joist Box',
+                    inferred.inference.profileData.endBoxJoist && 'End Box',
+                  ].filter(Boolean).join(' · ') || 'Standard'}
+                </div>
+              </div>
+              {(inferred.inference.missing.length > 0 || inferred.inference.extra.length > 0) && (
+                <div className="text-xs text-amber-600 space-y-0.5 max-h-32 overflow-y-auto">
+                  {inferred.inference.extra.map((punch, index) => (
+                    <div key={`extra-${index}`}>Only in program: {punch.type} @ {punch.position}mm</div>
+                  ))}
+                  {inferred.inference.missing.map((punch, index) => (
+                    <div key={`missing-${index}`}>Not in program: {punch.type} @ {punch.position}mm</div>
+                  ))}
+                </div>
+              )}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="w-full"
+                onClick={() => onApplyInference(inferred.component, inferred.inference)}
+              >
+                Apply Profile Settings
+              </Button>
+            </div>
+          )}
+
+          {result.errors.length > 0 && (
+            <div className="text-sm text-amber-600 bg-amber-50 p-2 rounded-md space-y-1">
+              <div className="font-medium">⚠️ {result.errors.length} import {result.errors.length === 1 ? 'problem' : 'problems'}</div>
+              {result.errors.map((error, index) => (
+                <div key={index} className="text-xs">
+                  Line {error.line}: {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.components.length > 0 && (
+            <Button type="button" variant="outline" onClick={() => onAddToBatch(result.components)} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Add All to Batch Job
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
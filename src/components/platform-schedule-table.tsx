@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PlatformMember, PlatformSchedule } from '@/types/manufacturing';
+import { describeBearerRecommendation, designBearer } from '@/lib/bearer-design';
+
+interface PlatformScheduleTableProps {
+  schedule: PlatformSchedule;
+  onOpenMember?: (member: PlatformMember) => void;
+}
+
+const formatPositions = (positions: number[]) =>
+  positions.length ? positions.map((p) => `${p}`).join(' / ') : '-';
+
+export const PlatformScheduleTable: React.FC<PlatformScheduleTableProps> = ({ schedule, onOpenMember }) => {
+  const { platform, members, joistPositions, postPositions } = schedule;
+
+  // Bearer checked under its joist reactions between the platform's posts
+  const bearer = members.find((member) => member.memberType === 'Bearer');
+  const bearerDesign = useMemo(() => bearer && designBearer(bearer.profileData, platform.bays), [bearer, platform.bays]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="rounded-lg border p-3 bg-slate-50">
+          <div className="text-muted-foreground">Platform</div>
+          <div className="text-numbers-bold">{platform.width} × {platform.span}mm</div>
+        </div>
+        <div className="rounded-lg border p-3 bg-slate-50">
+          <div className="text-muted-foreground">Bays / Posts per Bearer</div>
+          <div className="text-numbers-bold">{platform.bays} / {postPositions.length}</div>
+        </div>
+        <div className="rounded-lg border p-3 bg-slate-50">
+          <div className="text-muted-foreground">Joist Pitch</div>
+          <div className="text-numbers-bold">{platform.pitch}mm</div>
+        </div>
+        <div className="rounded-lg border p-3 bg-slate-50">
+          <div className="text-muted-foreground">Total Members</div>
+          <div className="text-numbers-bold">{members.reduce((sum, m) => sum + m.quantity, 0)}</div>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Mark</TableHead>
+            <TableHead>Profile</TableHead>
+            <TableHead>Length</TableHead>
+            <TableHead>Qty</TableHead>
+            <TableHead>Joist Spacing</TableHead>
+            <TableHead>Stub Positions (mm)</TableHead>
+            <TableHead>Punches</TableHead>
+            {onOpenMember && <TableHead className="w-24"></TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {members.map((member) => (
+            <TableRow key={member.mark}>
+              <TableCell className="font-semibold">{member.mark}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{member.profileType}</Badge>
+              </TableCell>
+              <TableCell className="text-numbers">{member.length}mm</TableCell>
+              <TableCell className="text-numbers">{member.quantity}</TableCell>
+              <TableCell className="text-numbers">{member.joistSpacing}mm</TableCell>
+              <TableCell className="text-numbers text-xs">{formatPositions(member.stubPositions)}</TableCell>
+              <TableCell className="text-numbers">{member.punches.length}</TableCell>
+              {onOpenMember && (
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => onOpenMember(member)}>
+                    Open
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="text-sm space-y-1">
+        <div>
+          <strong>Joist positions along bearer:</strong>{' '}
+          <span className="text-numbers text-xs">0 / {formatPositions(joistPositions)} / {platform.width}</span>
+        </div>
+        <div>
+          <strong>Post positions along bearer:</strong>{' '}
+          <span className="text-numbers text-xs">{formatPositions(postPositions)}</span>
+        </div>
+      </div>
+
+      {bearerDesign && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium">
+              Bearer Check - {bearerDesign.profileType} under {bearerDesign.reactions.length} joist reactions
+            </div>
+            <Badge variant={bearerDesign.passes ? 'secondary' : 'destructive'}>
+              {bearerDesign.passes ? 'Passes' : `Fails ${bearerDesign.governing.governing.name.toLowerCase()}`}
+            </Badge>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Segment</TableHead>
+                <TableHead>From - To</TableHead>
+                {bearerDesign.segments[0].checks.map((check) => (
+                  <TableHead key={check.id} className="text-right">{check.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bearerDesign.segments.map((segment) => (
+                <TableRow key={`${segment.kind}-${segment.from}`}>
+                  <TableCell className="text-sm">{segment.kind === 'bay' ? 'Bay' : 'Cantilever'}</TableCell>
+                  <TableCell className="text-numbers">{segment.from} - {segment.to}mm</TableCell>
+                  {segment.checks.map((check) => (
+                    <TableCell key={check.id} className={`text-right text-numbers ${check.utilisation > 1 ? 'text-destructive font-semibold' : ''}`}>
+                      {check.demand.toFixed(check.unit === 'mm' ? 1 : 2)} / {check.capacity.toFixed(check.unit === 'mm' ? 1 : 2)} {check.unit} ({Math.round(check.utilisation * 100)}%)
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {!bearerDesign.passes && (
+            <p className="text-xs text-destructive">{describeBearerRecommendation(bearerDesign)}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
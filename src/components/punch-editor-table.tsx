@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Table,
   TableBody,
@@ -31,103 +31,79 @@ import {
   X,
   Copy,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Lock,
+  LockOpen
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { NCFileGenerator } from '@/lib/nc-generator';
+import { getPunchColor } from '@/lib/punch-dimensions';
+import { getActiveStations } from '@/lib/tooling-library';
+import { useToolingLibrary } from '@/hooks/use-tooling-library';
+import { getPunchKey } from '@/lib/punch-overrides';
+import { ClashIssue } from '@/lib/clash-detection';
+import { PunchRef } from '@/types/manufacturing';
+import { EditorPunch, PunchEditor } from '@/hooks/use-punch-editor';
+import { PunchStationType } from '@/types/form-types';
 
-export type PunchType = 'BOLT HOLE' | 'DIMPLE' | 'WEB TAB' | 'M SERVICE HOLE' | 'SMALL SERVICE HOLE' | 'LARGE SERVICE HOLE' | 'SERVICE' | 'CORNER BRACKETS';
-
-export interface Punch {
-  id: string;
-  position: number;
-  type: PunchType;
-  active: boolean;
-}
+type PunchType = PunchStationType;
 
 interface PunchEditorTableProps {
-  ncGenerator: NCFileGenerator | null;
-  onPunchesUpdate: (punches: Punch[] | null) => void;
+  editor: PunchEditor;
   profileLength: number;
   profileType?: string;
   punchStations?: any[];
   onPunchStationsUpdate?: (stations: any[]) => void;
-  updateVersion?: number;
   joistBox?: boolean;
+  // Keys (getPunchKey) of punches locked in the punch override layer - they can't be edited or deleted
+  lockedPunchKeys?: Set<string>;
+  onTogglePunchLock?: (punch: PunchRef) => void;
+  // Clash issues for each punch key (getIssuesByPunch), shown inline on the rows
+  issuesByPunch?: Map<string, ClashIssue[]>;
 }
 
-// Color mapping for punch types
-const punchColors: Record<PunchType, string> = {
-  'BOLT HOLE': 'bg-red-500',
-  'DIMPLE': 'bg-yellow-500',
-  'WEB TAB': 'bg-green-500',
-  'M SERVICE HOLE': 'bg-blue-500',
-  'SMALL SERVICE HOLE': 'bg-cyan-500',
-  'LARGE SERVICE HOLE': 'bg-indigo-500',
-  'SERVICE': 'bg-purple-500',
-  'CORNER BRACKETS': 'bg-orange-500',
-};
-
-const punchBadgeColors: Record<PunchType, string> = {
-  'BOLT HOLE': 'bg-red-100 text-red-800 border-red-300',
-  'DIMPLE': 'bg-yellow-100 text-yellow-800 border-yellow-300',
-  'WEB TAB': 'bg-green-100 text-green-800 border-green-300',
-  'M SERVICE HOLE': 'bg-blue-100 text-blue-800 border-blue-300',
-  'SMALL SERVICE HOLE': 'bg-cyan-100 text-cyan-800 border-cyan-300',
-  'LARGE SERVICE HOLE': 'bg-indigo-100 text-indigo-800 border-indigo-300',
-  'SERVICE': 'bg-purple-100 text-purple-800 border-purple-300',
-  'CORNER BRACKETS': 'bg-orange-100 text-orange-800 border-orange-300',
-};
+// Built-in stations keep this display order; stations added in the tooling library follow
+const BUILT_IN_DISPLAY_ORDER: PunchType[] = [
+  'WEB TAB',
+  'BOLT HOLE',
+  'CORNER BRACKETS',
+  'SERVICE',
+  'M SERVICE HOLE',
+  'SMALL SERVICE HOLE',
+  'LARGE SERVICE HOLE',
+  'DIMPLE'
+];
 
 export function PunchEditorTable({ 
-  ncGenerator, 
-  onPunchesUpdate, 
+  editor, 
   profileLength, 
   profileType,
   punchStations,
   onPunchStationsUpdate,
-  updateVersion,
-  joistBox 
+  joistBox,
+  lockedPunchKeys,
+  onTogglePunchLock,
+  issuesByPunch
 }: PunchEditorTableProps) {
-  const [punches, setPunches] = useState<Punch[]>([]);
+  const { punches, selectedIds: selectedPunches, setSelectedIds: setSelectedPunches } = editor;
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
-  const [history, setHistory] = useState<Punch[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const [selectedPunches, setSelectedPunches] = useState<Set<string>>(new Set());
   const [isSelecting, setIsSelecting] = useState(false);
+  const toolingLibrary = useToolingLibrary();
+  const scrollRef = useRef<HTMLDivElement>(null);
   
   // Track which station groups are collapsed
   const [collapsedStations, setCollapsedStations] = useState<Set<PunchType>>(new Set());
   
   // Track station enabled state (synchronized with Profile Settings)
-  const [stationEnabled, setStationEnabled] = useState<Record<PunchType, boolean>>({
-    'BOLT HOLE': true,
-    'DIMPLE': true,
-    'WEB TAB': true,
-    'M SERVICE HOLE': true,
-    'SMALL SERVICE HOLE': true,
-    'LARGE SERVICE HOLE': true,
-    'SERVICE': true,
-    'CORNER BRACKETS': true,
-  });
+  const [stationEnabled, setStationEnabled] = useState<Record<string, boolean>>({});
 
   // Sync station enabled state with Profile Settings
   useEffect(() => {
     if (punchStations) {
-      const newEnabled: Record<PunchType, boolean> = {
-        'BOLT HOLE': true,
-        'DIMPLE': true,
-        'WEB TAB': true,
-        'M SERVICE HOLE': true,
-        'SMALL SERVICE HOLE': true,
-        'LARGE SERVICE HOLE': true,
-        'SERVICE': true,
-        'CORNER BRACKETS': true,
-      };
+      const newEnabled: Record<string, boolean> = {};
       
       punchStations.forEach((ps) => {
-        if (ps.station && ps.station in newEnabled) {
+        if (ps.station) {
           newEnabled[ps.station as PunchType] = ps.enabled;
         }
       });
@@ -145,56 +121,27 @@ export function PunchEditorTable({
     }
   }, [punchStations]);
 
-  // Load punches from NC generator
+  // Stop editing when the program reloads
   useEffect(() => {
-    if (!ncGenerator) return;
-    
-    const calcs = ncGenerator.getCalculations();
-    const allPunches: Punch[] = [];
-    
-    // Collect all punches
-    const collectPunches = (arr: any[], type: PunchType) => {
-      arr.forEach((p) => {
-        if (p.active) {
-          allPunches.push({
-            id: `${type}-${p.position}`,
-            position: p.position,
-            type: type as PunchType,
-            active: true,
-          });
-        }
-      });
-    };
-    
-    collectPunches(calcs.boltHoles, 'BOLT HOLE');
-    collectPunches(calcs.dimples, 'DIMPLE');
-    collectPunches(calcs.webHoles, 'WEB TAB');
-    // Service holes can be of different types, so collect them individually by their actual type
-    calcs.serviceHoles.forEach((h) => {
-      if (h.active) {
-        allPunches.push({
-          id: `${h.type}-${h.position}`,
-          position: h.position,
-          type: h.type as PunchType,
-          active: true,
-        });
-      }
-    });
-    
-    // Separate corner brackets from service stubs by type
-    const cornerBrackets = calcs.stubs.filter(s => s.type === 'CORNER BRACKETS');
-    const serviceStubs = calcs.stubs.filter(s => s.type !== 'CORNER BRACKETS');
-    
-    collectPunches(cornerBrackets, 'CORNER BRACKETS');
-    collectPunches(serviceStubs, 'SERVICE');
-    
-    setPunches(allPunches);
-    setHistory([allPunches]);
-    setHistoryIndex(0);
-    // Reset other state when profile changes
-    setSelectedPunches(new Set());
     setEditingId(null);
-  }, [ncGenerator, updateVersion, profileLength]);
+  }, [punches]);
+
+  // Bring punches selected elsewhere (the drawing, a clash issue) into view - only the table scrolls, not the page
+  useEffect(() => {
+    const container = scrollRef.current;
+    const row = container?.querySelector<HTMLElement>('tr[data-selected="true"]');
+    if (!container || !row) return;
+
+    const rowBox = row.getBoundingClientRect();
+    const containerBox = container.getBoundingClientRect();
+    if (rowBox.top < containerBox.top || rowBox.bottom > containerBox.bottom) {
+      container.scrollTop += rowBox.top - containerBox.top - containerBox.height / 2;
+    }
+  }, [selectedPunches]);
+
+  const isLocked = (punch: EditorPunch) => lockedPunchKeys?.has(getPunchKey(punch)) ?? false;
+
+  const getRowIssues = (punch: EditorPunch) => issuesByPunch?.get(getPunchKey(punch)) ?? [];
 
   // Group punches by type
   const groupedPunches = punches.reduce((acc, punch) => {
@@ -203,84 +150,22 @@ export function PunchEditorTable({
     }
     acc[punch.type].push(punch);
     return acc;
-  }, {} as Record<PunchType, Punch[]>);
+  }, {} as Record<PunchType, EditorPunch[]>);
 
   // Sort each group by position
   Object.keys(groupedPunches).forEach((type) => {
     groupedPunches[type as PunchType].sort((a, b) => a.position - b.position);
   });
 
-  const addToHistory = (newPunches: Punch[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newPunches);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  };
-
-  const handleUndo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setPunches(history[newIndex]);
-      setHistoryIndex(newIndex);
-      onPunchesUpdate(history[newIndex]);
-    }
-  };
-
-  const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setPunches(history[newIndex]);
-      setHistoryIndex(newIndex);
-      onPunchesUpdate(history[newIndex]);
-    }
-  };
-
   const handleReset = () => {
-    // Reset to calculated mode - pass null to clear manual mode
-    onPunchesUpdate(null);
+    // Reset to calculated mode - the editor reloads the punches once the parent recalculates
+    editor.reset();
     setSelectedPunches(new Set());
     setEditingId(null);
-    // The parent will trigger a recalculation and the useEffect will reload the punches
-  };
-
-  const handleDelete = (id: string) => {
-    const newPunches = punches.filter(p => p.id !== id);
-    setPunches(newPunches);
-    addToHistory(newPunches);
-    onPunchesUpdate(newPunches);
-  };
-
-  const handleDuplicate = (punch: Punch) => {
-    // Find a position slightly offset from the original
-    const offset = 50; // 50mm offset for the duplicate
-    let newPosition = punch.position + offset;
-    
-    // Ensure the new position is within bounds
-    if (newPosition > profileLength) {
-      newPosition = punch.position - offset;
-      if (newPosition < 0) {
-        newPosition = punch.position; // Keep same position if no space
-      }
-    }
-    
-    const newPunch: Punch = {
-      id: `${punch.type}-${newPosition}-${Date.now()}`,
-      position: newPosition,
-      type: punch.type,
-      active: true,
-    };
-    
-    const newPunches = [...punches, newPunch];
-    setPunches(newPunches);
-    addToHistory(newPunches);
-    onPunchesUpdate(newPunches);
   };
 
   const handleBulkDelete = () => {
-    const newPunches = punches.filter(p => !selectedPunches.has(p.id));
-    setPunches(newPunches);
-    addToHistory(newPunches);
-    onPunchesUpdate(newPunches);
+    editor.removePunches(punches.filter(p => selectedPunches.has(p.id) && !isLocked(p)).map(p => p.id));
     setSelectedPunches(new Set());
   };
 
@@ -292,12 +177,7 @@ export function PunchEditorTable({
   const handleSaveEdit = (id: string) => {
     const newPosition = parseFloat(editValue);
     if (!isNaN(newPosition) && newPosition >= 0 && newPosition <= profileLength) {
-      const newPunches = punches.map(p => 
-        p.id === id ? { ...p, position: newPosition } : p
-      );
-      setPunches(newPunches);
-      addToHistory(newPunches);
-      onPunchesUpdate(newPunches);
+      editor.movePunch(id, newPosition);
     }
     setEditingId(null);
   };
@@ -331,18 +211,15 @@ export function PunchEditorTable({
       onPunchStationsUpdate(updatedStations);
     }
     
-    // If disabling, remove all punches of this type and trigger manual mode
-    if (!enabled) {
-      const filteredPunches = punches.filter(p => p.type !== station);
-      setPunches(filteredPunches);
-      addToHistory(filteredPunches);
-      onPunchesUpdate(filteredPunches);
+    // If disabling without Profile Settings to regenerate from, remove all punches of this type and trigger manual mode
+    if (!enabled && !onPunchStationsUpdate) {
+      editor.commit(punches.filter(p => p.type !== station));
     }
   };
 
   const handleAddStationPunch = (station: PunchType) => {
     // If station is disabled, enable it first
-    if (!stationEnabled[station]) {
+    if (stationEnabled[station] === false) {
       handleToggleStation(station, true);
     }
     
@@ -369,42 +246,18 @@ export function PunchEditorTable({
       }
     }
     
-    const newPunch: Punch = {
-      id: `${station}-${newPosition}-${Date.now()}`,
-      position: newPosition,
-      type: station,
-      active: true,
-    };
-    
-    const newPunches = [...punches, newPunch];
-    setPunches(newPunches);
-    addToHistory(newPunches);
-    onPunchesUpdate(newPunches);
-  };
-
-  const toggleSelection = (id: string) => {
-    const newSelected = new Set(selectedPunches);
-    if (newSelected.has(id)) {
-      newSelected.delete(id);
-    } else {
-      newSelected.add(id);
-    }
-    setSelectedPunches(newSelected);
+    editor.addPunch(station, newPosition);
   };
 
   const isBearer = profileType === 'Bearer Single' || profileType === 'Bearer Box';
 
-  // Define display order based on requirements
-  const stationDisplayOrder: PunchType[] = [
-    'WEB TAB',
-    'BOLT HOLE',
-    'CORNER BRACKETS',
-    'SERVICE',
-    'M SERVICE HOLE',
-    'SMALL SERVICE HOLE',
-    'LARGE SERVICE HOLE',
-    'DIMPLE'
-  ];
+  // Stations fitted to the active machine, plus any station already punched in the program
+  const activeStationNames = getActiveStations(toolingLibrary).map(station => station.station);
+  const stationDisplayOrder: PunchType[] = [...new Set([
+    ...BUILT_IN_DISPLAY_ORDER.filter(type => activeStationNames.includes(type) || groupedPunches[type]?.length),
+    ...activeStationNames,
+    ...punches.map(p => p.type),
+  ])];
 
   // Get dynamic display name for stations based on profile type
   const getStationDisplayName = (stationType: PunchType): string => {
@@ -442,8 +295,8 @@ export function PunchEditorTable({
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleUndo}
-                disabled={historyIndex <= 0}
+                onClick={editor.undo}
+                disabled={!editor.canUndo}
                 className="h-8 w-8 p-0 bg-white shadow-sm hover:shadow-md transition-shadow disabled:bg-gray-100 disabled:shadow-none"
                 title="Undo"
               >
@@ -452,8 +305,8 @@ export function PunchEditorTable({
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleRedo}
-                disabled={historyIndex >= history.length - 1}
+                onClick={editor.redo}
+                disabled={!editor.canRedo}
                 className="h-8 w-8 p-0 bg-white shadow-sm hover:shadow-md transition-shadow disabled:bg-gray-100 disabled:shadow-none"
                 title="Redo"
               >
@@ -497,7 +350,7 @@ export function PunchEditorTable({
       </CardHeader>
       
       <CardContent className="p-0">
-        <div className="max-h-[600px] overflow-y-auto border rounded-lg">
+        <div ref={scrollRef} className="max-h-[600px] overflow-y-auto border rounded-lg">
           <Table>
             <TableHeader className="sticky top-0 bg-white z-10">
               <TableRow>
@@ -512,7 +365,7 @@ export function PunchEditorTable({
               {stationDisplayOrder.map((type) => {
                 const typePunches = groupedPunches[type] || [];
                 const isCollapsed = collapsedStations.has(type);
-                const isEnabled = stationEnabled[type];
+                const isEnabled = stationEnabled[type] ?? true;
                 const displayName = getStationDisplayName(type);
                 
                 return (
@@ -543,7 +396,7 @@ export function PunchEditorTable({
                             >
                               {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
                             </Button>
-                          <div className={cn("w-3 h-3 rounded-full", punchColors[type])} />
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getPunchColor(type) }} />
                           <span className={cn("text-body", !isEnabled && "opacity-50")}>{displayName}</span>
                           {typePunches.length > 0 && (
                             <Badge variant="secondary" className="ml-2">
@@ -571,9 +424,15 @@ export function PunchEditorTable({
                   </TableRow>
                   
                   {/* Punch rows - only show if not collapsed and enabled */}
-                  {!isCollapsed && isEnabled && typePunches.map((punch) => (
+                  {!isCollapsed && isEnabled && typePunches.map((punch) => {
+                    const rowIssues = getRowIssues(punch);
+                    const rowErrors = rowIssues.filter(issue => issue.severity === 'error');
+                    const rowWarnings = rowIssues.filter(issue => issue.severity === 'warning');
+
+                    return (
                     <TableRow 
                       key={punch.id}
+                      data-selected={selectedPunches.has(punch.id)}
                       className={cn(
                         "group hover:bg-gray-50",
                         selectedPunches.has(punch.id) && "bg-blue-50"
@@ -584,13 +443,13 @@ export function PunchEditorTable({
                           <input
                             type="checkbox"
                             checked={selectedPunches.has(punch.id)}
-                            onChange={() => toggleSelection(punch.id)}
+                            onChange={() => editor.toggleSelected(punch.id)}
                             className="rounded border-gray-300"
                           />
                         </TableCell>
                       )}
                       <TableCell className="text-left">
-                        <div className={cn("w-2 h-2 rounded-full", punchColors[punch.type])} />
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getPunchColor(punch.type) }} />
                       </TableCell>
                       <TableCell className="text-left">
                         {editingId === punch.id ? (
@@ -622,24 +481,43 @@ export function PunchEditorTable({
                         ) : (
                           <button
                             onClick={() => handleEdit(punch.id, punch.position)}
-                            className="w-24 h-7 text-sm px-3 py-1 bg-white border border-input rounded-md text-numbers transition-colors text-left"
+                            disabled={isLocked(punch)}
+                            className="w-24 h-7 text-sm px-3 py-1 bg-white border border-input rounded-md text-numbers transition-colors text-left disabled:bg-gray-50 disabled:cursor-not-allowed"
                             style={{color: '#262626'}}
+                            title={isLocked(punch) ? 'Locked - unlock to edit' : undefined}
                           >
                             {punch.position.toFixed(1)}
                           </button>
                         )}
                       </TableCell>
                       <TableCell className="text-left">
-                        <Badge className={cn("text-xs", punchBadgeColors[punch.type])}>
+                        <Badge
+                          className="text-xs"
+                          style={{ backgroundColor: `${getPunchColor(punch.type)}1a`, color: getPunchColor(punch.type), borderColor: `${getPunchColor(punch.type)}66` }}
+                        >
                           {punch.type}
                         </Badge>
+                        {rowErrors.length > 0 && (
+                          <Badge variant="destructive" className="text-xs ml-2" title={rowErrors.map(issue => issue.issue).join('\n')}>
+                            {rowErrors.length === 1 ? 'Error' : `${rowErrors.length} errors`}
+                          </Badge>
+                        )}
+                        {rowWarnings.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs ml-2 bg-amber-50 text-amber-700 border-amber-300"
+                            title={rowWarnings.map(issue => issue.issue).join('\n')}
+                          >
+                            {rowWarnings.length === 1 ? 'Warning' : `${rowWarnings.length} warnings`}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-left">
                         <div className="flex items-center gap-2">
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleDuplicate(punch)}
+                            onClick={() => editor.duplicatePunch(punch)}
                             className="h-7 w-7 p-0 bg-white shadow-sm hover:shadow-md transition-all opacity-0 group-hover:opacity-100"
                             title="Duplicate punch"
                           >
@@ -648,16 +526,32 @@ export function PunchEditorTable({
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleDelete(punch.id)}
+                            onClick={() => editor.removePunches([punch.id])}
+                            disabled={isLocked(punch)}
                             className="h-7 w-7 p-0 bg-white shadow-sm hover:shadow-md transition-all opacity-0 group-hover:opacity-100"
                             title="Delete punch"
                           >
                             <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
                           </Button>
+                          {onTogglePunchLock && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onTogglePunchLock(punch)}
+                              className={cn(
+                                "h-7 w-7 p-0 bg-white shadow-sm hover:shadow-md transition-all",
+                                !isLocked(punch) && "opacity-0 group-hover:opacity-100"
+                              )}
+                              title={isLocked(punch) ? 'Unlock punch' : 'Lock punch at this position'}
+                            >
+                              {isLocked(punch) ? <Lock className="h-3 w-3" style={{color: '#5550F2'}} /> : <LockOpen className="h-3 w-3" />}
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
-                  ))}
+                    );
+                  })}
                 </React.Fragment>
                 );
               })}
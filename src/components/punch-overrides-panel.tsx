@@ -0,0 +1,74 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { OverrideResult, OverrideStatus, describeOverride } from '@/lib/punch-overrides';
+
+interface PunchOverridesPanelProps {
+  results: OverrideResult[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_BADGES: Record<OverrideStatus, { label: string; className: string }> = {
+  applied: { label: 'Applied', className: 'bg-green-50 text-green-700 border-green-200' },
+  restored: { label: 'Restored', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  stale: { label: 'Stale', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+};
+
+export function PunchOverridesPanel({ results, onRemove, onClear }: PunchOverridesPanelProps) {
+  const staleCount = results.filter(result => result.status === 'stale').length;
+
+  return (
+    <Card className="card-system grid-m-3">
+      <CardHeader className="grid-p-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-header">Punch Overrides</CardTitle>
+          <Button variant="outline" size="sm" onClick={onClear}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Clear All
+          </Button>
+        </div>
+        {staleCount > 0 && (
+          <div className="text-sm text-amber-600 bg-amber-50 p-2 rounded-md">
+            ⚠️ {staleCount} {staleCount === 1 ? 'override no longer fits' : 'overrides no longer fit'} the current settings and {staleCount === 1 ? 'is' : 'are'} skipped. They apply again if the settings change back.
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="max-h-[300px] overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Operation</TableHead>
+                <TableHead className="w-24">Status</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(({ override, status, reason }) => (
+                <TableRow key={override.id}>
+                  <TableCell>
+                    <div className="text-sm text-numbers">{describeOverride(override)}</div>
+                    {reason && <div className="text-xs text-muted-foreground">{reason}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_BADGES[status].className}>
+                      {STATUS_BADGES[status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Remove override" onClick={() => onRemove(override.id)}>
+                      <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,13 +3,43 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ProfileForm } from '@/components/forms/profile-form';
 import { ExportForm } from '@/components/forms/export-form';
+import { PlatformForm } from '@/components/forms/platform-form';
+import { PlatformScheduleTable } from '@/components/platform-schedule-table';
+import { BatchJobPanel } from '@/components/batch-job-panel';
+import { NCImportPanel } from '@/components/nc-import-panel';
+import { ToolingLibraryDialog } from '@/components/tooling-library-dialog';
+import { ClashRulesDialog } from '@/components/clash-rules-dialog';
+import { SpanTableDialog } from '@/components/span-table-dialog';
+import { JobLibraryDialog } from '@/components/job-library-dialog';
 import { VisualizationPanel } from '@/components/visualization/visualization-panel';
-import { PDFExportLayout } from '@/components/pdf-export-layout';
+import { PunchOverridesPanel } from '@/components/punch-overrides-panel';
 import { useNCGenerator } from '@/hooks/use-nc-generator';
-import { ProfileData, ExportData } from '@/types/form-types';
-import { Download, Eye, List, Maximize2, FileText, Code } from 'lucide-react';
+import { useBatchJob } from '@/hooks/use-batch-job';
+import { useToolingLibrary } from '@/hooks/use-tooling-library';
+import { ProfileData, ExportData, PlatformData } from '@/types/form-types';
+import { BatchPart, ClashSuppression, PlatformMember, PlatformSchedule, Punch, PunchOverride, PunchRef, SavedJob } from '@/types/manufacturing';
+import { generatePlatformSchedule } from '@/lib/platform-schedule';
+import { createBatchPart, generateBatchCSV } from '@/lib/batch-job';
+import { ImportedComponent, importedComponentToProfileData } from '@/lib/nc-import';
+import { ProfileInference } from '@/lib/profile-inference';
+import { getPostProcessor } from '@/lib/post-processors';
+import { generateDXF } from '@/lib/dxf-export';
+import { generateShopDrawingPDF } from '@/lib/pdf-export';
+import { getMemberDiagrams } from '@/lib/member-diagrams';
+import { detectClashes } from '@/lib/clash-detection';
+import { applyClashSuppressions } from '@/lib/clash-suppressions';
+import {
+  OverrideResult,
+  applyPunchOverrides,
+  createLockOverride,
+  diffPunchOverrides,
+  getGeneratedPunches,
+  getPunchKey,
+} from '@/lib/punch-overrides';
+import { Download, Eye, List, Maximize2, FileText, Code, LayoutGrid } from 'lucide-react';
 // Dynamically import heavy libs when needed to avoid initial bundle weight and optimize caching issues
 import { toast } from 'sonner';
+import { downloadTextFile } from '@/lib/utils';
 import { CuttingListTable } from '@/components/cutting-list-table';
 import { Button } from '@/components/ui/button';
 import {
@@ -111,6 +141,15 @@ export function SpanPlusApp() {
     })
   });
 
+  const [platformData, setPlatformData] = useState<PlatformData>({
+    width: 6000,
+    span: 4000,
+    bays: 2,
+    pitch: 600,
+  });
+  const [platformSchedule, setPlatformSchedule] = useState<PlatformSchedule | null>(null);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+
   // Use custom hook for NC generator
   const { 
     ncGenerator, 
@@ -125,9 +164,39 @@ export function SpanPlusApp() {
   // Track update version in state to force re-renders when manual punches change
   const [updateVersionState, setUpdateVersionState] = useState(0);
 
+  // Manual punch edits as a layer of operations, re-applied whenever the program regenerates
+  const [punchOverrides, setPunchOverrides] = useState<PunchOverride[]>([]);
+  const [overrideResults, setOverrideResults] = useState<OverrideResult[]>([]);
+
+  // Program opened from an NC file or a batch snapshot - its bolt holes are kept as punched
+  // rather than re-paired with the web tabs
+  const [keepBoltHoles, setKeepBoltHoles] = useState(false);
+
+  // Clash issues accepted for this job, saved with it
+  const [clashSuppressions, setClashSuppressions] = useState<ClashSuppression[]>([]);
+
+  // Program as generated from the current settings, before overrides - edits are diffed against it
+  const generatedPunchesRef = useRef<Punch[]>([]);
+
+  const { parts: batchParts, addParts, updatePart, movePart, removePart } = useBatchJob();
+
+  // Job from the local job library that is currently open
+  const [currentJob, setCurrentJob] = useState<SavedJob | null>(null);
+
+  // Re-render the cutting list and NC preview when stations are edited in the tooling library
+  useToolingLibrary();
+
+  // Profile opened together with its own program name - a member mark, part code or saved job.
+  // The name is kept until the settings change in a way that would change the generated name.
+  const namedProfileRef = useRef<ProfileData | null>(null);
+
   // Update program name when profile settings change
   useEffect(() => {
     const newProgramName = generateProgramName(profileData);
+    if (namedProfileRef.current) {
+      if (generateProgramName(namedProfileRef.current) === newProgramName) return;
+      namedProfileRef.current = null;
+    }
     setExportData(prev => ({
       ...prev,
       programName: newProgramName
@@ -136,29 +205,50 @@ export function SpanPlusApp() {
 
   useEffect(() => {
     if (ncGenerator) {
-      // Clear manual mode when profile settings change - Profile Settings should override manual edits
+      // Regenerate from Profile Settings, then re-apply the manual edits on top
       clearManualMode();
-      // Update calculations with new profile data
       updateCalculations();
-    }
-  }, [profileData, exportData, ncGenerator, clearManualMode, updateCalculations]);
-  
-  // Callback for when manual punches are updated
-  const handleManualPunchesUpdate = useCallback((punches: any[] | null) => {
-    if (ncGenerator) {
-      if (punches === null) {
-        // Reset to calculated mode
-        clearManualMode();
-        // Recalculate with current settings
-        updateCalculations();
+      generatedPunchesRef.current = ncGenerator.getPunches();
+
+      if (punchOverrides.length > 0) {
+        const { punches, results } = applyPunchOverrides(generatedPunchesRef.current, punchOverrides, profileData.length);
+        setManualPunches(punches, !keepBoltHoles);
+        setOverrideResults(results);
       } else {
-        // Set manual punches, pass profileType for bolt/web tab sync on bearers
-        setManualPunches(punches);
+        setOverrideResults([]);
       }
-      // Update state to trigger re-render for PDF export
       setUpdateVersionState(ncGenerator.getUpdateVersion());
     }
-  }, [ncGenerator, clearManualMode, updateCalculations, setManualPunches]);
+  }, [profileData, exportData, punchOverrides, keepBoltHoles, ncGenerator, clearManualMode, updateCalculations, setManualPunches]);
+
+  // Callback for when manual punches are updated - null resets to the generated program
+  const handleManualPunchesUpdate = useCallback((punches: Punch[] | null) => {
+    if (punches === null) {
+      setPunchOverrides([]);
+      return;
+    }
+
+    // Stale operations stay in the layer until removed - they apply again if the settings change back
+    const stale = overrideResults.filter(result => result.status === 'stale').map(result => result.override);
+    const locks = punchOverrides.filter(override => override.kind === 'lock' && !stale.includes(override));
+    setPunchOverrides([...stale, ...diffPunchOverrides(generatedPunchesRef.current, punches, locks)]);
+  }, [punchOverrides, overrideResults]);
+
+  const lockedPunchKeys = useMemo(() => new Set(
+    punchOverrides.flatMap(override => override.kind === 'lock' ? [getPunchKey(override.target)] : [])
+  ), [punchOverrides]);
+
+  const handleTogglePunchLock = useCallback((punch: PunchRef) => {
+    const key = getPunchKey(punch);
+    setPunchOverrides(prev => lockedPunchKeys.has(key)
+      ? prev.filter(override => override.kind !== 'lock' || getPunchKey(override.target) !== key)
+      : [...prev, createLockOverride(punch)]
+    );
+  }, [lockedPunchKeys]);
+
+  const handleRemoveOverride = useCallback((id: string) => {
+    setPunchOverrides(prev => prev.filter(override => override.id !== id));
+  }, []);
 
   const handleExportCSV = useCallback(() => {
     if (!ncGenerator) {
@@ -167,77 +257,182 @@ export function SpanPlusApp() {
     }
 
     try {
-      const csvContent = generateCSV();
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${exportData.programName || 'nc_file'}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
-      
-      toast.success('CSV file exported successfully');
+      const postProcessor = getPostProcessor(exportData.postProcessor);
+      const ncContent = generateCSV();
+      downloadTextFile(ncContent, `${exportData.programName || 'nc_file'}.${postProcessor.fileExtension}`, postProcessor.mimeType);
+
+      toast.success('NC file exported successfully');
     } catch (error) {
-      toast.error('Failed to export CSV file');
+      toast.error('Failed to export NC file');
       console.error('Export error:', error);
     }
-  }, [ncGenerator, generateCSV, exportData.programName]);
+  }, [ncGenerator, generateCSV, exportData.programName, exportData.postProcessor]);
 
-  const pdfExportRef = useRef<HTMLDivElement>(null);
-
-  const handleExportPDF = useCallback(async () => {
-    if (!pdfExportRef.current) {
-      toast.error('PDF content not available');
+  const handleExportDXF = useCallback(() => {
+    if (!ncGenerator) {
+      toast.error('NC Generator not initialized');
       return;
     }
 
     try {
-      // Dynamically import libraries to prevent Vite optimize cache errors
-      const html2canvas = (await import('html2canvas')).default;
-      const { jsPDF } = await import('jspdf');
+      const dxfContent = generateDXF(profileData, ncGenerator.getCalculations(), ncGenerator.getPartCode());
+      downloadTextFile(dxfContent, `${exportData.programName || 'nc_file'}.dxf`, 'application/dxf');
 
-      // Get the two page elements
-      const page1Element = pdfExportRef.current.querySelector('#page1-visualization') as HTMLElement;
-      const page2Element = pdfExportRef.current.querySelector('#page2-punch-table') as HTMLElement;
+      toast.success('DXF drawing exported successfully');
+    } catch (error) {
+      toast.error('Failed to export DXF drawing');
+      console.error('DXF export error:', error);
+    }
+  }, [ncGenerator, profileData, exportData.programName]);
 
-      if (!page1Element || !page2Element) {
-        toast.error('PDF layout not found');
-        return;
-      }
+  const handleGenerateSchedule = useCallback(() => {
+    try {
+      setPlatformSchedule(generatePlatformSchedule(platformData, profileData));
+      setScheduleOpen(true);
+    } catch (error) {
+      toast.error('Failed to generate member schedule');
+      console.error('Schedule error:', error);
+    }
+  }, [platformData, profileData]);
 
-      // Create PDF
-      const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
-
-      // Capture Page 1 (Landscape - Visualization)
-      const canvas1 = await html2canvas(page1Element, { scale: 2, backgroundColor: '#ffffff' });
-      const imgData1 = canvas1.toDataURL('image/png');
-      
-      const page1Width = 297;
-      const page1Height = 210;
-      pdf.addImage(imgData1, 'PNG', 0, 0, page1Width, page1Height);
-
-      // Add Page 2 (Portrait - Punch Table)
-      pdf.addPage('a4', 'portrait');
-      
-      const canvas2 = await html2canvas(page2Element, { scale: 2, backgroundColor: '#ffffff' });
-      const imgData2 = canvas2.toDataURL('image/png');
-      
-      const page2Width = 210;
-      const page2Height = 297;
-      
-      // Calculate dimensions to fit
-      const imgProps = canvas2.width / canvas2.height;
-      let pdfWidth = page2Width;
-      let pdfHeight = pdfWidth / imgProps;
-      
-      if (pdfHeight > page2Height) {
-        pdfHeight = page2Height;
-        pdfWidth = pdfHeight * imgProps;
-      }
-      
-      pdf.addImage(imgData2, 'PNG', 0, 0, pdfWidth, pdfHeight);
+  // Load a scheduled member into the Profile Settings for review and export
+  const handleOpenMember = useCallback((member: PlatformMember) => {
+    setPunchOverrides([]);
+    setKeepBoltHoles(false);
+    setClashSuppressions([]);
+    namedProfileRef.current = member.profileData;
+    setProfileData(member.profileData);
+    setExportData(prev => ({ ...prev, quantity: member.quantity, programName: member.mark }));
+    setScheduleOpen(false);
+    toast.success(`Loaded ${member.mark} (${member.profileType})`);
+  }, []);
+
+  const handleAddScheduleToBatch = useCallback(() => {
+    if (!platformSchedule) return;
+    addParts(platformSchedule.members.map(member =>
+      createBatchPart(member.profileData, { quantity: member.quantity, programName: member.mark })
+    ));
+    toast.success(`Added ${platformSchedule.members.length} members to the batch job`);
+  }, [platformSchedule, addParts]);
+
+  const handleAddCurrentToBatch = useCallback(() => {
+    addParts([createBatchPart(profileData, exportData, ncGenerator?.getManualPunches() ?? null)]);
+    toast.success(`Added ${exportData.programName} to the batch job`);
+  }, [addParts, profileData, exportData, ncGenerator]);
+
+  const handleReplaceBatchPart = useCallback((part: BatchPart) => {
+    updatePart(part.id, {
+      profileData,
+      manualPunches: ncGenerator?.getManualPunches() ?? null,
+    });
+    toast.success(`Updated ${part.partCode} from current settings`);
+  }, [updatePart, profileData, ncGenerator]);
+
+  // Open a batch part in Profile Settings, restoring its manual punch edits as overrides
+  const handleLoadBatchPart = useCallback((part: BatchPart) => {
+    const partExportData = { ...exportData, quantity: part.quantity, programName: part.partCode };
+    setPunchOverrides(part.manualPunches
+      ? diffPunchOverrides(getGeneratedPunches(part.profileData, partExportData), part.manualPunches)
+      : []);
+    setKeepBoltHoles(part.manualPunches !== null);
+    setClashSuppressions([]);
+    namedProfileRef.current = part.profileData;
+    setProfileData(part.profileData);
+    setExportData(partExportData);
+  }, [exportData]);
+
+  // Open an imported NC component with its punches as overrides so they can be reviewed and edited
+  const handleOpenImportedComponent = useCallback((component: ImportedComponent, inferred?: ProfileData) => {
+    const importedProfile = importedComponentToProfileData(component, profileData, inferred);
+    const importedExportData = { ...exportData, quantity: component.quantity, programName: component.partCode };
+    setPunchOverrides(diffPunchOverrides(getGeneratedPunches(importedProfile, importedExportData), component.punches));
+    setKeepBoltHoles(true);
+    setClashSuppressions([]);
+    namedProfileRef.current = importedProfile;
+    setProfileData(importedProfile);
+    setExportData(importedExportData);
+    toast.success(`Opened ${component.partCode} (${component.componentCode})`);
+  }, [profileData, exportData]);
+
+  // Snapshot of the current job for saving, including its punch overrides and suppressed clashes
+  const getJobSnapshot = useCallback(() => ({
+    profileData,
+    exportData,
+    punchOverrides,
+    clashSuppressions,
+  }), [profileData, exportData, punchOverrides, clashSuppressions]);
+
+  // Open a saved job, re-applying its punch overrides to the regenerated program
+  const handleOpenJob = useCallback((job: SavedJob) => {
+    setPunchOverrides(job.punchOverrides);
+    setKeepBoltHoles(false);
+    setClashSuppressions(job.clashSuppressions);
+    namedProfileRef.current = job.profileData;
+    setProfileData(job.profileData);
+    setExportData(job.exportData);
+    setCurrentJob(job);
+    toast.success(`Opened ${job.name} (Rev ${job.revision})`);
+  }, []);
+
+  // Open an imported NC component through Profile Settings using its inferred parameters
+  const handleApplyInference = useCallback((component: ImportedComponent, inference: ProfileInference) => {
+    setPunchOverrides([]);
+    setKeepBoltHoles(false);
+    setClashSuppressions([]);
+    namedProfileRef.current = inference.profileData;
+    setProfileData(inference.profileData);
+    setExportData(prev => ({ ...prev, quantity: component.quantity, programName: component.partCode }));
+
+    const differences = inference.missing.length + inference.extra.length;
+    if (differences > 0) {
+      toast.warning(`Applied settings for ${component.partCode} - ${differences} punches differ from the imported program`);
+    } else {
+      toast.success(`Applied settings for ${component.partCode}`);
+    }
+  }, []);
+
+  const handleAddImportedToBatch = useCallback((components: ImportedComponent[]) => {
+    addParts(components.map(component =>
+      createBatchPart(
+        importedComponentToProfileData(component, profileData),
+        { quantity: component.quantity, programName: component.partCode },
+        component.punches
+      )
+    ));
+    toast.success(`Added ${components.length} imported parts to the batch job`);
+  }, [addParts, profileData]);
+
+  const handleExportBatchCSV = useCallback(() => {
+    try {
+      const postProcessor = getPostProcessor(exportData.postProcessor);
+      downloadTextFile(
+        generateBatchCSV(batchParts, postProcessor.id),
+        `batch_job.${postProcessor.fileExtension}`,
+        postProcessor.mimeType
+      );
+      toast.success(`Batch NC file exported (${batchParts.length} parts)`);
+    } catch (error) {
+      toast.error('Failed to export batch NC file');
+      console.error('Batch export error:', error);
+    }
+  }, [batchParts, exportData.postProcessor]);
+
+  const handleExportPDF = useCallback(async () => {
+    if (!ncGenerator) {
+      toast.error('NC Generator not initialized');
+      return;
+    }
+
+    try {
+      const calculations = ncGenerator.getCalculations();
+      const pdf = await generateShopDrawingPDF({
+        profileData,
+        calculations,
+        program: ncGenerator.getProgram(),
+        title: exportData.programName,
+        suppressions: applyClashSuppressions(detectClashes(calculations, profileData).issues, clashSuppressions).results,
+        diagrams: exportData.includeDiagrams ? getMemberDiagrams(profileData, platformData.bays) : undefined,
+      });
 
       pdf.save(`${exportData.programName || 'nc_file'}.pdf`);
       toast.success('PDF exported successfully');
@@ -245,7 +440,7 @@ export function SpanPlusApp() {
       console.error('PDF export error:', error);
       toast.error('Failed to export PDF');
     }
-  }, [exportData.programName]);
+  }, [ncGenerator, profileData, exportData.programName, exportData.includeDiagrams, platformData.bays, clashSuppressions]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
@@ -256,7 +451,16 @@ export function SpanPlusApp() {
             <h1 className="text-header">Span+ App</h1>
             <p className="text-subheader">NC File Generator for Roll Formed Profiles</p>
           </div>
-          <div className="flex grid-gap-2">
+          <div className="flex items-center grid-gap-2">
+            <JobLibraryDialog
+              currentJob={currentJob}
+              getSnapshot={getJobSnapshot}
+              onSaved={setCurrentJob}
+              onOpen={handleOpenJob}
+            />
+            <ToolingLibraryDialog />
+            <ClashRulesDialog />
+            <SpanTableDialog profileData={profileData} platformData={platformData} />
             <Card className="card-system grid-p-2">
               <div className="text-subheader">Profile Type</div>
               <div className="text-body font-semibold">{profileData.profileType}</div>
@@ -272,7 +476,7 @@ export function SpanPlusApp() {
           {/* Left Panel - Input Forms */}
           <div className="lg:col-span-1 space-y-6 sidebar-system">
             <Tabs defaultValue="profile" className="w-full">
-              <TabsList className="grid w-full grid-cols-3 h-auto bg-gray-100 p-1">
+              <TabsList className="grid w-full grid-cols-4 h-auto bg-gray-100 p-1">
                 <TabsTrigger value="profile" className="flex items-center justify-center p-3 bg-white shadow-sm hover:shadow-md transition-shadow data-[state=active]:bg-white data-[state=active]:shadow-md" title="Profile">
                   <Eye className="h-5 w-5" />
                 </TabsTrigger>
@@ -282,6 +486,9 @@ export function SpanPlusApp() {
                 <TabsTrigger value="cutting" className="flex items-center justify-center p-3 bg-white shadow-sm hover:shadow-md transition-shadow data-[state=active]:bg-white data-[state=active]:shadow-md" title="Cutting List">
                   <List className="h-5 w-5" />
                 </TabsTrigger>
+                <TabsTrigger value="platform" className="flex items-center justify-center p-3 bg-white shadow-sm hover:shadow-md transition-shadow data-[state=active]:bg-white data-[state=active]:shadow-md" title="Platform">
+                  <LayoutGrid className="h-5 w-5" />
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="profile">
@@ -315,6 +522,43 @@ export function SpanPlusApp() {
                       onChange={setExportData}
                       onExportCSV={handleExportCSV}
                       onExportPDF={handleExportPDF}
+                      onExportDXF={handleExportDXF}
+                    />
+                  </CardContent>
+                </Card>
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle>Batch Job</CardTitle>
+                    <CardDescription>
+                      Combine parts into a single NC file for the roll former
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <BatchJobPanel
+                      parts={batchParts}
+                      onAddCurrent={handleAddCurrentToBatch}
+                      onUpdatePart={updatePart}
+                      onMovePart={movePart}
+                      onRemovePart={removePart}
+                      onLoadPart={handleLoadBatchPart}
+                      onReplacePart={handleReplaceBatchPart}
+                      onExport={handleExportBatchCSV}
+                    />
+                  </CardContent>
+                </Card>
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle>Import NC File</CardTitle>
+                    <CardDescription>
+                      Load an existing CSV program to audit or edit its punches
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <NCImportPanel
+                      baseProfile={profileData}
+                      onOpenComponent={handleOpenImportedComponent}
+                      onAddToBatch={handleAddImportedToBatch}
+                      onApplyInference={handleApplyInference}
                     />
                   </CardContent>
                 </Card>
@@ -438,7 +682,48 @@ export function SpanPlusApp() {
                   </Card>
                 </div>
               </TabsContent>
+
+              <TabsContent value="platform">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Platform</CardTitle>
+                    <CardDescription>
+                      Enter a platform once to schedule every bearer and joist
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <PlatformForm
+                      data={platformData}
+                      onChange={setPlatformData}
+                      onGenerate={handleGenerateSchedule}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
+
+            <Dialog open={scheduleOpen} onOpenChange={setScheduleOpen}>
+              <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+                <DialogHeader>
+                  <DialogTitle className="text-header">Platform Member Schedule</DialogTitle>
+                </DialogHeader>
+                <div className="overflow-auto max-h-[calc(90vh-120px)]">
+                  {platformSchedule && (
+                    <div className="space-y-4">
+                      <PlatformScheduleTable
+                        schedule={platformSchedule}
+                        onOpenMember={handleOpenMember}
+                      />
+                      <div className="flex justify-end">
+                        <Button variant="outline" onClick={handleAddScheduleToBatch}>
+                          Add All to Batch Job
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </DialogContent>
+            </Dialog>
           </div>
 
           {/* Right Panel - Visualization */}
@@ -451,20 +736,21 @@ export function SpanPlusApp() {
                 setProfileData(prev => ({ ...prev, ...updates }));
               }}
               updateVersion={getUpdateVersion()}
+              lockedPunchKeys={lockedPunchKeys}
+              onTogglePunchLock={handleTogglePunchLock}
+              clashSuppressions={clashSuppressions}
+              onClashSuppressionsChange={setClashSuppressions}
+              platformData={platformData}
             />
+            {overrideResults.length > 0 && (
+              <PunchOverridesPanel
+                results={overrideResults}
+                onRemove={handleRemoveOverride}
+                onClear={() => setPunchOverrides([])}
+              />
+            )}
           </div>
         </div>
-      {/* Hidden PDF export layout */}
-      {ncGenerator && (
-        <div className="absolute left-[-9999px] top-0" ref={pdfExportRef} key={`pdf-export-${getUpdateVersion()}`}>
-          <PDFExportLayout
-            profileData={profileData}
-            ncGenerator={ncGenerator}
-            exportData={exportData}
-            updateVersion={getUpdateVersion()}
-          />
-        </div>
-      )}
     </div>
   </div>
   );
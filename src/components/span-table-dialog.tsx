@@ -0,0 +1,320 @@
+import { useMemo, useRef } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Calculator, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { PlatformData, ProfileData } from '@/types/form-types';
+import { isBearerProfile } from '@/lib/utils/manufacturing';
+import { STEEL } from '@/lib/section-properties';
+import { CAPACITY_CHECK_NAMES, DESIGN_BASIS, checkMemberCapacity } from '@/lib/structural-capacity';
+import { describeBearerRecommendation, designBearer } from '@/lib/bearer-design';
+import { deriveSpanTable, getSpanTableRecommendation, getSpanTableRows } from '@/lib/span-table';
+import {
+  DERIVED_STANDARD_ID,
+  SpanTableFileError,
+  describeStandard,
+  getActiveStandard,
+  parseSpanTableFile,
+  removeStandard,
+  setSpanTableLibrary,
+  upsertStandards,
+} from '@/lib/span-table-library';
+import { useSpanTableLibrary } from '@/hooks/use-span-table-library';
+
+interface SpanTableDialogProps {
+  profileData: ProfileData;
+  platformData?: PlatformData; // Post bays for the bearer check
+}
+
+const formatValue = (value: number, unit: string) => `${value.toFixed(unit === 'mm' ? 1 : 2)} ${unit}`;
+
+export function SpanTableDialog({ profileData, platformData }: SpanTableDialogProps) {
+  const library = useSpanTableLibrary();
+  const standard = getActiveStandard(library);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const kpaRating = profileData.kpaRating || '2.5';
+  const isBearer = isBearerProfile(profileData.profileType);
+
+  // Bearers show the joists they carry, at the joist length the span table was read for
+  const joistHoleType = isBearer ? undefined : profileData.holeType;
+  const span = isBearer ? profileData.joistLength : profileData.length;
+
+  // Published tables are shown beside the spans the capacity checks would allow
+  const table = useMemo(
+    () => getSpanTableRows(kpaRating, profileData.profileHeight, joistHoleType, library),
+    [kpaRating, profileData.profileHeight, joistHoleType, library]
+  );
+  const derived = useMemo(
+    () => (standard ? deriveSpanTable(kpaRating, profileData.profileHeight, joistHoleType) : table),
+    [standard, table, kpaRating, profileData.profileHeight, joistHoleType]
+  );
+
+  const recommendation = useMemo(
+    () => (span ? getSpanTableRecommendation(span, kpaRating, profileData.profileHeight, joistHoleType, library) : undefined),
+    [span, kpaRating, profileData.profileHeight, joistHoleType, library]
+  );
+
+  const handleLoadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const standards = parseSpanTableFile(file.name, await file.text());
+      setSpanTableLibrary({ ...upsertStandards(library, standards), activeStandardId: standards[0].id });
+      toast.success(`Loaded ${standards.map((loaded) => describeStandard(loaded)).join(', ')}`);
+    } catch (error) {
+      toast.error(`Could not load ${file.name}`, {
+        description: error instanceof SpanTableFileError ? error.message : undefined,
+      });
+      console.error('Span table error:', error);
+    }
+  };
+
+  const capacity = useMemo(() => {
+    if (!span) return undefined;
+    return checkMemberCapacity({
+      profileType: isBearer ? recommendation?.profileType ?? 'Joist Single' : profileData.profileType,
+      profileHeight: profileData.profileHeight,
+      holeType: joistHoleType ?? '200mm',
+      span,
+      spacing: isBearer ? recommendation?.joistSpacing ?? profileData.joistSpacing : profileData.joistSpacing,
+      kpa: Number(kpaRating),
+    });
+  }, [span, isBearer, recommendation, profileData.profileType, profileData.profileHeight, profileData.joistSpacing, joistHoleType, kpaRating]);
+
+  const bearerDesign = useMemo(
+    () => (isBearer && profileData.joistLength && platformData ? designBearer(profileData, platformData.bays) : undefined),
+    [isBearer, profileData, platformData]
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Calculator className="h-4 w-4" />
+          Span Table
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="text-header">Span Table</DialogTitle>
+          <DialogDescription>
+            Joist spans for a {profileData.profileHeight}mm profile at {kpaRating}kPa
+            {joistHoleType && joistHoleType !== 'No Holes' ? ` with ${joistHoleType} service holes` : ''}, checked for bending, shear, web crippling and deflection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-auto max-h-[calc(90vh-160px)] space-y-6">
+          {/* Design standard */}
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label>Span Tables</Label>
+              <Select
+                value={library.activeStandardId}
+                onValueChange={(id) => setSpanTableLibrary({ ...library, activeStandardId: id })}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DERIVED_STANDARD_ID}>{describeStandard()}</SelectItem>
+                  {library.standards.map((loaded) => (
+                    <SelectItem key={loaded.id} value={loaded.id}>{describeStandard(loaded)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {standard && (
+              <Button variant="outline" size="sm" onClick={() => setSpanTableLibrary(removeStandard(library, standard.id))}>
+                <Trash2 className="h-4 w-4 mr-2" style={{color: '#F2B33D'}} />
+                Remove
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleLoadFile}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load CSV / JSON
+            </Button>
+          </div>
+
+          {/* Checks for the member being designed */}
+          {capacity && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">
+                  {isBearer ? 'Joists carried' : profileData.profileType} - {capacity.span}mm span at {capacity.spacing}mm centres
+                </div>
+                <Badge variant={capacity.passes ? 'secondary' : 'destructive'}>
+                  {capacity.passes ? 'Passes' : `Fails ${capacity.governing.name.toLowerCase()}`}
+                </Badge>
+              </div>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Check</TableHead>
+                      <TableHead className="text-right">Demand</TableHead>
+                      <TableHead className="text-right">Capacity</TableHead>
+                      <TableHead className="w-48">Utilisation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {capacity.checks.map((check) => (
+                      <TableRow key={check.id}>
+                        <TableCell className="text-sm">{check.name}</TableCell>
+                        <TableCell className="text-right text-numbers">{formatValue(check.demand, check.unit)}</TableCell>
+                        <TableCell className="text-right text-numbers">{formatValue(check.capacity, check.unit)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={Math.min(100, check.utilisation * 100)} className="h-2" />
+                            <span className={`text-xs w-12 text-right ${check.utilisation > 1 ? 'text-destructive font-semibold' : ''}`}>
+                              {Math.round(check.utilisation * 100)}%
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* The bearer itself, under the joists' reactions between its posts */}
+          {bearerDesign && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">
+                  {bearerDesign.profileType} - {bearerDesign.bays} bay{bearerDesign.bays > 1 ? 's' : ''} over {profileData.length}mm, posts at {bearerDesign.posts.join(' / ')}
+                </div>
+                <Badge variant={bearerDesign.passes ? 'secondary' : 'destructive'}>
+                  {bearerDesign.passes ? 'Passes' : `Fails ${bearerDesign.governing.governing.name.toLowerCase()}`}
+                </Badge>
+              </div>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Segment</TableHead>
+                      <TableHead>Check</TableHead>
+                      <TableHead className="text-right">Demand</TableHead>
+                      <TableHead className="text-right">Capacity</TableHead>
+                      <TableHead className="w-48">Utilisation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bearerDesign.segments.flatMap((segment) => segment.checks.map((check) => (
+                      <TableRow key={`${segment.kind}-${segment.from}-${check.id}`}>
+                        <TableCell className="text-sm">{segment.kind === 'bay' ? 'Bay' : 'Cantilever'} {segment.from} - {segment.to}mm</TableCell>
+                        <TableCell className="text-sm">{check.name}</TableCell>
+                        <TableCell className="text-right text-numbers">{formatValue(check.demand, check.unit)}</TableCell>
+                        <TableCell className="text-right text-numbers">{formatValue(check.capacity, check.unit)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={Math.min(100, check.utilisation * 100)} className="h-2" />
+                            <span className={`text-xs w-12 text-right ${check.utilisation > 1 ? 'text-destructive font-semibold' : ''}`}>
+                              {Math.round(check.utilisation * 100)}%
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )))}
+                  </TableBody>
+                </Table>
+              </div>
+              {!bearerDesign.passes && (
+                <p className="text-xs text-destructive">{describeBearerRecommendation(bearerDesign)}.</p>
+              )}
+            </div>
+          )}
+
+          {/* Derived span table */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Maximum Spans</div>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Joist</TableHead>
+                    <TableHead className="text-right">Spacing</TableHead>
+                    <TableHead className="text-right">Max Span</TableHead>
+                    {standard && <TableHead className="text-right">Checked Span</TableHead>}
+                    <TableHead>Governed By</TableHead>
+                    <TableHead className="w-28"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.map((row) => {
+                    const check = derived.find((candidate) => candidate.profileType === row.profileType && candidate.joistSpacing === row.joistSpacing);
+                    const recommended = !recommendation?.exceedsLimit
+                      && recommendation?.profileType === row.profileType
+                      && recommendation.joistSpacing === row.joistSpacing;
+                    return (
+                      <TableRow key={`${row.profileType}-${row.joistSpacing}`} className={recommended ? 'bg-blue-50' : undefined}>
+                        <TableCell className="text-sm">{row.profileType}</TableCell>
+                        <TableCell className="text-right text-numbers">{row.joistSpacing}mm</TableCell>
+                        <TableCell className="text-right text-numbers">{row.maxSpan}mm</TableCell>
+                        {standard && (
+                          <TableCell className={`text-right text-numbers ${check && check.maxSpan < row.maxSpan ? 'text-destructive' : ''}`}>
+                            {check ? `${check.maxSpan}mm` : '-'}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-xs">{check?.governing && CAPACITY_CHECK_NAMES[check.governing]}</TableCell>
+                        <TableCell>{recommended && <Badge variant="outline">Recommended</Badge>}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {table.length === 0 && (
+              <p className="text-xs text-destructive">{describeStandard(standard)} has no span table for {kpaRating}kPa at {profileData.profileHeight}mm.</p>
+            )}
+            {recommendation?.exceedsLimit && (
+              <p className="text-xs text-destructive">No joist in the table carries a {span}mm span.</p>
+            )}
+          </div>
+
+          {/* What the numbers rest on */}
+          {capacity && (
+            <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground">
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-foreground">Section</div>
+                <div>{capacity.section.dimensions.height} x {capacity.section.dimensions.flange} x {capacity.section.dimensions.thickness}mm{capacity.section.dimensions.webs > 1 ? ', boxed' : ''}</div>
+                <div>Second moment {(capacity.section.secondMoment / 1e6).toFixed(2)} x 10⁶ mm⁴</div>
+                <div>Effective section modulus {(capacity.section.sectionModulus / 1e3).toFixed(1)} x 10³ mm³</div>
+                <div>Self weight {((capacity.section.selfWeight * 1000) / 9.81).toFixed(1)} kg/m</div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-foreground">Design Basis</div>
+                <div>G{STEEL.yieldStress} steel, E = {STEEL.elasticModulus / 1000} GPa</div>
+                <div>{DESIGN_BASIS.deadFactor}G + {DESIGN_BASIS.liveFactor}Q, {DESIGN_BASIS.deadLoad}kPa decking plus self weight</div>
+                <div>Capacity factors: bending {DESIGN_BASIS.bendingFactor}, shear {DESIGN_BASIS.shearFactor}, web crippling {DESIGN_BASIS.cripplingFactor}</div>
+                <div>{DESIGN_BASIS.bearingLength}mm end bearing, deflection limit span/{DESIGN_BASIS.deflectionLimit}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,381 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, RotateCcw, Trash2, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import { useToolingLibrary } from '@/hooks/use-tooling-library';
+import { getMinWebHeight } from '@/lib/profile-geometry';
+import {
+  DEFAULT_WEB_PLACEMENTS,
+  ProfileHeightRange,
+  ToolingStation,
+  ToolingStationKind,
+  WebPlacement,
+  assignStation,
+  getActiveMachine,
+  getWebPlacement,
+  removeMachine,
+  removeStation,
+  resetToolingLibrary,
+  setToolingLibrary,
+  upsertMachine,
+  upsertStation,
+} from '@/lib/tooling-library';
+
+const KIND_LABELS: Record<ToolingStationKind, string> = {
+  'flange-hole': 'Flange hole',
+  'dimple': 'Dimple',
+  'web-tab': 'Web tab',
+  'service-hole': 'Service hole',
+  'stub': 'Stub / bracket',
+};
+
+const SHAPES: ToolingStation['shape'][] = ['square', 'round', 'rectangular', 'oval'];
+
+const ANCHOR_LABELS: Record<WebPlacement['anchor'], string> = {
+  centre: 'Centred',
+  top: 'Below top bend',
+  bottom: 'Above bottom bend',
+};
+
+export function ToolingLibraryDialog() {
+  const library = useToolingLibrary();
+  const machine = getActiveMachine(library);
+  const [newMachineName, setNewMachineName] = useState('');
+
+  const stations = Object.values(library.stations);
+
+  const updateStation = (station: ToolingStation, updates: Partial<ToolingStation>) => {
+    setToolingLibrary(upsertStation(library, { ...station, ...updates }));
+  };
+
+  const updatePlacement = (station: ToolingStation, updates: Partial<WebPlacement>) => {
+    updateStation(station, { placement: { ...getWebPlacement(station.station), ...updates } });
+  };
+
+  // Cleared ends are dropped so the range stays open on that side
+  const updateHeightRange = (station: ToolingStation, key: keyof ProfileHeightRange, value: string) => {
+    const heightRange = { ...station.heightRange, [key]: value === '' ? undefined : Number(value) };
+    updateStation(station, {
+      heightRange: heightRange.min === undefined && heightRange.max === undefined ? undefined : heightRange,
+    });
+  };
+
+  const renameStation = (station: ToolingStation, name: string) => {
+    const trimmed = name.trim().toUpperCase();
+    if (!trimmed || trimmed === station.station) return;
+    if (library.stations[trimmed]) {
+      toast.error(`Station ${trimmed} already exists`);
+      return;
+    }
+    setToolingLibrary(upsertStation(library, { ...station, station: trimmed }, station.station));
+  };
+
+  const handleAddStation = () => {
+    let index = 1;
+    while (library.stations[`NEW STATION ${index}`]) index++;
+    const name = `NEW STATION ${index}`;
+
+    const withStation = upsertStation(library, {
+      station: name,
+      hitCode: `.${stations.length + 1}`,
+      description: 'New punch station',
+      width: 20,
+      height: 20,
+      shape: 'square',
+      kind: 'service-hole',
+      color: '#6b7280',
+    });
+    setToolingLibrary(machine ? assignStation(withStation, machine.id, name, true) : withStation);
+  };
+
+  const handleAddMachine = () => {
+    const name = newMachineName.trim();
+    if (!name) return;
+    const id = `machine-${Date.now()}`;
+    setToolingLibrary({ ...upsertMachine(library, { id, name, stations: [] }), activeMachineId: id });
+    setNewMachineName('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Wrench className="h-4 w-4" />
+          Tooling
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="text-header">Tooling Library</DialogTitle>
+          <DialogDescription>
+            Punch stations, hit codes and dimensions for each roll former. Clash detection, drawings and NC export use the active machine.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-auto max-h-[calc(90vh-160px)] space-y-6">
+          {/* Machines */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Active Machine</Label>
+              <Select
+                value={machine?.id ?? ''}
+                onValueChange={(id) => setToolingLibrary({ ...library, activeMachineId: id })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="No machines" />
+                </SelectTrigger>
+                <SelectContent>
+                  {library.machines.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {machine && (
+              <div className="space-y-2">
+                <Label>Machine Name</Label>
+                <Input
+                  key={machine.id}
+                  defaultValue={machine.name}
+                  onBlur={(e) => e.target.value.trim() && setToolingLibrary(upsertMachine(library, { ...machine, name: e.target.value.trim() }))}
+                  className="w-56"
+                />
+              </div>
+            )}
+            {machine && library.machines.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => setToolingLibrary(removeMachine(library, machine.id))}>
+                <Trash2 className="h-4 w-4 mr-2" style={{color: '#F2B33D'}} />
+                Remove Machine
+              </Button>
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>New Machine</Label>
+                <Input
+                  value={newMachineName}
+                  onChange={(e) => setNewMachineName(e.target.value)}
+                  placeholder="Machine name"
+                  className="w-48"
+                />
+              </div>
+              <Button variant="outline" size="sm" onClick={handleAddMachine} disabled={!newMachineName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Stations */}
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Fitted</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead className="w-20">Hit Code</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>Shape</TableHead>
+                  <TableHead className="w-40">Size (mm)</TableHead>
+                  <TableHead>Web Placement</TableHead>
+                  <TableHead>Profile Heights (mm)</TableHead>
+                  <TableHead>Export As</TableHead>
+                  <TableHead className="w-16">Colour</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stations.map((station) => (
+                  <TableRow key={station.station}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!machine?.stations.includes(station.station)}
+                        disabled={!machine}
+                        onCheckedChange={(checked) => machine && setToolingLibrary(assignStation(library, machine.id, station.station, !!checked))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        defaultValue={station.station}
+                        onBlur={(e) => renameStation(station, e.target.value)}
+                        className="h-8 text-xs w-44"
+                      />
+                      <Input
+                        value={station.description}
+                        onChange={(e) => updateStation(station, { description: e.target.value })}
+                        className="h-7 text-xs w-44 mt-1"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={station.hitCode}
+                        onChange={(e) => updateStation(station, { hitCode: e.target.value })}
+                        className="h-8 text-xs w-16"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={station.kind} onValueChange={(kind) => updateStation(station, { kind: kind as ToolingStationKind })}>
+                        <SelectTrigger className="h-8 text-xs w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(KIND_LABELS) as ToolingStationKind[]).map((kind) => (
+                            <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select value={station.shape} onValueChange={(shape) => updateStation(station, { shape: shape as ToolingStation['shape'] })}>
+                        <SelectTrigger className="h-8 text-xs w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SHAPES.map((shape) => (
+                            <SelectItem key={shape} value={shape}>{shape}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {station.shape === 'round' ? (
+                        <Input
+                          type="number"
+                          value={station.diameter ?? ''}
+                          onChange={(e) => updateStation(station, { diameter: Number(e.target.value) })}
+                          className="h-8 text-xs w-20"
+                          title="Diameter"
+                        />
+                      ) : (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            value={station.width ?? ''}
+                            onChange={(e) => updateStation(station, { width: Number(e.target.value) })}
+                            className="h-8 text-xs w-16"
+                            title="Width (along the profile)"
+                          />
+                          <span className="text-xs">×</span>
+                          <Input
+                            type="number"
+                            value={station.height ?? ''}
+                            onChange={(e) => updateStation(station, { height: Number(e.target.value) })}
+                            className="h-8 text-xs w-16"
+                            title="Height"
+                          />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {DEFAULT_WEB_PLACEMENTS[station.kind] ? (
+                        <div className="flex items-center gap-1">
+                          <Select
+                            value={getWebPlacement(station.station).anchor}
+                            onValueChange={(anchor) => updatePlacement(station, { anchor: anchor as WebPlacement['anchor'] })}
+                          >
+                            <SelectTrigger className="h-8 text-xs w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ANCHOR_LABELS) as WebPlacement['anchor'][]).map((anchor) => (
+                                <SelectItem key={anchor} value={anchor}>{ANCHOR_LABELS[anchor]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            value={getWebPlacement(station.station).offset}
+                            onChange={(e) => updatePlacement(station, { offset: Number(e.target.value) })}
+                            className="h-8 text-xs w-16"
+                            title="Offset (mm) - above the web centre line, or from the flange bend"
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Flange</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {DEFAULT_WEB_PLACEMENTS[station.kind] ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            value={station.heightRange?.min ?? ''}
+                            onChange={(e) => updateHeightRange(station, 'min', e.target.value)}
+                            placeholder={Math.ceil(getMinWebHeight(station.station)).toString()}
+                            className="h-8 text-xs w-16"
+                            title="Minimum profile height - the placeholder is the shallowest web the punch fits"
+                          />
+                          <span className="text-xs">-</span>
+                          <Input
+                            type="number"
+                            value={station.heightRange?.max ?? ''}
+                            onChange={(e) => updateHeightRange(station, 'max', e.target.value)}
+                            placeholder="Any"
+                            className="h-8 text-xs w-16"
+                            title="Maximum profile height"
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Any</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={station.exportAs ?? ''}
+                        onChange={(e) => updateStation(station, { exportAs: e.target.value || undefined })}
+                        placeholder={station.station}
+                        className="h-8 text-xs w-32"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <input
+                        type="color"
+                        value={station.color}
+                        onChange={(e) => updateStation(station, { color: e.target.value })}
+                        className="h-8 w-10 cursor-pointer"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title="Remove station"
+                        onClick={() => setToolingLibrary(removeStation(library, station.station))}
+                      >
+                        <Trash2 className="h-3 w-3" style={{color: '#F2B33D'}} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-between">
+            <Button variant="outline" size="sm" onClick={handleAddStation}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Station
+            </Button>
+            <Button variant="outline" size="sm" onClick={resetToolingLibrary}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
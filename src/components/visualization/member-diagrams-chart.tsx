@@ -0,0 +1,73 @@
+import { Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { DiagramValue, MemberDiagrams } from '@/lib/member-diagrams';
+import { ProfileLayout } from '@/lib/profile-viewport';
+
+interface MemberDiagramsChartProps {
+  diagrams: MemberDiagrams;
+  layout: ProfileLayout;
+}
+
+const DIAGRAMS: Array<{ key: DiagramValue; unit: string; digits: number }> = [
+  { key: 'shear', unit: 'kN', digits: 2 },
+  { key: 'moment', unit: 'kNm', digits: 2 },
+  { key: 'deflection', unit: 'mm', digits: 1 },
+];
+
+const chartConfig = {
+  shear: { label: 'Shear', color: '#F2B33D' },
+  moment: { label: 'Moment', color: '#1565c0' },
+  deflection: { label: 'Deflection', color: '#04BF9D' },
+} satisfies ChartConfig;
+
+/**
+ * Shear, moment and deflection under the drawing, along the same stretch of profile the drawing
+ * shows - its x axis spans the drawing's SVG width at the drawing's scale, so it follows zoom
+ * and pan. Service holes are marked so holes in high shear near a support stand out.
+ */
+export function MemberDiagramsChart({ diagrams, layout }: MemberDiagramsChartProps) {
+  const { offsetX, scale, svgWidth, calculations } = layout;
+  const domain: [number, number] = [-offsetX / scale, (svgWidth - offsetX) / scale];
+  const serviceHoles = calculations.serviceHoles.filter((hole) => hole.active);
+
+  return (
+    <div className="space-y-1">
+      {DIAGRAMS.map(({ key, unit, digits }) => (
+        <div key={key} className="relative">
+          <div className="absolute left-2 top-1 z-10 text-xs text-numbers text-muted-foreground">
+            {chartConfig[key].label} - max {Math.abs(diagrams.peaks[key].value).toFixed(digits)}{unit} @ {Math.round(diagrams.peaks[key].position)}mm
+          </div>
+          <ChartContainer config={chartConfig} className="aspect-auto h-[110px] w-full">
+            <LineChart data={diagrams.points} margin={{ top: 20, right: 0, bottom: 4, left: 0 }}>
+              <XAxis type="number" dataKey="position" domain={domain} allowDataOverflow hide />
+              <YAxis hide reversed={key === 'deflection'} />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              {diagrams.supports.map((support) => (
+                <ReferenceLine key={`support-${support}`} x={support} stroke="#374151" strokeWidth={2} />
+              ))}
+              {serviceHoles.map((hole) => (
+                <ReferenceLine key={`hole-${hole.position}`} x={hole.position} stroke="#9ca3af" strokeDasharray="3 3" />
+              ))}
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => `${Math.round(payload[0]?.payload.position ?? 0)}mm`}
+                    formatter={(value) => `${chartConfig[key].label} ${Number(value).toFixed(digits)}${unit}`}
+                  />
+                }
+              />
+              <Line
+                type="linear"
+                dataKey={key}
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      ))}
+    </div>
+  );
+}
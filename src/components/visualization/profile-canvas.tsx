@@ -0,0 +1,655 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { ProfileData, PunchStationType } from '@/types/form-types';
+import { PunchRef } from '@/types/manufacturing';
+import { getPunchColor, getPunchDistance, getVisualDimensions } from '@/lib/punch-dimensions';
+import { getToolingStation } from '@/lib/tooling-library';
+import { getPunchKey } from '@/lib/punch-overrides';
+import { ProfileLayout, toProfilePoint } from '@/lib/profile-viewport';
+import { getWebPunchCentre, getWebPunchHeight } from '@/lib/profile-geometry';
+import { EditorPunch, PunchEditor } from '@/hooks/use-punch-editor';
+import { ProfileViewport } from '@/hooks/use-profile-viewport';
+import { ClashIssue } from '@/lib/clash-detection';
+import { ClashFixEdit } from '@/lib/clash-fixes';
+
+interface ProfileCanvasProps {
+  layout: ProfileLayout;
+  profileData: ProfileData;
+  // Punch editing - the drawing is display-only without an editor
+  editor?: PunchEditor;
+  addStation?: PunchStationType;
+  lockedPunchKeys?: Set<string>;
+  onTogglePunchLock?: (punch: PunchRef) => void;
+  // Wheel zoom and drag pan - the view is fixed without a viewport
+  viewport?: ProfileViewport;
+  // Measure tool: clicking punches picks them instead of dragging
+  tool?: 'edit' | 'measure';
+  measuredPunches?: EditorPunch[];
+  onMeasurePick?: (punch: EditorPunch) => void;
+  // Clash issues marked below the profile at their positions
+  issues?: ClashIssue[];
+  onIssueClick?: (issue: ClashIssue) => void;
+  // Edits of a clash fix being previewed
+  previewEdits?: ClashFixEdit[];
+  // Annotations drawn over the punches
+  children?: React.ReactNode;
+}
+
+// Stub pattern based on the original 290.72 x 472 stub drawing
+const StubPattern = ({ centerX, centerY, patternScale, color }: { centerX: number; centerY: number; patternScale: number; color: string }) => {
+  const stubRadius = Math.max(4 * patternScale, 2);
+
+  // Positions based on original SVG, scaled up for more spacing between holes
+  const spacing = 1.3;
+  const positions = [
+    // Top group - close to top flange
+    { x: 26.66 * spacing, y: 26.66 * spacing },
+    { x: 264.06 * spacing, y: 26.66 * spacing },
+    { x: 26.66 * spacing, y: 142.51 * spacing },
+    { x: 264.06 * spacing, y: 142.51 * spacing },
+    // Bottom group - close to bottom flange
+    { x: 26.66 * spacing, y: 329.49 * spacing },
+    { x: 264.06 * spacing, y: 329.49 * spacing },
+    { x: 26.66 * spacing, y: 445.34 * spacing },
+    { x: 264.06 * spacing, y: 445.34 * spacing },
+  ];
+
+  const patternWidth = 290.72 * patternScale * spacing;
+  const patternHeight = 472 * patternScale * spacing;
+
+  return (
+    <g>
+      {positions.map((pos, index) => (
+        <circle
+          key={`stub-circle-${index}`}
+          cx={centerX - (patternWidth / 2) + (pos.x * patternScale)}
+          cy={centerY - (patternHeight / 2) + (pos.y * patternScale)}
+          r={stubRadius}
+          fill={color}
+          stroke={color}
+          strokeWidth="1"
+          opacity="0.9"
+        />
+      ))}
+    </g>
+  );
+};
+
+/**
+ * Front view of the profile with its punches. With an editor, punches can be dragged along
+ * the profile (a click selects, shift-click adds to the selection), double-clicking adds a
+ * punch of the selected station and right-clicking opens delete/duplicate. With a viewport,
+ * the wheel zooms at the pointer and dragging the background pans.
+ */
+export function ProfileCanvas({
+  layout,
+  profileData,
+  editor,
+  addStation,
+  lockedPunchKeys,
+  onTogglePunchLock,
+  viewport,
+  tool = 'edit',
+  measuredPunches = [],
+  onMeasurePick,
+  issues = [],
+  onIssueClick,
+  previewEdits = [],
+  children,
+}: ProfileCanvasProps) {
+  const { svgWidth, svgHeight, profileLength, profileHeight, offsetX, offsetY, scale, flangeHeight, lipHeight, topBoltY, bottomBoltY, calculations } = layout;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ punch: EditorPunch; position: number } | null>(null);
+  const [pan, setPan] = useState<{ x: number; y: number; moved: boolean } | null>(null);
+  const [menu, setMenu] = useState<{ punch: EditorPunch | null; position: number } | null>(null);
+
+  // Band from above the top lip to below the bottom lip, for highlighting punches
+  const bandTop = offsetY - flangeHeight - lipHeight - 8;
+  const bandHeight = profileHeight + 2 * (flangeHeight + lipHeight) + 16;
+
+  // One marker per position, coloured by its worst issue
+  const issueMarkers = [...issues
+    .filter(issue => issue.position !== null)
+    .reduce((markers, issue) => {
+      const position = issue.position as number;
+      markers.set(position, [...(markers.get(position) ?? []), issue]);
+      return markers;
+    }, new Map<number, ClashIssue[]>())];
+
+  // Drawn size, shape and colour of a punch station from the active tooling library
+  const getStationProps = (stationType: string) => {
+    const dimensions = getVisualDimensions(stationType);
+    const shape = getToolingStation(stationType)?.shape;
+    return {
+      width: dimensions.width * scale,
+      height: getWebPunchHeight(stationType, profileData.profileHeight) * scale,
+      shape: shape === 'oval' ? 'ellipse' as const : shape === 'round' ? 'circle' as const : 'rect' as const,
+      fill: getPunchColor(stationType),
+    };
+  };
+
+  // Drawn centre of a web face punch, at its station's placement up the web
+  const webCentreY = (stationType: string) =>
+    offsetY + (profileData.profileHeight - getWebPunchCentre(stationType, profileData.profileHeight)) * scale;
+
+  const isLocked = (punch: PunchRef) => lockedPunchKeys?.has(getPunchKey(punch)) ?? false;
+
+  // Drawn position of a punch, following the pointer while it's dragged
+  const positionOf = (punch: PunchRef) =>
+    drag && getPunchKey(drag.punch) === getPunchKey(punch) ? drag.position : punch.position;
+
+  // Props for the group wrapping each drawn punch so pointer events can find it
+  const punchProps = (punch: PunchRef) => ({
+    'data-punch-key': getPunchKey(punch),
+    style: editor ? { cursor: isLocked(punch) ? 'not-allowed' : drag ? 'grabbing' : 'grab' } : undefined,
+  });
+
+  // SVG point under the pointer
+  const toSvgPoint = (event: { clientX: number; clientY: number }) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return { x: 0, y: 0 };
+    return new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+  };
+
+  // Profile position (mm) under the pointer
+  const toPosition = (event: { clientX: number; clientY: number }) => {
+    const point = toSvgPoint(event);
+    return toProfilePoint(layout, point.x, point.y).x;
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const point = toSvgPoint(event);
+      viewport.zoomAt(event.deltaY < 0 ? viewport.zoomStep : 1 / viewport.zoomStep, toProfilePoint(layout, point.x, point.y));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [viewport, layout]);
+
+  const onProfile = (position: number) => position >= 0 && position <= profileData.length;
+
+  const findPunch = (target: EventTarget): EditorPunch | null => {
+    const key = (target as Element).closest?.('[data-punch-key]')?.getAttribute('data-punch-key');
+    return (key && editor?.punches.find(punch => getPunchKey(punch) === key)) || null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    const punch = findPunch(event.target);
+
+    if (punch && tool === 'measure') {
+      onMeasurePick?.(punch);
+    } else if (punch && editor) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDrag({ punch, position: punch.position });
+    } else if (viewport) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setPan({ ...toSvgPoint(event), moved: false });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (drag && editor && !isLocked(drag.punch)) {
+      setDrag({ ...drag, position: editor.snapPosition(toPosition(event)) });
+    } else if (pan && viewport) {
+      const point = toSvgPoint(event);
+      viewport.panBy(layout, point.x - pan.x, point.y - pan.y);
+      setPan({ x: point.x, y: point.y, moved: true });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (drag && editor) {
+      if (drag.position !== drag.punch.position) {
+        editor.movePunch(drag.punch.id, drag.position);
+      } else {
+        // A click without moving selects
+        editor.toggleSelected(drag.punch.id, event.shiftKey);
+      }
+    } else if (pan && !pan.moved && editor && !event.shiftKey) {
+      editor.setSelectedIds(new Set());
+    }
+    setDrag(null);
+    setPan(null);
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const position = toPosition(event);
+    if (!editor || !addStation || findPunch(event.target) || !onProfile(position)) return;
+    editor.addPunch(addStation, position);
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editor) return;
+    setMenu({ punch: findPunch(event.target), position: toPosition(event) });
+  };
+
+  const svg = (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height="100%"
+      viewBox={`0 0 ${svgWidth} ${svgHeight}`}
+      className="w-full h-full select-none"
+      style={{ cursor: pan?.moved ? 'grabbing' : undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setDrag(null);
+        setPan(null);
+      }}
+      onDoubleClick={handleDoubleClick}
+      onContextMenu={handleContextMenu}
+    >
+      {/* Background */}
+      <rect width={svgWidth} height={svgHeight} fill="#f8fafc" />
+
+      {/* Profile outline - Front view showing the web and flanges */}
+      <g>
+        {/* Main web (vertical section) */}
+        <rect
+          x={offsetX}
+          y={offsetY}
+          width={profileLength}
+          height={profileHeight}
+          fill="none"
+          stroke="#1565c0"
+          strokeWidth="2"
+          rx="1"
+        />
+
+        {/* Top flange - scaled proportionally */}
+        <rect
+          x={offsetX}
+          y={offsetY - flangeHeight}
+          width={profileLength}
+          height={flangeHeight}
+          fill="none"
+          stroke="#1565c0"
+          strokeWidth="1.5"
+        />
+
+        {/* Bottom flange - scaled proportionally */}
+        <rect
+          x={offsetX}
+          y={offsetY + profileHeight}
+          width={profileLength}
+          height={flangeHeight}
+          fill="none"
+          stroke="#1565c0"
+          strokeWidth="1.5"
+        />
+
+        {/* Lips for Joist profile - scaled proportionally */}
+        {lipHeight > 0 && (
+          <>
+            <rect
+              x={offsetX}
+              y={offsetY - flangeHeight - lipHeight}
+              width={profileLength}
+              height={lipHeight}
+              fill="none"
+              stroke="#1565c0"
+              strokeWidth="1"
+            />
+            <rect
+              x={offsetX}
+              y={offsetY + profileHeight + flangeHeight}
+              width={profileLength}
+              height={lipHeight}
+              fill="none"
+              stroke="#1565c0"
+              strokeWidth="1"
+            />
+          </>
+        )}
+      </g>
+
+      {/* Selected punches */}
+      {editor?.punches
+        .filter(punch => editor.selectedIds.has(punch.id))
+        .map(punch => {
+          const width = Math.max(getVisualDimensions(punch.type).width * scale, 8) + 8;
+          return (
+            <rect
+              key={`selected-${punch.id}`}
+              x={offsetX + positionOf(punch) * scale - width / 2}
+              y={bandTop}
+              width={width}
+              height={bandHeight}
+              fill="#5550F2"
+              fillOpacity="0.1"
+              stroke="#5550F2"
+              strokeWidth="1"
+              strokeDasharray="4,3"
+              pointerEvents="none"
+            />
+          );
+        })}
+
+      {/* Bolt holes (red circles) - rendered at top & bottom flanges */}
+      {calculations.boltHoles
+        .filter(hole => hole.active)
+        .map((hole, index) => (
+          <g key={`bolt-${index}`} {...punchProps(hole)}>
+            {/* Top flange bolt */}
+            <circle
+              cx={offsetX + positionOf(hole) * scale}
+              cy={topBoltY}
+              r={Math.max(getStationProps(hole.type).width / 2, 3)}
+              fill={getStationProps(hole.type).fill}
+              stroke={getStationProps(hole.type).fill}
+              strokeWidth="1"
+            />
+            {/* Bottom flange bolt */}
+            <circle
+              cx={offsetX + positionOf(hole) * scale}
+              cy={bottomBoltY}
+              r={Math.max(getStationProps(hole.type).width / 2, 3)}
+              fill={getStationProps(hole.type).fill}
+              stroke={getStationProps(hole.type).fill}
+              strokeWidth="1"
+            />
+          </g>
+        ))}
+
+      {/* Web holes/tabs (green rectangles) - positioned along the length with consistent scale */}
+      {calculations.webHoles
+        .filter(hole => hole.active)
+        .map((hole, index) => (
+          <g key={`web-${index}`} {...punchProps(hole)}>
+            <rect
+              x={offsetX + positionOf(hole) * scale - getStationProps(hole.type).width / 2}
+              y={webCentreY(hole.type) - getStationProps(hole.type).height / 2}
+              width={getStationProps(hole.type).width}
+              height={getStationProps(hole.type).height}
+              fill={getStationProps(hole.type).fill}
+              stroke={getStationProps(hole.type).fill}
+              strokeWidth="1"
+              rx="2"
+            />
+          </g>
+        ))}
+
+      {/* Service holes - different shapes and colors based on type */}
+      {calculations.serviceHoles
+        .filter(hole => hole.active)
+        .map((hole, index) => {
+          const props = getStationProps(hole.type);
+          const centerX = offsetX + positionOf(hole) * scale;
+          const centerY = webCentreY(hole.type);
+
+          return (
+            <g key={`service-${index}`} {...punchProps(hole)}>
+              {props.shape === 'ellipse' ? (
+                // Oval shape for LARGE SERVICE HOLE (400x200mm)
+                <ellipse
+                  cx={centerX}
+                  cy={centerY}
+                  rx={Math.max(props.width / 2, 3)}
+                  ry={Math.max(props.height / 2, 3)}
+                  fill={props.fill}
+                  stroke={props.fill}
+                  strokeWidth="1"
+                  opacity="0.8"
+                />
+              ) : props.shape === 'rect' ? (
+                <rect
+                  x={centerX - props.width / 2}
+                  y={centerY - props.height / 2}
+                  width={props.width}
+                  height={props.height}
+                  fill={props.fill}
+                  stroke={props.fill}
+                  strokeWidth="1"
+                  opacity="0.8"
+                />
+              ) : (
+                // Circle for SMALL and M SERVICE HOLES
+                <circle
+                  cx={centerX}
+                  cy={centerY}
+                  r={Math.max(props.width / 2, 3)}
+                  fill={props.fill}
+                  stroke={props.fill}
+                  strokeWidth="1"
+                  opacity="0.8"
+                />
+              )}
+            </g>
+          );
+        })}
+
+      {/* Dimples (small diamonds) - render at both top & bottom flanges */}
+      {calculations.dimples
+        .filter(dimple => dimple.active)
+        .map((dimple, index) => {
+          const dimpleSize = 10 * scale;
+          const centerX = offsetX + positionOf(dimple) * scale;
+          const makePoints = (centerY: number) => `
+            ${centerX},${centerY - dimpleSize}
+            ${centerX + dimpleSize},${centerY}
+            ${centerX},${centerY + dimpleSize}
+            ${centerX - dimpleSize},${centerY}
+          `;
+          return (
+            <g key={`dimple-${index}`} {...punchProps(dimple)}>
+              <polygon
+                points={makePoints(topBoltY)}
+                fill={getStationProps(dimple.type).fill}
+                stroke={getStationProps(dimple.type).fill}
+                strokeWidth="1"
+              />
+              <polygon
+                points={makePoints(bottomBoltY)}
+                fill={getStationProps(dimple.type).fill}
+                stroke={getStationProps(dimple.type).fill}
+                strokeWidth="1"
+              />
+            </g>
+          );
+        })}
+
+      {/* Stub positions (purple patterns) - positioned closer to flanges */}
+      {calculations.stubs
+        .filter(stub => stub.active)
+        .map((stub, index) => (
+          <g key={`stub-${index}`} {...punchProps(stub)}>
+            <StubPattern
+              centerX={offsetX + positionOf(stub) * scale}
+              centerY={webCentreY(stub.type)}
+              patternScale={Math.max(scale * 0.25, 0.025)}
+              color={getStationProps(stub.type).fill}
+            />
+          </g>
+        ))}
+
+      {/* Clash issue markers - clicking one shows the issue */}
+      {issueMarkers.map(([position, markerIssues]) => {
+        const x = offsetX + position * scale;
+        const y = bandTop + bandHeight + 14;
+        const color = markerIssues.some(issue => issue.severity === 'error') ? '#DC2626' : '#F2B33D';
+        return (
+          <g
+            key={`issue-${position}`}
+            style={{ cursor: onIssueClick ? 'pointer' : undefined }}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => onIssueClick?.(markerIssues[0])}
+          >
+            <title>{markerIssues.map(issue => `${issue.element1} / ${issue.element2}: ${issue.issue}`).join('\n')}</title>
+            <line x1={x} y1={bandTop} x2={x} y2={y - 10} stroke={color} strokeWidth="1" strokeDasharray="2,3" pointerEvents="none" />
+            <circle cx={x} cy={y} r="10" fill={color} stroke="white" strokeWidth="1.5" />
+            <text x={x} y={y + 5} textAnchor="middle" fontSize="14" fontWeight="700" fill="white" pointerEvents="none">
+              {markerIssues.length > 1 ? markerIssues.length : '!'}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Clash fix preview - punches removed, added, and moved from/to */}
+      {previewEdits.map((edit, index) => {
+        const punch = edit.kind === 'add' ? edit.punch : edit.target;
+        const width = Math.max(getVisualDimensions(punch.type).width * scale, 8) + 8;
+        const x = offsetX + punch.position * scale;
+
+        if (edit.kind === 'delete') {
+          return (
+            <g key={`preview-${index}`} pointerEvents="none" stroke="#DC2626" strokeWidth="2">
+              <line x1={x - width / 2} y1={bandTop} x2={x + width / 2} y2={bandTop + bandHeight} />
+              <line x1={x + width / 2} y1={bandTop} x2={x - width / 2} y2={bandTop + bandHeight} />
+            </g>
+          );
+        }
+
+        const toX = edit.kind === 'move' ? offsetX + edit.position * scale : x;
+        return (
+          <g key={`preview-${index}`} pointerEvents="none">
+            {edit.kind === 'move' && (
+              <line x1={x} y1={bandTop - 10} x2={toX} y2={bandTop - 10} stroke="#04BF9D" strokeWidth="2" markerEnd="url(#preview-arrow)" />
+            )}
+            <rect
+              x={toX - width / 2}
+              y={bandTop}
+              width={width}
+              height={bandHeight}
+              fill="#04BF9D"
+              fillOpacity="0.15"
+              stroke="#04BF9D"
+              strokeWidth="2"
+              strokeDasharray="6,3"
+            />
+          </g>
+        );
+      })}
+      {previewEdits.length > 0 && (
+        <defs>
+          <marker id="preview-arrow" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+            <polygon points="0 0, 10 3.5, 0 7" fill="#04BF9D" />
+          </marker>
+        </defs>
+      )}
+
+      {/* Measured punches, with centre-to-centre and edge-to-edge distance once two are picked */}
+      {measuredPunches.map((punch, index) => {
+        const width = Math.max(getVisualDimensions(punch.type).width * scale, 8) + 8;
+        return (
+          <rect
+            key={`measure-${index}`}
+            x={offsetX + punch.position * scale - width / 2}
+            y={bandTop}
+            width={width}
+            height={bandHeight}
+            fill="#F2B33D"
+            fillOpacity="0.15"
+            stroke="#F2B33D"
+            strokeWidth="1.5"
+            pointerEvents="none"
+          />
+        );
+      })}
+      {measuredPunches.length === 2 && (() => {
+        const [first, second] = measuredPunches;
+        const { centreToCentre, edgeToEdge } = getPunchDistance(first, second);
+        const x1 = offsetX + first.position * scale;
+        const x2 = offsetX + second.position * scale;
+        const y = bandTop - 24;
+        return (
+          <g pointerEvents="none">
+            <line x1={x1} y1={y} x2={x2} y2={y} stroke="#b7791f" strokeWidth="1.5" />
+            <line x1={x1} y1={y - 8} x2={x1} y2={y + 8} stroke="#b7791f" strokeWidth="1.5" />
+            <line x1={x2} y1={y - 8} x2={x2} y2={y + 8} stroke="#b7791f" strokeWidth="1.5" />
+            <text
+              x={(x1 + x2) / 2}
+              y={y - 12}
+              textAnchor="middle"
+              fontSize="18"
+              fontWeight="500"
+              fill="#b7791f"
+              fontFamily="'Roboto Mono', monospace"
+            >
+              c-c {centreToCentre.toFixed(1)}mm · {edgeToEdge < 0 ? `overlap ${(-edgeToEdge).toFixed(1)}mm` : `edge ${edgeToEdge.toFixed(1)}mm`}
+            </text>
+          </g>
+        );
+      })()}
+
+      {/* Live position readout while dragging */}
+      {drag && (
+        <g pointerEvents="none">
+          <line
+            x1={offsetX + drag.position * scale}
+            y1={offsetY - flangeHeight - lipHeight - 20}
+            x2={offsetX + drag.position * scale}
+            y2={offsetY + profileHeight + flangeHeight + lipHeight + 20}
+            stroke="#5550F2"
+            strokeWidth="1"
+            strokeDasharray="4,4"
+          />
+          <text
+            x={offsetX + drag.position * scale}
+            y={offsetY - flangeHeight - lipHeight - 28}
+            textAnchor="middle"
+            fontSize="18"
+            fontWeight="500"
+            fill="#5550F2"
+            fontFamily="'Roboto Mono', monospace"
+          >
+            {drag.position.toFixed(1)}mm ({drag.position >= drag.punch.position ? '+' : ''}{(drag.position - drag.punch.position).toFixed(1)})
+          </text>
+        </g>
+      )}
+
+      {children}
+    </svg>
+  );
+
+  if (!editor) return svg;
+
+  const menuPunch = menu?.punch;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div className="w-full h-full">{svg}</div>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        {menuPunch ? (
+          <>
+            <ContextMenuLabel className="text-numbers">{menuPunch.type} @ {menuPunch.position.toFixed(1)}mm</ContextMenuLabel>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => editor.duplicatePunch(menuPunch)}>Duplicate</ContextMenuItem>
+            {onTogglePunchLock && (
+              <ContextMenuItem onSelect={() => onTogglePunchLock(menuPunch)}>
+                {isLocked(menuPunch) ? 'Unlock' : 'Lock position'}
+              </ContextMenuItem>
+            )}
+            <ContextMenuItem disabled={isLocked(menuPunch)} onSelect={() => editor.removePunches([menuPunch.id])}>
+              Delete
+            </ContextMenuItem>
+          </>
+        ) : (
+          <ContextMenuItem
+            disabled={!addStation || !menu || !onProfile(menu.position)}
+            onSelect={() => addStation && menu && editor.addPunch(addStation, menu.position)}
+          >
+            Add {addStation ?? 'punch'}{menu && onProfile(menu.position) ? ` at ${editor.snapPosition(menu.position).toFixed(1)}mm` : ''}
+          </ContextMenuItem>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
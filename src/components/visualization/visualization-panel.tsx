@@ -1,12 +1,14 @@
-import { useMemo, useState } from 'react';
-import { ProfileData } from '@/types/form-types';
+import { useEffect, useMemo, useState } from 'react';
+import { PlatformData, ProfileData, PunchStationType } from '@/types/form-types';
 import { NCFileGenerator } from '@/lib/nc-generator';
 import { PunchEditorTable } from '@/components/punch-editor-table';
+import { ProfileCanvas } from '@/components/visualization/profile-canvas';
+import { MemberDiagramsChart } from '@/components/visualization/member-diagrams-chart';
 import { ClashDetectionDrawer } from '@/components/clash-detection-drawer';
-import { detectClashes, ClashDetectionResult } from '@/lib/clash-detection';
+import { detectClashes, getIssueFingerprint, getIssuesByPunch, ClashDetectionResult, ClashIssue } from '@/lib/clash-detection';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, Maximize2 } from 'lucide-react';
+import { Activity, AlertTriangle, Maximize2, MoveHorizontal, Ruler, ScanSearch, ZoomIn, ZoomOut } from 'lucide-react';
 import {
   Drawer,
   DrawerClose,
@@ -17,7 +19,33 @@ import {
   DrawerTitle,
   DrawerTrigger,
 } from '@/components/ui/drawer';
-import { Punch } from '@/types/manufacturing';
+import { ClashSuppression, Punch, PunchRef } from '@/types/manufacturing';
+import { getPunchColor, getPunchDistance } from '@/lib/punch-dimensions';
+import { getActiveStations, getToolingStation } from '@/lib/tooling-library';
+import { getProfileLayout } from '@/lib/profile-viewport';
+import { getMemberDiagrams } from '@/lib/member-diagrams';
+import { getActiveFactoryProfile } from '@/lib/factory-profiles';
+import { getPunchKey } from '@/lib/punch-overrides';
+import { CheckedClashFix, getCheckedFixes, isSafeFix } from '@/lib/clash-fixes';
+import { applyClashSuppressions, createSuppression } from '@/lib/clash-suppressions';
+import { toast } from 'sonner';
+import { useToolingLibrary } from '@/hooks/use-tooling-library';
+import { useFactoryProfiles } from '@/hooks/use-factory-profiles';
+import { EditorPunch, usePunchEditor } from '@/hooks/use-punch-editor';
+import { useProfileViewport } from '@/hooks/use-profile-viewport';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Profile shown either side of the selection when zooming to it, in mm
+const SELECTION_MARGIN = 100;
+
+// Height of the inline drawing - the diagrams below it match the width it is drawn at
+const DRAWING_HEIGHT = 400;
 
 interface VisualizationPanelProps {
   profileData: ProfileData;
@@ -26,12 +54,21 @@ interface VisualizationPanelProps {
   onProfileDataUpdate?: (data: Partial<ProfileData>) => void;
   updateVersion?: number;
   showDimensions?: boolean;
+  lockedPunchKeys?: Set<string>;
+  onTogglePunchLock?: (punch: PunchRef) => void;
+  // Clash issues accepted for the job - hidden from the count until their geometry changes
+  clashSuppressions?: ClashSuppression[];
+  onClashSuppressionsChange?: (suppressions: ClashSuppression[]) => void;
+  platformData?: PlatformData; // Post bays for a bearer's diagrams
 }
 
-export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate, onProfileDataUpdate, updateVersion, showDimensions = false }: VisualizationPanelProps) {
+export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate, onProfileDataUpdate, updateVersion, showDimensions = false, lockedPunchKeys, onTogglePunchLock, clashSuppressions = [], onClashSuppressionsChange, platformData }: VisualizationPanelProps) {
   const [manualPunches, setManualPunches] = useState<Punch[] | null>(null);
   const [clashDrawerOpen, setClashDrawerOpen] = useState(false);
   const [expandedView, setExpandedView] = useState(false);
+  const [showDiagrams, setShowDiagrams] = useState(false);
+  const toolingLibrary = useToolingLibrary();
+  const factoryProfile = getActiveFactoryProfile(useFactoryProfiles());
   
   // Handle punch updates from the editor table
   const handlePunchesUpdate = (punches: Punch[] | null) => {
@@ -46,6 +83,11 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
     }
   };
   
+  // Edits from the drawing and the punch editor table share one undo history
+  const editor = usePunchEditor(ncGenerator, updateVersion, profileData.length, handlePunchesUpdate);
+  // Station added by double-clicking the drawing
+  const [addStation, setAddStation] = useState<PunchStationType>('DIMPLE');
+
   // Compute clash detection results
   const clashResult = useMemo<ClashDetectionResult>(() => {
     if (!ncGenerator) {
@@ -53,55 +95,103 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
     }
     
     const calculations = ncGenerator.getCalculations();
-    return detectClashes(calculations, profileData);
-  }, [ncGenerator, profileData, updateVersion]);
+    return detectClashes(calculations, profileData, factoryProfile, toolingLibrary);
+  }, [ncGenerator, profileData, updateVersion, toolingLibrary, factoryProfile]);
   
-  const svgData = useMemo(() => {
-    if (!ncGenerator) return null;
+  // Issues still open once accepted ones are suppressed - these are what the badge, drawing and table show
+  const suppression = useMemo(
+    () => applyClashSuppressions(clashResult.issues, clashSuppressions),
+    [clashResult, clashSuppressions]
+  );
+  const openClashes = suppression.result;
 
-    const calculations = ncGenerator.getCalculations();
-    
-    // SVG dimensions – increased for better visibility
-    const svgWidth = 1400;
-    const svgHeight = 600;
-    
-    // Use a consistent scale that maintains proper proportions
-    // Ensure 150px padding from edges
-    // Increased max scale for better profile visibility
-    const maxWidthScale = (svgWidth - 300) / profileData.length; // 150px padding on each side
-    const maxHeightScale = (svgHeight - 300) / profileData.profileHeight; // 150px padding top/bottom
-    const baseScale = Math.min(maxWidthScale, maxHeightScale, 0.20);
-    
-    // Scaled dimensions - use same scale for both length and height to maintain proportions
-    const profileLength = profileData.length * baseScale;
-    const profileHeight = profileData.profileHeight * baseScale;
-    
-    // Center the profile in the SVG with proper padding
-    const offsetX = (svgWidth - profileLength) / 2;
-    const offsetY = (svgHeight - profileHeight) / 2;
+  const issuesByPunch = useMemo(() => getIssuesByPunch(openClashes.issues), [openClashes]);
 
-    // Pre-calculate flange and bolt-hole vertical positions
-    const flangeHeight = 63 * baseScale;
-    const topBoltY = offsetY - flangeHeight / 2;
-    const bottomBoltY = offsetY + profileHeight + flangeHeight / 2;
+  // Clash fixes - listed for one issue at a time as each is re-checked against the whole program
+  const [fixIssue, setFixIssue] = useState<ClashIssue | null>(null);
+  const [fixPreview, setFixPreview] = useState<CheckedClashFix | null>(null);
+  const fixes = useMemo(
+    () => (fixIssue ? getCheckedFixes(profileData, editor.punches, clashResult.issues, fixIssue) : []),
+    [fixIssue, profileData, editor.punches, clashResult]
+  );
 
-    const legendSpacing = 40; // vertical gap between legend items
-    
-    return {
-      svgWidth,
-      svgHeight,
-      profileLength,
-      profileHeight,
-      offsetX,
-      offsetY,
-      scale: baseScale,
-      flangeHeight,
-      topBoltY,
-      bottomBoltY,
-      legendSpacing,
-      calculations
-    };
-  }, [profileData, ncGenerator]);
+  // A previewed fix no longer matches once the program changes
+  useEffect(() => {
+    setFixPreview(null);
+  }, [updateVersion]);
+
+  // Zoom and pan, shared by the inline and expanded drawings
+  const diagrams = useMemo(
+    () => (showDiagrams ? getMemberDiagrams(profileData, platformData?.bays) : null),
+    [showDiagrams, profileData, platformData?.bays]
+  );
+
+  const viewport = useProfileViewport(profileData);
+  const svgData = useMemo(
+    () => (ncGenerator ? getProfileLayout(profileData, ncGenerator.getCalculations(), viewport.view) : null),
+    [profileData, ncGenerator, viewport.view]
+  );
+
+  // Measure tool - the last two punches clicked
+  const [measureMode, setMeasureMode] = useState(false);
+  const [measuredIds, setMeasuredIds] = useState<string[]>([]);
+  // Looked up by id so a measurement follows punches as they're edited
+  const measuredPunches = measuredIds
+    .map(id => editor.punches.find(punch => punch.id === id))
+    .filter((punch): punch is EditorPunch => punch !== undefined);
+
+  const handleMeasurePick = (punch: EditorPunch) => {
+    setMeasuredIds(prev => (prev.length === 1 ? [prev[0], punch.id] : [punch.id]));
+  };
+
+  const toggleMeasureMode = () => {
+    setMeasureMode(!measureMode);
+    setMeasuredIds([]);
+  };
+
+  // Fill the drawing with the selected punches, with some profile either side
+  const selectedPunches = editor.punches.filter(punch => editor.selectedIds.has(punch.id));
+  const zoomToSelection = () => {
+    const positions = selectedPunches.map(punch => punch.position);
+    viewport.zoomToPositions(Math.min(...positions) - SELECTION_MARGIN, Math.max(...positions) + SELECTION_MARGIN);
+  };
+
+  const handlePreviewFix = (checked: CheckedClashFix) => {
+    const positions = checked.fix.edits.flatMap(edit =>
+      edit.kind === 'add' ? [edit.punch.position] : edit.kind === 'move' ? [edit.target.position, edit.position] : [edit.target.position]
+    );
+    viewport.zoomToPositions(Math.min(...positions) - SELECTION_MARGIN, Math.max(...positions) + SELECTION_MARGIN);
+    setFixPreview(checked);
+    setClashDrawerOpen(false);
+  };
+
+  // Applied as one undoable edit in the punch editor
+  const handleApplyFix = ({ fix }: CheckedClashFix) => {
+    editor.applyFix(fix);
+    setFixPreview(null);
+    setFixIssue(null);
+    toast.success(`${fix.description} - undo from the Punch Station Editor`);
+  };
+
+  const handleSuppressIssue = (issue: ClashIssue, note: string, author: string) => {
+    onClashSuppressionsChange?.([...clashSuppressions, createSuppression(issue, note, author)]);
+    if (fixIssue && getIssueFingerprint(fixIssue) === getIssueFingerprint(issue)) setFixIssue(null);
+    toast.success(`Suppressed ${issue.ruleId} - saved with the job`);
+  };
+
+  const handleRemoveSuppression = (id: string) => {
+    onClashSuppressionsChange?.(clashSuppressions.filter(suppression => suppression.id !== id));
+  };
+
+  // Zoom to a clash issue and select its punches in the drawing and the editor table
+  const focusIssue = (issue: ClashIssue) => {
+    const keys = new Set(issue.punches.map(getPunchKey));
+    editor.setSelectedIds(new Set(editor.punches.filter(punch => keys.has(getPunchKey(punch))).map(punch => punch.id)));
+
+    const positions = issue.punches.length > 0 ? issue.punches.map(punch => punch.position) : [issue.position ?? 0];
+    viewport.zoomToPositions(Math.min(...positions) - SELECTION_MARGIN, Math.max(...positions) + SELECTION_MARGIN);
+    setClashDrawerOpen(false);
+  };
 
   if (!svgData) {
     return (
@@ -111,88 +201,84 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
     );
   }
 
-  const { svgWidth, svgHeight, profileLength, profileHeight, offsetX, offsetY, scale, flangeHeight, topBoltY, bottomBoltY, legendSpacing, calculations } = svgData;
-
-  // Get service hole dimensions and color based on punch type
-  const getServiceHoleProps = (serviceHoleType: string) => {
-    switch (serviceHoleType) {
-      case 'SMALL SERVICE HOLE':
-        return {
-          width: 115 * scale,
-          height: 115 * scale,
-          shape: 'circle' as const,
-          fill: '#06b6d4', // cyan-500
-          stroke: '#0891b2', // cyan-600
-        };
-      case 'LARGE SERVICE HOLE':
-        return {
-          width: 400 * scale,
-          height: 200 * scale,
-          shape: 'ellipse' as const,
-          fill: '#6366f1', // indigo-500
-          stroke: '#4f46e5', // indigo-600
-        };
-      case 'M SERVICE HOLE':
-      default:
-        return {
-          width: 200 * scale,
-          height: 200 * scale,
-          shape: 'circle' as const,
-          fill: '#3b82f6', // blue-500
-          stroke: '#2563eb', // blue-600
-        };
-    }
-  };
+  const { svgWidth, svgHeight, profileLength, profileHeight, offsetX, offsetY, scale, flangeHeight, calculations } = svgData;
 
-  // Component to render stub pattern based on provided SVG
-  const StubPattern = ({ centerX, centerY, patternScale }: { centerX: number; centerY: number; patternScale: number }) => {
-    // Original SVG viewBox was 290.72 x 472
-    // Scale factor to fit the pattern appropriately - increased for more spacing
-    const stubRadius = Math.max(4 * patternScale, 2);
-    
-    // Positions based on original SVG, scaled up for more spacing between holes
-    const spacing = 1.3; // Increase spacing between holes
-    const positions = [
-      // Top group - moved closer to top flange
-      { x: 26.66 * spacing, y: 26.66 * spacing },
-      { x: 264.06 * spacing, y: 26.66 * spacing },
-      { x: 26.66 * spacing, y: 142.51 * spacing },
-      { x: 264.06 * spacing, y: 142.51 * spacing },
-      // Bottom group - moved closer to bottom flange
-      { x: 26.66 * spacing, y: 329.49 * spacing },
-      { x: 264.06 * spacing, y: 329.49 * spacing },
-      { x: 26.66 * spacing, y: 445.34 * spacing },
-      { x: 264.06 * spacing, y: 445.34 * spacing },
-    ];
-
-    // Scale the original SVG coordinates to fit our pattern size - increased for more spacing
-    const patternWidth = 290.72 * patternScale * spacing;
-    const patternHeight = 472 * patternScale * spacing;
-    
-    return (
-      <g>
-        {positions.map((pos, index) => {
-          const x = centerX - (patternWidth / 2) + (pos.x * patternScale);
-          const y = centerY - (patternHeight / 2) + (pos.y * patternScale);
-          
-          return (
-            <circle
-              key={`stub-circle-${index}`}
-              cx={x}
-              cy={y}
-              r={stubRadius}
-              fill="#9333ea"
-              stroke="#7c3aed"
-              strokeWidth="1"
-              opacity="0.9"
-            />
-          );
-        })}
-      </g>
-    );
-  };
+  const totalIssues = openClashes.errorCount + openClashes.warningCount;
 
-  const totalIssues = clashResult.errorCount + clashResult.warningCount;
+  const measurement = measuredPunches.length === 2 ? getPunchDistance(measuredPunches[0], measuredPunches[1]) : null;
+
+  // Fix being previewed, with its re-check and apply/cancel
+  const fixPreviewBar = fixPreview && (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 rounded-md border bg-white px-3 py-2 shadow-md">
+      <div>
+        <div className="text-sm text-numbers">{fixPreview.fix.description}</div>
+        <div className={isSafeFix(fixPreview.check) ? 'text-xs text-green-700' : 'text-xs text-amber-700'}>
+          {isSafeFix(fixPreview.check)
+            ? 'Re-check passed - no new clashes'
+            : fixPreview.check.resolved
+              ? `Re-check: introduces ${fixPreview.check.newIssues.length} new issues`
+              : 'Re-check: the issue remains'}
+        </div>
+      </div>
+      <Button size="sm" className="h-7" disabled={!isSafeFix(fixPreview.check)} onClick={() => handleApplyFix(fixPreview)}>
+        Apply
+      </Button>
+      <Button variant="outline" size="sm" className="h-7" onClick={() => setFixPreview(null)}>
+        Cancel
+      </Button>
+    </div>
+  );
+
+  // Zoom and measure controls, the same above the inline and expanded drawings
+  const viewControls = (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Zoom out" onClick={viewport.zoomOut}>
+        <ZoomOut className="h-4 w-4" />
+      </Button>
+      <span className="text-xs text-numbers w-12 text-center">{Math.round(viewport.view.zoom * 100)}%</span>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Zoom in" onClick={viewport.zoomIn}>
+        <ZoomIn className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Fit to width" onClick={viewport.fitToWidth}>
+        <MoveHorizontal className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        title="Zoom to selection"
+        disabled={selectedPunches.length === 0}
+        onClick={zoomToSelection}
+      >
+        <ScanSearch className="h-4 w-4" />
+      </Button>
+      <Button
+        variant={measureMode ? 'default' : 'outline'}
+        size="sm"
+        className="h-8 gap-2"
+        title="Measure between two punches"
+        onClick={toggleMeasureMode}
+      >
+        <Ruler className="h-4 w-4" />
+        Measure
+      </Button>
+      {measureMode && (
+        <span className="text-xs text-numbers text-muted-foreground ml-2">
+          {measurement
+            ? `c-c ${measurement.centreToCentre.toFixed(1)}mm · ${measurement.edgeToEdge < 0 ? `overlap ${(-measurement.edgeToEdge).toFixed(1)}mm` : `edge ${measurement.edgeToEdge.toFixed(1)}mm`}`
+            : measuredPunches.length === 1
+              ? 'Click a second punch'
+              : 'Click two punches'}
+        </span>
+      )}
+    </div>
+  );
+
+  const legendStations = [...new Set(
+    [...calculations.boltHoles, ...calculations.webHoles, ...calculations.serviceHoles, ...calculations.dimples, ...calculations.stubs]
+      .filter(punch => punch.active)
+      .map(punch => punch.type)
+  )];
 
   // Render dimension annotations for punches with overlap prevention
   const renderDimensions = () => {
@@ -330,6 +416,35 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
       <div className="card-system grid-m-3 grid-p-3">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-header">Technical Drawing</h3>
+          <div className="flex items-center gap-2 ml-auto mr-2">
+            {viewControls}
+            <span className="text-xs text-muted-foreground hidden xl:inline">
+              Drag to move · wheel to zoom · double-click to add · right-click for more
+            </span>
+            <Select value={addStation} onValueChange={(value) => setAddStation(value as PunchStationType)}>
+              <SelectTrigger className="h-8 w-48 text-xs" title="Station added by double-clicking the drawing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getActiveStations(toolingLibrary).map(station => (
+                  <SelectItem key={station.station} value={station.station} className="text-xs">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: getPunchColor(station.station) }} />
+                    {station.station}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant={showDiagrams ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2 mr-2"
+            title={`Shear, moment and deflection at ${profileData.kpaRating || '2.5'}kPa`}
+            onClick={() => setShowDiagrams(!showDiagrams)}
+          >
+            <Activity className="h-4 w-4" />
+            Diagrams
+          </Button>
           <Drawer open={expandedView} onOpenChange={setExpandedView}>
             <DrawerTrigger asChild>
               <Button variant="outline" size="sm" className="gap-2">
@@ -343,192 +458,28 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
               <DrawerDescription>
                 {profileData.profileType} with baseline dimensions
               </DrawerDescription>
+              {viewControls}
             </DrawerHeader>
             <div className="flex-1 overflow-auto p-6">
               <div className="w-full h-full">
                 {/* Expanded visualization with dimensions */}
-                <div className="viz-container w-full h-full min-h-[700px]">
-                  <svg
-                    width="100%"
-                    height="100%"
-                    viewBox={`0 0 ${svgWidth} ${svgHeight}`}
-                    className="w-full h-full"
+                <div className="relative viz-container w-full h-full min-h-[700px]">
+                  {fixPreviewBar}
+                  <ProfileCanvas
+                    layout={svgData}
+                    profileData={profileData}
+                    editor={editor}
+                    addStation={addStation}
+                    lockedPunchKeys={lockedPunchKeys}
+                    onTogglePunchLock={onTogglePunchLock}
+                    viewport={viewport}
+                    tool={measureMode ? 'measure' : 'edit'}
+                    measuredPunches={measuredPunches}
+                    onMeasurePick={handleMeasurePick}
+                    issues={openClashes.issues}
+                    onIssueClick={focusIssue}
+                    previewEdits={fixPreview?.fix.edits}
                   >
-                    {/* Same content as main view */}
-                    <rect width={svgWidth} height={svgHeight} fill="#f8fafc" />
-                    
-                    {/* Profile outline */}
-                    <g>
-                      <rect
-                        x={offsetX}
-                        y={offsetY}
-                        width={profileLength}
-                        height={profileHeight}
-                        fill="none"
-                        stroke="#1565c0"
-                        strokeWidth="2"
-                        rx="1"
-                      />
-                      <rect
-                        x={offsetX}
-                        y={offsetY - (63 * scale)}
-                        width={profileLength}
-                        height={63 * scale}
-                        fill="none"
-                        stroke="#1565c0"
-                        strokeWidth="1.5"
-                      />
-                      <rect
-                        x={offsetX}
-                        y={offsetY + profileHeight}
-                        width={profileLength}
-                        height={63 * scale}
-                        fill="none"
-                        stroke="#1565c0"
-                        strokeWidth="1.5"
-                      />
-                      {(profileData.profileType === 'Joist Single' || profileData.profileType === 'Joist Box') && (
-                        <>
-                          <rect
-                            x={offsetX}
-                            y={offsetY - (63 * scale) - (15 * scale)}
-                            width={profileLength}
-                            height={15 * scale}
-                            fill="none"
-                            stroke="#1565c0"
-                            strokeWidth="1"
-                          />
-                          <rect
-                            x={offsetX}
-                            y={offsetY + profileHeight + (63 * scale)}
-                            width={profileLength}
-                            height={15 * scale}
-                            fill="none"
-                            stroke="#1565c0"
-                            strokeWidth="1"
-                          />
-                        </>
-                      )}
-                    </g>
-                    
-                    {/* Bolt holes */}
-                    {calculations.boltHoles?.filter(hole => hole.active).map((hole, index) => (
-                      <g key={`bolt-${index}`}>              
-                        <circle
-                          cx={offsetX + hole.position * scale}
-                          cy={topBoltY}
-                          r={Math.max(12 * scale / 2, 3)}
-                          fill="#ef4444"
-                          stroke="#dc2626"
-                          strokeWidth="1"
-                        />
-                        <circle
-                          cx={offsetX + hole.position * scale}
-                          cy={bottomBoltY}
-                          r={Math.max(12 * scale / 2, 3)}
-                          fill="#ef4444"
-                          stroke="#dc2626"
-                          strokeWidth="1"
-                        />
-                      </g>
-                    ))}
-                    
-                    {/* Web tabs */}
-                    {calculations.webHoles?.filter(hole => hole.active).map((hole, index) => (
-                      <rect
-                        key={`web-${index}`}
-                        x={offsetX + hole.position * scale - (20 * scale)}
-                        y={offsetY + profileHeight / 2 - (50 * scale)}
-                        width={40 * scale}
-                        height={100 * scale}
-                        fill="#22c55e"
-                        stroke="#16a34a"
-                        strokeWidth="1"
-                        rx="2"
-                      />
-                    ))}
-                    
-                    {/* Service holes */}
-                    {calculations.serviceHoles?.filter(hole => hole.active).map((hole, index) => {
-                      const props = getServiceHoleProps(hole.type);
-                      const centerX = offsetX + hole.position * scale;
-                      const centerY = offsetY + profileHeight / 2;
-                      
-                      if (props.shape === 'ellipse') {
-                        // Oval shape for LARGE SERVICE HOLE (400x200mm)
-                        return (
-                          <ellipse
-                            key={`service-${index}`}
-                            cx={centerX}
-                            cy={centerY}
-                            rx={Math.max(props.width / 2, 3)}
-                            ry={Math.max(props.height / 2, 3)}
-                            fill={props.fill}
-                            stroke={props.stroke}
-                            strokeWidth="1"
-                            opacity="0.8"
-                          />
-                        );
-                      } else {
-                        // Circle for SMALL and M SERVICE HOLES
-                        return (
-                          <circle
-                            key={`service-${index}`}
-                            cx={centerX}
-                            cy={centerY}
-                            r={Math.max(props.width / 2, 3)}
-                            fill={props.fill}
-                            stroke={props.stroke}
-                            strokeWidth="1"
-                            opacity="0.8"
-                          />
-                        );
-                      }
-                    })}
-                    
-                    {/* Dimples */}
-                    {calculations.dimples?.filter(dimple => dimple.active).map((dimple, index) => {
-                      const dimpleSize = 10 * scale;
-                      const centerX = offsetX + dimple.position * scale;
-                      const makePoints = (centerY: number) => `
-                        ${centerX},${centerY - dimpleSize}
-                        ${centerX + dimpleSize},${centerY}
-                        ${centerX},${centerY + dimpleSize}
-                        ${centerX - dimpleSize},${centerY}
-                      `;
-                      return (
-                        <g key={`dimple-${index}`}>  
-                          <polygon
-                            points={makePoints(topBoltY)}
-                            fill="#f59e0b"
-                            stroke="#d97706"
-                            strokeWidth="1"
-                          />
-                          <polygon
-                            points={makePoints(bottomBoltY)}
-                            fill="#f59e0b"
-                            stroke="#d97706"
-                            strokeWidth="1"
-                          />
-                        </g>
-                      );
-                    })}
-                    
-                    {/* Stubs */}
-                    {calculations.stubs?.filter(stub => stub.active).map((stub, index) => {
-                      const stubX = offsetX + stub.position * scale;
-                      const stubY = offsetY + profileHeight / 2;
-                      const patternScale = Math.max(scale * 0.25, 0.025);
-                      return (
-                        <StubPattern
-                          key={`stub-${index}`}
-                          centerX={stubX}
-                          centerY={stubY}
-                          patternScale={patternScale}
-                        />
-                      );
-                    })}
-                    
                     {/* Dimensions - shown in drawer */}
                     {renderDimensions()}
                     
@@ -544,7 +495,7 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
                         <polygon points="0 0, 10 3.5, 0 7" fill="#374151" />
                       </marker>
                     </defs>
-                  </svg>
+                  </ProfileCanvas>
                 </div>
               </div>
             </div>
@@ -557,210 +508,24 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
         </Drawer>
         </div>
         
-        <div className="relative w-full h-[400px]">
+        <div className="relative w-full" style={{ height: DRAWING_HEIGHT }}>
+        {fixPreviewBar}
         <div className="viz-container w-full h-full">
-          <svg
-          width="100%"
-          height="100%"
-          viewBox={`0 0 ${svgWidth} ${svgHeight}`}
-          className="w-full h-full"
-        >
-        {/* Background */}
-        <rect width={svgWidth} height={svgHeight} fill="#f8fafc" />
-        
-        {/* Profile outline - Front view showing the web and flanges */}
-        <g>
-          {/* Main web (vertical section) */}
-          <rect
-            x={offsetX}
-            y={offsetY}
-            width={profileLength}
-            height={profileHeight}
-            fill="none"
-            stroke="#1565c0"
-            strokeWidth="2"
-            rx="1"
-          />
-          
-          {/* Top flange - scaled proportionally */}
-          <rect
-            x={offsetX}
-            y={offsetY - (63 * scale)}
-            width={profileLength}
-            height={63 * scale}
-            fill="none"
-            stroke="#1565c0"
-            strokeWidth="1.5"
-          />
-          
-          {/* Bottom flange - scaled proportionally */}
-          <rect
-            x={offsetX}
-            y={offsetY + profileHeight}
-            width={profileLength}
-            height={63 * scale}
-            fill="none"
-            stroke="#1565c0"
-            strokeWidth="1.5"
-          />
-          
-          {/* Lips for Joist profile - scaled proportionally */}
-          {(profileData.profileType === 'Joist Single' || profileData.profileType === 'Joist Box') && (
-            <>
-              <rect
-                x={offsetX}
-                y={offsetY - (63 * scale) - (15 * scale)}
-                width={profileLength}
-                height={15 * scale}
-                fill="none"
-                stroke="#1565c0"
-                strokeWidth="1"
-              />
-              <rect
-                x={offsetX}
-                y={offsetY + profileHeight + (63 * scale)}
-                width={profileLength}
-                height={15 * scale}
-                fill="none"
-                stroke="#1565c0"
-                strokeWidth="1"
-              />
-            </>
-          )}
-        </g>
-        
-        {/* Bolt holes (red circles) - rendered at top & bottom flanges */}
-        {calculations.boltHoles
-          .filter(hole => hole.active)
-          .map((hole, index) => (
-            <g key={`bolt-${index}`}>              
-              {/* Top flange bolt */}
-              <circle
-                cx={offsetX + hole.position * scale}
-                cy={topBoltY}
-                r={Math.max(12 * scale / 2, 3)}
-                fill="#ef4444"
-                stroke="#dc2626"
-                strokeWidth="1"
-              />
-              {/* Bottom flange bolt */}
-              <circle
-                cx={offsetX + hole.position * scale}
-                cy={bottomBoltY}
-                r={Math.max(12 * scale / 2, 3)}
-                fill="#ef4444"
-                stroke="#dc2626"
-                strokeWidth="1"
-              />
-            </g>
-          ))}
-        
-        {/* Web holes/tabs (green rectangles) - positioned along the length with consistent scale */}
-        {calculations.webHoles
-          .filter(hole => hole.active)
-          .map((hole, index) => (
-            <rect
-              key={`web-${index}`}
-              x={offsetX + hole.position * scale - (20 * scale)}
-              y={offsetY + profileHeight / 2 - (50 * scale)}
-              width={40 * scale}
-              height={100 * scale}
-              fill="#22c55e"
-              stroke="#16a34a"
-              strokeWidth="1"
-              rx="2"
-            />
-          ))}
-        
-        {/* Service holes - different shapes and colors based on type */}
-        {calculations.serviceHoles
-          .filter(hole => hole.active)
-          .map((hole, index) => {
-            const props = getServiceHoleProps(hole.type);
-            const centerX = offsetX + hole.position * scale;
-            const centerY = offsetY + profileHeight / 2;
-            
-            if (props.shape === 'ellipse') {
-              // Oval shape for LARGE SERVICE HOLE (400x200mm)
-              return (
-                <ellipse
-                  key={`service-${index}`}
-                  cx={centerX}
-                  cy={centerY}
-                  rx={Math.max(props.width / 2, 3)}
-                  ry={Math.max(props.height / 2, 3)}
-                  fill={props.fill}
-                  stroke={props.stroke}
-                  strokeWidth="1"
-                  opacity="0.8"
-                />
-              );
-            } else {
-              // Circle for SMALL and M SERVICE HOLES
-              return (
-                <circle
-                  key={`service-${index}`}
-                  cx={centerX}
-                  cy={centerY}
-                  r={Math.max(props.width / 2, 3)}
-                  fill={props.fill}
-                  stroke={props.stroke}
-                  strokeWidth="1"
-                  opacity="0.8"
-                />
-              );
-            }
-          })}
-        
-        {/* Dimples (small diamonds) - render at both top & bottom flanges */}
-        {calculations.dimples
-          .filter(dimple => dimple.active)
-          .map((dimple, index) => {
-            const dimpleSize = 10 * scale;
-            const centerX = offsetX + dimple.position * scale;
-            const makePoints = (centerY: number) => `
-              ${centerX},${centerY - dimpleSize}
-              ${centerX + dimpleSize},${centerY}
-              ${centerX},${centerY + dimpleSize}
-              ${centerX - dimpleSize},${centerY}
-            `;
-            return (
-              <g key={`dimple-${index}`}>  
-                <polygon
-                  points={makePoints(topBoltY)}
-                  fill="#f59e0b"
-                  stroke="#d97706"
-                  strokeWidth="1"
-                />
-                <polygon
-                  points={makePoints(bottomBoltY)}
-                  fill="#f59e0b"
-                  stroke="#d97706"
-                  strokeWidth="1"
-                />
-              </g>
-            );
-          })}
-        
-        {/* Stub positions (purple patterns) - positioned closer to flanges */}
-        {calculations.stubs
-          .filter(stub => stub.active)
-          .map((stub, index) => {
-            const stubX = offsetX + stub.position * scale;
-            // Position the pattern so top holes are closer to top flange, bottom holes closer to bottom flange
-            const stubY = offsetY + profileHeight / 2;
-            const patternScale = Math.max(scale * 0.25, 0.025); // Slightly increased scale for better visibility
-            
-            return (
-              <StubPattern
-                key={`stub-${index}`}
-                centerX={stubX}
-                centerY={stubY}
-                patternScale={patternScale}
-              />
-            );
-          })}
-        
+          <ProfileCanvas
+            layout={svgData}
+            profileData={profileData}
+            editor={editor}
+            addStation={addStation}
+            lockedPunchKeys={lockedPunchKeys}
+            onTogglePunchLock={onTogglePunchLock}
+            viewport={viewport}
+            tool={measureMode ? 'measure' : 'edit'}
+            measuredPunches={measuredPunches}
+            onMeasurePick={handleMeasurePick}
+            issues={openClashes.issues}
+            onIssueClick={focusIssue}
+            previewEdits={fixPreview?.fix.edits}
+          >
         {/* Dimension lines and text - always show or based on showDimensions prop */}
         {showDimensions && (
           <>
@@ -866,7 +631,7 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
             />
           </marker>
         </defs>
-        </svg>
+          </ProfileCanvas>
         </div>
         
         {/* Clash Detection Button - Bottom Left Corner */}
@@ -891,107 +656,67 @@ export function VisualizationPanel({ profileData, ncGenerator, onPunchesUpdate,
           </Button>
         </div>
         </div>
+
+        {/* Load diagrams at the drawing's width - it keeps its aspect ratio inside its box */}
+        {diagrams && (
+          <div className="mx-auto mt-2 w-full" style={{ maxWidth: (DRAWING_HEIGHT * svgWidth) / svgHeight }}>
+            <MemberDiagramsChart diagrams={diagrams} layout={svgData} />
+          </div>
+        )}
       </div>
       
       {/* Clash Detection Drawer */}
       <ClashDetectionDrawer
         open={clashDrawerOpen}
         onOpenChange={setClashDrawerOpen}
-        clashResult={clashResult}
+        clashResult={openClashes}
+        onIssueSelect={focusIssue}
+        fixIssue={fixIssue}
+        fixes={fixes}
+        onShowFixes={setFixIssue}
+        onPreviewFix={handlePreviewFix}
+        onApplyFix={handleApplyFix}
+        suppressions={suppression.results}
+        onSuppressIssue={onClashSuppressionsChange && handleSuppressIssue}
+        onRemoveSuppression={handleRemoveSuppression}
       />
       
       {/* Punch Editor Table */}
       <PunchEditorTable
         key={`${profileData.profileType}-${profileData.holeType}`}
-        ncGenerator={ncGenerator}
-        onPunchesUpdate={handlePunchesUpdate}
+        editor={editor}
         profileLength={profileData.length}
         profileType={profileData.profileType}
         punchStations={profileData.punchStations}
-        updateVersion={updateVersion}
         joistBox={profileData.joistBox}
+        issuesByPunch={issuesByPunch}
         onPunchStationsUpdate={(stations) => {
-          // Update profile data with new station states
+          // Update profile data with new station states - the program regenerates without the station's punches
           if (onProfileDataUpdate) {
             onProfileDataUpdate({ punchStations: stations });
           }
-          // Trigger manual mode when stations are toggled
-          if (onPunchesUpdate) {
-            // Get current punches and trigger manual mode
-            const currentPunches = ncGenerator?.getCalculations();
-            if (currentPunches) {
-              const allPunches: any[] = [];
-              // Collect active punches after station toggle
-              [...(currentPunches.boltHoles || []),
-               ...(currentPunches.webHoles || []),
-               ...(currentPunches.serviceHoles || []),
-               ...(currentPunches.dimples || []),
-               ...(currentPunches.stubs || [])]
-                .forEach(p => {
-                  if (p.active && stations.some((s: any) => s.station === p.type && s.enabled)) {
-                    allPunches.push(p);
-                  }
-                });
-              onPunchesUpdate(allPunches);
-            }
-          }
         }}
+        lockedPunchKeys={lockedPunchKeys}
+        onTogglePunchLock={onTogglePunchLock}
       />
       
       {/* Legend moved below table */}
       <div className="card-system grid-m-3 grid-p-3">
         <h3 className="text-header mb-4">Legend</h3>
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-          {/* Bolt holes legend */}
-          <div className="flex items-center space-x-2">
-            <div className="w-4 h-4 rounded-full bg-red-500 border border-red-600"></div>
-            <span className="text-body">Bolt Holes (Ø12mm)</span>
-          </div>
-          
-          {/* Web tabs legend */}
-          <div className="flex items-center space-x-2">
-            <div className="w-4 h-3 bg-green-500 border border-green-600 rounded-sm"></div>
-            <span className="text-body">Web Tabs</span>
-          </div>
-          
-          {/* Service holes legend - show all active types */}
-          {calculations.serviceHoles?.some(h => h.active && h.type === 'M SERVICE HOLE') && (
-            <div className="flex items-center space-x-2">
-              <div className="w-4 h-4 rounded-full bg-blue-500 border border-blue-600 opacity-80"></div>
-              <span className="text-body">M Service Hole (Ø200mm)</span>
-            </div>
-          )}
-          {calculations.serviceHoles?.some(h => h.active && h.type === 'SMALL SERVICE HOLE') && (
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-cyan-500 border border-cyan-600 opacity-80"></div>
-              <span className="text-body">Small Service Hole (Ø115mm)</span>
-            </div>
-          )}
-          {calculations.serviceHoles?.some(h => h.active && h.type === 'LARGE SERVICE HOLE') && (
-            <div className="flex items-center space-x-2">
-              <div className="w-6 h-3 rounded-full bg-indigo-500 border border-indigo-600 opacity-80"></div>
-              <span className="text-body">Large Service Hole (400×200mm)</span>
-            </div>
-          )}
-          
-          {/* Service/Corner Brackets legend */}
-          <div className="flex items-center space-x-2">
-            <div className="flex space-x-1">
-              <div className="w-2 h-2 rounded-full bg-purple-500 border border-purple-600"></div>
-              <div className="w-2 h-2 rounded-full bg-purple-500 border border-purple-600"></div>
-            </div>
-            <span className="text-body">
-              {profileData.profileType?.includes('Bearer') ? 'Service Stubs & Corner Brackets' : 'Corner Brackets'}
-            </span>
-          </div>
-          
-          {/* Dimples legend (only for joists) */}
-          {(profileData.profileType === 'Joist Single' || profileData.profileType === 'Joist Box') && (
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 bg-yellow-500 border border-yellow-600 rotate-45"></div>
-              <span className="text-body">Dimples</span>
-            </div>
-          )}
+          {/* One entry per station punched in the current program, from the tooling library */}
+          {legendStations.map(station => {
+            const tooling = getToolingStation(station);
+            return (
+              <div key={station} className="flex items-center space-x-2">
+                <div
+                  className={tooling?.shape === 'round' || tooling?.shape === 'oval' ? 'w-4 h-4 rounded-full opacity-80' : 'w-4 h-3 rounded-sm opacity-80'}
+                  style={{ backgroundColor: getPunchColor(station) }}
+                ></div>
+                <span className="text-body">{station === 'SERVICE' ? 'Service Stubs' : station} - {tooling?.description ?? 'Not in tooling library'}</span>
+              </div>
+            );
+          })}
         </div>
       </div>
     </>
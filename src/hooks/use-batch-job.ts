@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { BatchPart } from '@/types/manufacturing';
+import { moveBatchPart } from '@/lib/batch-job';
+
+export const useBatchJob = () => {
+  const [parts, setParts] = useState<BatchPart[]>([]);
+
+  const addParts = useCallback((newParts: BatchPart[]) => {
+    setParts(prev => [...prev, ...newParts]);
+  }, []);
+
+  const updatePart = useCallback((id: string, updates: Partial<Omit<BatchPart, 'id'>>) => {
+    setParts(prev => prev.map(part => (part.id === id ? { ...part, ...updates } : part)));
+  }, []);
+
+  const movePart = useCallback((id: string, direction: -1 | 1) => {
+    setParts(prev => moveBatchPart(prev, prev.findIndex(part => part.id === id), direction));
+  }, []);
+
+  const removePart = useCallback((id: string) => {
+    setParts(prev => prev.filter(part => part.id !== id));
+  }, []);
+
+  const clearParts = useCallback(() => {
+    setParts([]);
+  }, []);
+
+  return {
+    parts,
+    addParts,
+    updatePart,
+    movePart,
+    removePart,
+    clearParts,
+  };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getFactoryProfiles, subscribeFactoryProfiles } from '@/lib/factory-profiles';
+
+/**
+ * Factory profiles for the clash rules - re-renders when rules are switched or re-parameterised
+ */
+export const useFactoryProfiles = () => useSyncExternalStore(subscribeFactoryProfiles, getFactoryProfiles);
@@ -14,7 +14,7 @@ export const useNCGenerator = (profileData: ProfileData, exportData: ExportData)
 
   const updateCalculations = useCallback(() => {
     if (ncGenerator) {
-      ncGenerator.updateCalculations(null as any, profileData, exportData);
+      ncGenerator.updateCalculations(null, profileData, exportData);
     }
   }, [ncGenerator, profileData, exportData]);
 
@@ -32,9 +32,10 @@ export const useNCGenerator = (profileData: ProfileData, exportData: ExportData)
     return ncGenerator.getCalculations();
   }, [ncGenerator]);
 
-  const setManualPunches = useCallback((punches: any[] | null) => {
+  // Bearer bolt holes are re-paired with the web tabs unless the program's own are to be kept
+  const setManualPunches = useCallback((punches: any[] | null, syncBoltHoles = true) => {
     if (ncGenerator) {
-      ncGenerator.setManualPunches(punches, profileData.profileType);
+      ncGenerator.setManualPunches(punches, syncBoltHoles ? profileData.profileType : undefined);
     }
   }, [ncGenerator, profileData.profileType]);
 
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ProfileData } from '@/types/form-types';
+import {
+  ProfileLayout,
+  ProfileView,
+  getDefaultView,
+  getFitWidthView,
+  panView,
+  zoomToRange,
+  zoomView,
+} from '@/lib/profile-viewport';
+
+// Zoom step for the buttons and each mouse wheel notch
+const ZOOM_STEP = 1.25;
+
+/**
+ * Zoom and pan of the profile drawing, shared by the inline and expanded views.
+ * Goes back to the whole profile when its length or height changes.
+ */
+export const useProfileViewport = (profileData: ProfileData) => {
+  const { length, profileHeight } = profileData;
+  const [view, setView] = useState<ProfileView>(() => getDefaultView({ length, profileHeight }));
+
+  useEffect(() => {
+    setView(getDefaultView({ length, profileHeight }));
+  }, [length, profileHeight]);
+
+  const zoomAt = useCallback((factor: number, anchor?: { x: number; y: number }) => {
+    setView(prev => zoomView(profileData, prev, factor, anchor));
+  }, [profileData]);
+
+  const zoomIn = useCallback(() => zoomAt(ZOOM_STEP), [zoomAt]);
+  const zoomOut = useCallback(() => zoomAt(1 / ZOOM_STEP), [zoomAt]);
+
+  const panBy = useCallback((layout: ProfileLayout, dx: number, dy: number) => {
+    setView(prev => panView(prev, layout, dx, dy));
+  }, []);
+
+  const fitToWidth = useCallback(() => {
+    setView(getFitWidthView(profileData));
+  }, [profileData]);
+
+  const zoomToPositions = useCallback((start: number, end: number) => {
+    setView(zoomToRange(profileData, start, end));
+  }, [profileData]);
+
+  return {
+    view,
+    zoomStep: ZOOM_STEP,
+    zoomAt,
+    zoomIn,
+    zoomOut,
+    panBy,
+    fitToWidth,
+    zoomToPositions,
+  };
+};
+
+export type ProfileViewport = ReturnType<typeof useProfileViewport>;
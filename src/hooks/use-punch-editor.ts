@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { NCFileGenerator } from '@/lib/nc-generator';
+import { getPunchKey } from '@/lib/punch-overrides';
+import { ClashFix, applyFixEdits } from '@/lib/clash-fixes';
+import { roundHalf } from '@/lib/utils/manufacturing';
+import { PunchStationType } from '@/types/form-types';
+import { Punch } from '@/types/manufacturing';
+
+export interface EditorPunch {
+  id: string;
+  position: number;
+  type: PunchStationType;
+  active: boolean;
+}
+
+// Offset for a duplicated punch
+const DUPLICATE_OFFSET = 50;
+
+let punchCounter = 0;
+const newPunchId = (type: PunchStationType, position: number) => `${type}-${position}-${Date.now()}-${punchCounter++}`;
+
+const programKey = (punches: EditorPunch[]) => punches.map(getPunchKey).sort().join('|');
+
+/**
+ * Edits to the punch program shared by the punch editor table and the profile drawing.
+ * Every edit goes through onPunchesUpdate and one undo history; the history starts over when
+ * the program changes for any other reason (e.g. Profile Settings).
+ */
+export const usePunchEditor = (
+  ncGenerator: NCFileGenerator | null,
+  updateVersion: number | undefined,
+  profileLength: number,
+  onPunchesUpdate: (punches: Punch[] | null) => void,
+) => {
+  const [punches, setPunches] = useState<EditorPunch[]>([]);
+  const [history, setHistory] = useState<{ entries: EditorPunch[][]; index: number }>({ entries: [], index: -1 });
+  // Punches selected in the table or the drawing
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Load punches from the NC generator
+  useEffect(() => {
+    if (!ncGenerator) return;
+
+    const loaded = ncGenerator.getPunches().map((punch) => ({
+      id: `${punch.type}-${punch.position}`,
+      position: punch.position,
+      type: punch.type,
+      active: true,
+    }));
+
+    setPunches(loaded);
+    setSelectedIds(new Set());
+    setHistory((prev) =>
+      prev.index >= 0 && programKey(prev.entries[prev.index]) === programKey(loaded)
+        ? prev
+        : { entries: [loaded], index: 0 }
+    );
+  }, [ncGenerator, updateVersion, profileLength]);
+
+  const commit = (newPunches: EditorPunch[]) => {
+    setPunches(newPunches);
+    setHistory((prev) => {
+      const entries = [...prev.entries.slice(0, prev.index + 1), newPunches];
+      return { entries, index: entries.length - 1 };
+    });
+    onPunchesUpdate(newPunches);
+  };
+
+  const goTo = (index: number) => {
+    const entry = history.entries[index];
+    setPunches(entry);
+    setHistory((prev) => ({ ...prev, index }));
+    onPunchesUpdate(entry);
+  };
+
+  const undo = () => {
+    if (history.index > 0) goTo(history.index - 1);
+  };
+
+  const redo = () => {
+    if (history.index < history.entries.length - 1) goTo(history.index + 1);
+  };
+
+  // Back to the calculated program - the generator reloads it
+  const reset = () => {
+    onPunchesUpdate(null);
+  };
+
+  // Positions snap to the half millimetre the generator works in and stay on the profile
+  const snapPosition = (position: number) => Math.min(Math.max(roundHalf(position), 0), profileLength);
+
+  const movePunch = (id: string, position: number) => {
+    commit(punches.map((punch) => (punch.id === id ? { ...punch, position: snapPosition(position) } : punch)));
+  };
+
+  const addPunch = (type: PunchStationType, position: number) => {
+    const snapped = snapPosition(position);
+    commit([...punches, { id: newPunchId(type, snapped), position: snapped, type, active: true }]);
+  };
+
+  const removePunches = (ids: string[]) => {
+    commit(punches.filter((punch) => !ids.includes(punch.id)));
+  };
+
+  const duplicatePunch = (punch: EditorPunch) => {
+    // Offset from the original, falling back to the other side or the same position if there's no room
+    let position = punch.position + DUPLICATE_OFFSET;
+    if (position > profileLength) {
+      position = punch.position - DUPLICATE_OFFSET;
+      if (position < 0) {
+        position = punch.position;
+      }
+    }
+    addPunch(punch.type, position);
+  };
+
+  // One undoable edit for all of a fix's punch changes
+  const applyFix = (fix: ClashFix) => {
+    commit(applyFixEdits(punches, fix.edits, ({ type, position }) => {
+      const snapped = snapPosition(position);
+      return { id: newPunchId(type, snapped), position: snapped, type, active: true };
+    }));
+  };
+
+  const toggleSelected = (id: string, additive = true) => {
+    setSelectedIds((prev) => {
+      const next = new Set(additive ? prev : []);
+      if (prev.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return {
+    punches,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+    commit,
+    undo,
+    redo,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    reset,
+    snapPosition,
+    movePunch,
+    addPunch,
+    removePunches,
+    duplicatePunch,
+    applyFix,
+  };
+};
+
+export type PunchEditor = ReturnType<typeof usePunchEditor>;
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getSpanTableLibrary, subscribeSpanTableLibrary } from '@/lib/span-table-library';
+
+/**
+ * Loaded span tables and the active standard - re-renders when tables are loaded or switched
+ */
+export const useSpanTableLibrary = () => useSyncExternalStore(subscribeSpanTableLibrary, getSpanTableLibrary);
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getToolingLibrary, subscribeToolingLibrary } from '@/lib/tooling-library';
+
+/**
+ * Active tooling library - re-renders when stations or machines are edited
+ */
+export const useToolingLibrary = () => useSyncExternalStore(subscribeToolingLibrary, getToolingLibrary);
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import {
+  assignComponentCodes,
+  createBatchPart,
+  findDuplicatePartCodes,
+  generateBatchCSV,
+  generateBatchPartProgram,
+  moveBatchPart,
+} from './batch-job';
+
+const bearerPart = (programName: string) => createBatchPart(makeProfile(), makeExportData({ programName }));
+const joistPart = (programName: string) => createBatchPart(makeJoist(), makeExportData({ programName }));
+
+describe('createBatchPart', () => {
+  it('takes its part code and quantity from the export settings', () => {
+    const part = createBatchPart(makeProfile(), makeExportData({ programName: 'B1', quantity: 4 }));
+    expect(part).toMatchObject({ partCode: 'B1', quantity: 4, manualPunches: null });
+  });
+
+  it('gives every part its own id', () => {
+    expect(bearerPart('B1').id).not.toBe(bearerPart('B1').id);
+  });
+
+  it('makes at least one of a part', () => {
+    expect(createBatchPart(makeProfile(), makeExportData({ quantity: 0 })).quantity).toBe(1);
+  });
+});
+
+describe('moveBatchPart', () => {
+  const parts = [bearerPart('A'), bearerPart('B'), bearerPart('C')];
+
+  it('swaps a part with its neighbour', () => {
+    expect(moveBatchPart(parts, 1, -1).map(part => part.partCode)).toEqual(['B', 'A', 'C']);
+    expect(moveBatchPart(parts, 1, 1).map(part => part.partCode)).toEqual(['A', 'C', 'B']);
+  });
+
+  it('leaves the order alone when the part is already at the end', () => {
+    expect(moveBatchPart(parts, 0, -1)).toBe(parts);
+    expect(moveBatchPart(parts, 2, 1)).toBe(parts);
+  });
+});
+
+describe('assignComponentCodes', () => {
+  it('numbers bearers and joists separately in job order', () => {
+    const parts = [bearerPart('A'), joistPart('B'), bearerPart('C'), joistPart('D')];
+    expect(assignComponentCodes(parts)).toEqual(['B1-1', 'J1-1', 'B1-2', 'J1-2']);
+  });
+});
+
+describe('findDuplicatePartCodes', () => {
+  it('lists each repeated part code once', () => {
+    const parts = [bearerPart('A'), bearerPart('B'), bearerPart('A'), bearerPart('A')];
+    expect(findDuplicatePartCodes(parts)).toEqual(['A']);
+  });
+});
+
+describe('generateBatchPartProgram', () => {
+  it('keeps a part\'s manual punch snapshot', () => {
+    const part = bearerPart('B1');
+    const punches = generateBatchPartProgram(part).getPunches().filter(punch => punch.type !== 'DIMPLE');
+    const program = generateBatchPartProgram({ ...part, manualPunches: punches });
+    expect(program.getPunches().some(punch => punch.type === 'DIMPLE')).toBe(false);
+  });
+});
+
+describe('generateBatchCSV', () => {
+  it('writes one program line per part', () => {
+    const csv = generateBatchCSV([bearerPart('B1'), joistPart('J1')]);
+    const lines = csv.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain('B1-1');
+    expect(lines[1]).toContain('J1-1');
+  });
+});
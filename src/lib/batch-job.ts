@@ -0,0 +1,88 @@
+import { ExportData, ProfileData } from '@/types/form-types';
+import { BatchPart, Punch } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+import { getPostProcessor } from './post-processors';
+import { isBearerProfile } from './utils/manufacturing';
+
+/**
+ * Batch Job
+ * A job made of many parts exported to the roll former as one multi-line CSV file
+ */
+
+let partCounter = 0;
+
+export const createBatchPart = (
+  profileData: ProfileData,
+  exportData: ExportData,
+  manualPunches: Punch[] | null = null,
+): BatchPart => ({
+  id: `part-${Date.now()}-${partCounter++}`,
+  partCode: exportData.programName,
+  quantity: exportData.quantity || 1,
+  profileData,
+  manualPunches,
+});
+
+/**
+ * Move a part up (-1) or down (+1) in the job order
+ */
+export const moveBatchPart = (parts: BatchPart[], index: number, direction: -1 | 1): BatchPart[] => {
+  const target = index + direction;
+  if (index < 0 || index >= parts.length || target < 0 || target >= parts.length) return parts;
+
+  const reordered = [...parts];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
+
+/**
+ * Assign unique component codes in job order: bearers B1-1, B1-2..., joists J1-1, J1-2...
+ */
+export const assignComponentCodes = (parts: BatchPart[]): string[] => {
+  const counters: Record<'B' | 'J', number> = { B: 0, J: 0 };
+
+  return parts.map((part) => {
+    const prefix = isBearerProfile(part.profileData.profileType) ? 'B' : 'J';
+    counters[prefix]++;
+    return `${prefix}1-${counters[prefix]}`;
+  });
+};
+
+/**
+ * Part codes used by more than one part in the job
+ */
+export const findDuplicatePartCodes = (parts: BatchPart[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  parts.forEach(({ partCode }) => {
+    if (seen.has(partCode)) duplicates.add(partCode);
+    seen.add(partCode);
+  });
+  return [...duplicates];
+};
+
+/**
+ * Generate the punch program for a single part, applying its manual punch snapshot if present.
+ * The snapshot is the whole program, so it is applied as it stands.
+ */
+export const generateBatchPartProgram = (part: BatchPart): NCFileGenerator => {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, part.profileData, { quantity: part.quantity, programName: part.partCode });
+
+  if (part.manualPunches) {
+    generator.setManualPunches(part.manualPunches);
+  }
+
+  return generator;
+};
+
+/**
+ * Generate one NC file for the whole job with the given post-processor (one csvCOMPONENT line per part by default)
+ */
+export const generateBatchCSV = (parts: BatchPart[], postProcessorId?: string): string => {
+  const componentCodes = assignComponentCodes(parts);
+
+  return getPostProcessor(postProcessorId).formatPrograms(
+    parts.map((part, index) => generateBatchPartProgram(part).getProgram(componentCodes[index]))
+  );
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { makeProfile } from '@/test/fixtures';
+import { DESIGN_BASIS } from './structural-capacity';
+import { checkBearer, describeBearerRecommendation, designBearer, getJoistReactions } from './bearer-design';
+
+describe('getJoistReactions', () => {
+  it('gives each joist half its span over the floor halfway to its neighbours', () => {
+    const [first, middle, last] = getJoistReactions([1200, 0, 600, 600], 4000, 'Joist Single', 350, 2.5);
+    expect([first.position, middle.position, last.position]).toEqual([0, 600, 1200]);
+    expect(first.live).toBeCloseTo((2.5 * 0.3 * 4000) / 2 / 1000);
+    expect(middle.live).toBeCloseTo(2 * first.live);
+    expect(last).toEqual({ ...first, position: 1200 });
+  });
+});
+
+describe('checkBearer', () => {
+  const reactions = getJoistReactions([0, 600, 1200, 1800, 2400, 3000, 3600, 4200, 4800, 5200], 6000, 'Joist Single', 350, 2.5);
+  const input = { profileType: 'Bearer Single' as const, profileHeight: 350, holeType: 'No Holes', length: 5200, reactions };
+
+  it('checks each bay between posts for bending and deflection', () => {
+    const result = checkBearer({ ...input, posts: [5200, 0, 2600] });
+    expect(result.posts).toEqual([0, 2600, 5200]);
+    expect(result.segments.map(({ kind, from, to }) => [kind, from, to])).toEqual([['bay', 0, 2600], ['bay', 2600, 5200]]);
+    expect(result.segments[0].checks.map(check => check.id)).toEqual(['bending', 'deflection']);
+  });
+
+  it('checks the bearer past an end post as a cantilever, with the joist at its tip', () => {
+    const result = checkBearer({ ...input, posts: [600, 4600] });
+    expect(result.segments.map(({ kind, from, to }) => [kind, from, to])).toEqual([['cantilever', 0, 600], ['bay', 600, 4600], ['cantilever', 4600, 5200]]);
+
+    const tip = reactions[0];
+    const selfWeight = result.section.selfWeight;
+    const moment = Math.max(
+      DESIGN_BASIS.deadOnlyFactor * (tip.dead * 1000 * 600 + (selfWeight * 600 * 600) / 2),
+      (DESIGN_BASIS.deadFactor * tip.dead + DESIGN_BASIS.liveFactor * tip.live) * 1000 * 600 + (DESIGN_BASIS.deadFactor * selfWeight * 600 * 600) / 2
+    ) / 1e6;
+    expect(result.segments[0].checks[0].demand).toBeCloseTo(moment);
+    expect(result.segments[0].checks[1].capacity).toBeCloseTo(600 / DESIGN_BASIS.cantileverDeflectionLimit);
+  });
+
+  it('carries point loads with the joists, past the last post included', () => {
+    const posts = [600, 4600];
+    const without = checkBearer({ ...input, posts });
+    const result = checkBearer({ ...input, posts, pointLoads: [{ position: 5000, load: 2, dead: 1, bearingLength: 100 }] });
+    const extraMoment = (DESIGN_BASIS.deadFactor * 1 + DESIGN_BASIS.liveFactor * 2) * 400 / 1000;
+
+    expect(result.segments[2].checks[0].demand - without.segments[2].checks[0].demand).toBeCloseTo(extraMoment);
+    expect(result.segments[1].checks[0].demand).toBeCloseTo(without.segments[1].checks[0].demand);
+  });
+
+  it('is governed by its worst segment', () => {
+    const result = checkBearer({ ...input, posts: [0, 5200] });
+    expect(result.governing).toBe(result.segments[0]);
+    expect(result.passes).toBe(result.governing.governing.utilisation <= 1);
+  });
+});
+
+describe('designBearer', () => {
+  it('passes a bearer with posts close enough', () => {
+    const design = designBearer(makeProfile(), 3);
+    expect(design).toMatchObject({ bays: 3, passes: true });
+    expect(design.recommendation).toBeUndefined();
+    expect(describeBearerRecommendation(design)).toBeUndefined();
+  });
+
+  it('recommends the smallest change that passes', () => {
+    const design = designBearer(makeProfile(), 1);
+    expect(design.passes).toBe(false);
+    expect(design.recommendation).toEqual({ profileType: 'Bearer Single', bays: 2 });
+    expect(describeBearerRecommendation(design)).toBe('Add 1 post (2 bays)');
+  });
+
+  it('checks the bearer under its own point loads', () => {
+    const pointLoads = [{ position: 1300, load: 10, bearingLength: 100 }];
+    expect(designBearer({ ...makeProfile(), pointLoads }, 3).governing.governing.utilisation)
+      .toBeGreaterThan(designBearer(makeProfile(), 3).governing.governing.utilisation);
+  });
+
+  it('says when no layout carries the load', () => {
+    const design = designBearer({ ...makeProfile(), profileHeight: 200, length: 20000, kpaRating: '5.0' }, 1);
+    expect(design.recommendation).toBeUndefined();
+    expect(describeBearerRecommendation(design)).toMatch(/^No bearer carries the load/);
+  });
+});
@@ -0,0 +1,265 @@
+import { PointLoad, ProfileData } from '@/types/form-types';
+import { SectionProperties, STEEL } from './section-properties';
+import {
+  CapacityCheck,
+  DESIGN_BASIS,
+  capacityCheck,
+  getBendingCapacity,
+  getGoverningCheck,
+  getMemberLoads,
+  getMemberSection,
+} from './structural-capacity';
+import { getJoistPositions, getPostPositions } from './platform-schedule';
+
+/**
+ * Bearer Design
+ * Checks a bearer line under the joists it carries. Each joist bears on the bearer with half
+ * the load on its span, taken over the width of floor between its neighbours. Posts split the
+ * bearer into bays, each checked as simply supported between its posts - on the safe side for
+ * a bearer running continuous over a post - and any length past an end post as a cantilever.
+ * Point loads on the bearer are carried with the joists, split into dead and live the same way.
+ */
+
+export interface JoistReaction {
+  position: number; // Along the bearer
+  dead: number; // Service loads in kN
+  live: number;
+}
+
+export interface BearerSegment {
+  kind: 'bay' | 'cantilever';
+  from: number;
+  to: number;
+  checks: CapacityCheck[]; // Bending and deflection
+  governing: CapacityCheck;
+}
+
+export interface BearerCheckInput {
+  profileType: ProfileData['profileType'];
+  profileHeight: number;
+  holeType: string;
+  length: number;
+  posts: number[];
+  reactions: JoistReaction[];
+  pointLoads?: PointLoad[];
+}
+
+export interface BearerCheck {
+  profileType: ProfileData['profileType'];
+  section: SectionProperties;
+  posts: number[];
+  reactions: JoistReaction[];
+  segments: BearerSegment[];
+  governing: BearerSegment;
+  passes: boolean;
+}
+
+// Smallest change to the bearer that carries the load
+export interface BearerRecommendation {
+  profileType: ProfileData['profileType'];
+  bays: number;
+}
+
+export interface BearerDesign extends BearerCheck {
+  bays: number;
+  recommendation?: BearerRecommendation; // Only when the bearer fails
+}
+
+// Points along each segment the moment and deflection are worked out at, besides the loads
+const SAMPLE_POINTS = 40;
+
+// Posts added at most when looking for a layout that passes
+const MAX_ADDED_POSTS = 6;
+
+const JOIST_HOLE_TYPE = '200mm';
+
+// Strength combinations - dead only, and dead plus live
+const STRENGTH_FACTORS: Array<[dead: number, live: number]> = [
+  [DESIGN_BASIS.deadOnlyFactor, 0],
+  [DESIGN_BASIS.deadFactor, DESIGN_BASIS.liveFactor],
+];
+
+type SegmentLoad = { at: number; load: number }; // N, measured from the segment's support
+
+/**
+ * Reactions of the joists on one bearer line. Each joist carries the floor halfway to its
+ * neighbours, and the bearer takes half of it - the other half goes to the opposite bearer.
+ */
+export function getJoistReactions(
+  joistPositions: number[],
+  joistSpan: number,
+  joistProfileType: ProfileData['profileType'],
+  profileHeight: number,
+  kpa: number
+): JoistReaction[] {
+  const positions = [...new Set(joistPositions)].sort((a, b) => a - b);
+  const section = getMemberSection({ profileType: joistProfileType, profileHeight, holeType: JOIST_HOLE_TYPE });
+
+  return positions.map((position, index) => {
+    const before = index > 0 ? position - positions[index - 1] : 0;
+    const after = index < positions.length - 1 ? positions[index + 1] - position : 0;
+    const loads = getMemberLoads(section, (before + after) / 2, kpa);
+    return {
+      position,
+      dead: (loads.dead * joistSpan) / 2 / 1000,
+      live: (loads.live * joistSpan) / 2 / 1000,
+    };
+  });
+}
+
+const samplePoints = (span: number, loads: SegmentLoad[]) => [
+  ...Array.from({ length: SAMPLE_POINTS + 1 }, (_, i) => (span * i) / SAMPLE_POINTS),
+  ...loads.map(load => load.at),
+];
+
+// Largest moment (N·mm) in a simply supported bay under point loads and a uniform load (N/mm)
+const bayMoment = (span: number, loads: SegmentLoad[], uniform: number): number => {
+  const leftReaction = loads.reduce((sum, { at, load }) => sum + (load * (span - at)) / span, 0) + (uniform * span) / 2;
+  const momentAt = (x: number) => leftReaction * x
+    - loads.reduce((sum, { at, load }) => sum + (at < x ? load * (x - at) : 0), 0)
+    - (uniform * x * x) / 2;
+  return Math.max(...samplePoints(span, loads).map(x => Math.abs(momentAt(x))));
+};
+
+// Largest deflection (mm) in a simply supported bay
+const bayDeflection = (span: number, loads: SegmentLoad[], uniform: number, stiffness: number): number => {
+  const deflectionAt = (x: number) => loads.reduce((sum, { at, load }) => {
+    const beyond = span - at;
+    return sum + (x <= at
+      ? (load * beyond * x * (span * span - beyond * beyond - x * x)) / (6 * span * stiffness)
+      : (load * at * (span - x) * (span * span - at * at - (span - x) ** 2)) / (6 * span * stiffness));
+  }, (uniform * x * (span ** 3 - 2 * span * x * x + x ** 3)) / (24 * stiffness));
+  return Math.max(...samplePoints(span, loads).map(deflectionAt));
+};
+
+// Moment (N·mm) at the post and deflection (mm) at the tip of a cantilever - the rotation of the
+// bay behind the post is left out
+const cantileverActions = (overhang: number, loads: SegmentLoad[], uniform: number, stiffness: number) => ({
+  moment: loads.reduce((sum, { at, load }) => sum + load * at, 0) + (uniform * overhang * overhang) / 2,
+  deflection: loads.reduce((sum, { at, load }) => sum + (load * at * at * (3 * overhang - at)) / (6 * stiffness), 0)
+    + (uniform * overhang ** 4) / (8 * stiffness),
+});
+
+/**
+ * Check a bearer between its posts under the joist reactions and point loads it carries
+ */
+export function checkBearer(input: BearerCheckInput): BearerCheck {
+  const section = getMemberSection(input);
+  const stiffness = STEEL.elasticModulus * section.secondMoment;
+  const bendingCapacity = getBendingCapacity(section);
+  const posts = [...new Set(input.posts)].sort((a, b) => a - b);
+
+  // Point loads bear on the bearer as the joists do
+  const loads: JoistReaction[] = [
+    ...input.reactions,
+    ...(input.pointLoads ?? []).map(({ position, dead, load }) => ({ position, dead: dead ?? 0, live: load })),
+  ];
+
+  // Loads inside a segment, in N measured from the segment's post
+  const loadsWithin = (from: number, to: number, origin: number, factor: (reaction: JoistReaction) => number): SegmentLoad[] =>
+    loads
+      .filter(reaction => reaction.position > from && reaction.position < to)
+      .map(reaction => ({ at: Math.abs(reaction.position - origin), load: factor(reaction) * 1000 }));
+  const serviceLoad = (reaction: JoistReaction) => reaction.dead + reaction.live;
+
+  const segment = (kind: BearerSegment['kind'], from: number, to: number, moment: number, deflection: number): BearerSegment => {
+    const length = to - from;
+    const limit = kind === 'bay' ? DESIGN_BASIS.deflectionLimit : DESIGN_BASIS.cantileverDeflectionLimit;
+    const checks = [
+      capacityCheck('bending', 'kNm', moment / 1e6, bendingCapacity),
+      capacityCheck('deflection', 'mm', deflection, length / limit),
+    ];
+    return { kind, from, to, checks, governing: getGoverningCheck(checks) };
+  };
+
+  const bays = posts.slice(1).map((to, index) => {
+    const from = posts[index];
+    const span = to - from;
+    const moment = Math.max(...STRENGTH_FACTORS.map(([dead, live]) =>
+      bayMoment(span, loadsWithin(from, to, from, reaction => dead * reaction.dead + live * reaction.live), dead * section.selfWeight)
+    ));
+    const deflection = bayDeflection(span, loadsWithin(from, to, from, serviceLoad), section.selfWeight, stiffness);
+    return segment('bay', from, to, moment, deflection);
+  });
+
+  // Bearer run past an end post - the joist at the tip, and any point load out there, included
+  const cantilever = (from: number, to: number, post: number): BearerSegment[] => {
+    const overhang = to - from;
+    if (overhang <= 0) return [];
+    const moment = Math.max(...STRENGTH_FACTORS.map(([dead, live]) =>
+      cantileverActions(overhang, loadsWithin(from - 1, to + 1, post, reaction => dead * reaction.dead + live * reaction.live), dead * section.selfWeight, stiffness).moment
+    ));
+    const { deflection } = cantileverActions(overhang, loadsWithin(from - 1, to + 1, post, serviceLoad), section.selfWeight, stiffness);
+    return [segment('cantilever', from, to, moment, deflection)];
+  };
+
+  const first = posts[0];
+  const last = posts[posts.length - 1];
+  const segments = [...cantilever(0, first, first), ...bays, ...cantilever(last, input.length, last)];
+  const governing = segments.reduce((worst, current) =>
+    current.governing.utilisation > worst.governing.utilisation ? current : worst
+  );
+
+  return {
+    profileType: input.profileType,
+    section,
+    posts,
+    reactions: input.reactions,
+    segments,
+    governing,
+    passes: governing.governing.utilisation <= 1,
+  };
+}
+
+/**
+ * Check a bearer under the joists of its platform and its own point loads, with posts at each end and every bay
+ * division, and find the smallest change that passes when it fails: a box bearer on the same
+ * posts, then more posts, then both.
+ */
+export function designBearer(bearer: ProfileData, bays: number): BearerDesign {
+  const joistPositions = [0, ...getJoistPositions(bearer.length, bearer.joistSpacing, bearer.screensEnabled), bearer.length];
+  const reactions = getJoistReactions(
+    joistPositions,
+    bearer.joistLength ?? 0,
+    bearer.joistBox ? 'Joist Box' : 'Joist Single',
+    bearer.profileHeight,
+    Number(bearer.kpaRating || '2.5')
+  );
+
+  const checkLayout = (profileType: ProfileData['profileType'], bayCount: number) => checkBearer({
+    profileType,
+    profileHeight: bearer.profileHeight,
+    holeType: bearer.holeType,
+    length: bearer.length,
+    posts: getPostPositions(bearer.length, bayCount),
+    reactions,
+    pointLoads: bearer.pointLoads,
+  });
+
+  const bayCount = Math.max(1, Math.round(bays));
+  const result = checkLayout(bearer.profileType, bayCount);
+  if (result.passes) return { ...result, bays: bayCount };
+
+  const candidates: BearerRecommendation[] = [
+    ...(bearer.profileType === 'Bearer Single' ? [{ profileType: 'Bearer Box' as const, bays: bayCount }] : []),
+    ...Array.from({ length: MAX_ADDED_POSTS }, (_, i) => ({ profileType: bearer.profileType, bays: bayCount + i + 1 })),
+    ...(bearer.profileType === 'Bearer Single'
+      ? Array.from({ length: MAX_ADDED_POSTS }, (_, i) => ({ profileType: 'Bearer Box' as const, bays: bayCount + i + 1 }))
+      : []),
+  ];
+  const recommendation = candidates.find(candidate => checkLayout(candidate.profileType, candidate.bays).passes);
+
+  return { ...result, bays: bayCount, recommendation };
+}
+
+export const describeBearerRecommendation = (design: BearerDesign): string | undefined => {
+  const { recommendation } = design;
+  if (design.passes) return undefined;
+  if (!recommendation) return `No bearer carries the load with up to ${MAX_ADDED_POSTS} more posts - reduce the joist span or kPa rating`;
+
+  const addedPosts = recommendation.bays - design.bays;
+  const posts = addedPosts > 0 ? `add ${addedPosts} post${addedPosts > 1 ? 's' : ''} (${recommendation.bays} bays)` : '';
+  const switchType = recommendation.profileType !== design.profileType ? `switch to ${recommendation.profileType}` : '';
+  const action = [switchType, posts].filter(Boolean).join(' and ');
+  return action.charAt(0).toUpperCase() + action.slice(1);
+};
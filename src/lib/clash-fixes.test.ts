@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { Punch } from '@/types/manufacturing';
+import { ClashIssue } from './clash-detection';
+import { getGeneratedPunches } from './punch-overrides';
+import { applyFixEdits, checkPunches, getCheckedFixes, isSafeFix, suggestFixes } from './clash-fixes';
+
+const issue = (overrides: Partial<ClashIssue>): ClashIssue => ({
+  ruleId: 'test-rule',
+  type: 'clearance',
+  profileHeight: 350,
+  position: 0,
+  element1: '',
+  element2: '',
+  issue: 'Test issue',
+  severity: 'error',
+  punches: [],
+  ...overrides,
+});
+
+describe('suggestFixes', () => {
+  it('moves either punch clear of the other or deletes the second', () => {
+    const fixes = suggestFixes(issue({
+      punches: [{ type: 'WEB TAB', position: 600 }, { type: 'M SERVICE HOLE', position: 660 }],
+      requiredDistance: 115.25,
+    }), 5200);
+
+    expect(fixes.map(fix => fix.description)).toEqual([
+      'Move M SERVICE HOLE 660 → 715.5mm',
+      'Move WEB TAB 600 → 544.5mm',
+      'Delete M SERVICE HOLE @ 660mm',
+    ]);
+  });
+
+  it('adds the bolt hole a web tab is missing', () => {
+    const fixes = suggestFixes(issue({ type: 'alignment', punches: [{ type: 'WEB TAB', position: 600 }], expectedPosition: 570.5 }), 5200);
+    expect(fixes[0].edits).toEqual([{ kind: 'add', punch: { type: 'BOLT HOLE', position: 570.5 } }]);
+  });
+
+  it('adds a punch in a gap wide enough for one', () => {
+    const fixes = suggestFixes(issue({
+      punches: [{ type: 'WEB TAB', position: 600 }, { type: 'WEB TAB', position: 1800 }],
+      expectedPosition: 1200,
+    }), 5200);
+    expect(fixes.map(fix => fix.description)).toEqual(['Add WEB TAB @ 1200mm', 'Move WEB TAB 1800 → 1200mm']);
+  });
+
+  it('stiffens the web under a point load', () => {
+    const fixes = suggestFixes(issue({ type: 'web-bearing', expectedPosition: 2500 }), 5200);
+    expect(fixes[0].edits).toEqual([{ kind: 'add', punch: { type: 'SERVICE', position: 2500 } }]);
+  });
+
+  it('never moves a punch off the profile', () => {
+    const fixes = suggestFixes(issue({ punches: [{ type: 'BOLT HOLE', position: 5190 }], expectedPosition: 5230 }), 5200);
+    expect(fixes.map(fix => fix.description)).toEqual(['Delete BOLT HOLE @ 5190mm']);
+  });
+
+  it('has nothing for issues that are not down to punches', () => {
+    expect(suggestFixes(issue({ type: 'span-limit', position: null }), 5200)).toEqual([]);
+  });
+});
+
+describe('applyFixEdits', () => {
+  it('adds, deletes and moves punches', () => {
+    const punches: Punch[] = [{ type: 'DIMPLE', position: 100, active: true }, { type: 'DIMPLE', position: 200, active: true }];
+    const edited = applyFixEdits(punches, [
+      { kind: 'delete', target: { type: 'DIMPLE', position: 100 } },
+      { kind: 'move', target: { type: 'DIMPLE', position: 200 }, position: 250 },
+      { kind: 'add', punch: { type: 'BOLT HOLE', position: 30 } },
+    ], punch => ({ ...punch, active: true }));
+
+    expect(edited).toEqual([{ type: 'DIMPLE', position: 250, active: true }, { type: 'BOLT HOLE', position: 30, active: true }]);
+  });
+});
+
+describe('getCheckedFixes', () => {
+  const profileData = makeProfile();
+  const generated = getGeneratedPunches(profileData, makeExportData());
+  const tab = generated.find(punch => punch.type === 'WEB TAB')!;
+  const punches: Punch[] = [...generated, { type: 'M SERVICE HOLE', position: tab.position + 60, active: true }];
+  const { result } = checkPunches(profileData, punches);
+  const clash = result.issues.find(found => found.ruleId === 'web-tab-service-clearance')!;
+
+  it('re-checks each fix against the whole program', () => {
+    const checked = getCheckedFixes(profileData, punches, result.issues, clash);
+    expect(checked.length).toBeGreaterThan(0);
+    checked.forEach(({ check }) => {
+      expect(check.resolved).toBe(true);
+      expect(check.result.issues.map(found => found.ruleId)).not.toContain('web-tab-service-clearance');
+    });
+  });
+
+  it('lists fixes that clear the issue without new ones first', () => {
+    const checked = getCheckedFixes(profileData, punches, result.issues, clash);
+    const safe = checked.map(({ check }) => isSafeFix(check));
+    expect(safe).toEqual([...safe].sort((a, b) => Number(b) - Number(a)));
+  });
+});
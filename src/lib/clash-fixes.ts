@@ -0,0 +1,160 @@
+import { ProfileData } from '@/types/form-types';
+import { Punch, PunchRef } from '@/types/manufacturing';
+import { ClashDetectionResult, ClashIssue, detectClashes, getIssueFingerprint } from './clash-detection';
+import { NCFileGenerator } from './nc-generator';
+import { getPunchKey } from './punch-overrides';
+import { roundHalf } from './utils/manufacturing';
+
+/**
+ * Clash Fixes
+ * Concrete punch edits that would clear a clash issue, e.g. moving a service hole clear of a
+ * web tab or adding the bolt hole a web tab is missing. Every fix is re-checked against the
+ * whole program before it can be applied, so it can't trade one clash for another.
+ */
+
+export type ClashFixEdit =
+  | { kind: 'add'; punch: PunchRef }
+  | { kind: 'delete'; target: PunchRef }
+  | { kind: 'move'; target: PunchRef; position: number };
+
+export interface ClashFix {
+  id: string;
+  description: string;
+  edits: ClashFixEdit[];
+}
+
+export interface ClashFixCheck {
+  punches: Punch[]; // Program with the fix applied
+  result: ClashDetectionResult;
+  resolved: boolean; // The issue is gone
+  newIssues: ClashIssue[]; // Issues the fix would introduce
+}
+
+export interface CheckedClashFix {
+  fix: ClashFix;
+  check: ClashFixCheck;
+}
+
+// A web tab gap this many times the expected spacing takes an extra tab rather than a moved one
+const MISSING_TAB_RATIO = 1.5;
+
+const describe = (punch: PunchRef) => `${punch.type} @ ${punch.position}mm`;
+
+// Half millimetre at or beyond a position, in the direction of travel
+const roundAway = (position: number, direction: number) =>
+  direction > 0 ? Math.ceil(position * 2) / 2 : Math.floor(position * 2) / 2;
+
+const samePunch = (punch: PunchRef, ref: PunchRef) => getPunchKey(punch) === getPunchKey(ref);
+
+/**
+ * Candidate fixes for an issue. Issues that aren't down to punch positions (span limits,
+ * tooling) have none; a point load the web can't carry takes a SERVICE stub beneath it.
+ */
+export function suggestFixes(issue: ClashIssue, profileLength: number): ClashFix[] {
+  const candidates: Array<Omit<ClashFix, 'id'>> = [];
+  const last = issue.punches[issue.punches.length - 1];
+  const onProfile = (position: number) => position >= 0 && position <= profileLength;
+
+  const move = (target: PunchRef, position: number) => {
+    if (!onProfile(position) || position === target.position) return;
+    candidates.push({
+      description: `Move ${target.type} ${target.position} → ${position}mm`,
+      edits: [{ kind: 'move', target, position }],
+    });
+  };
+
+  if (issue.type === 'web-bearing' && issue.expectedPosition !== undefined && !last) {
+    // The web needs a stiffener under the load
+    const punch: PunchRef = { type: 'SERVICE', position: issue.expectedPosition };
+    candidates.push({
+      description: `Add ${describe(punch)} to stiffen the web`,
+      edits: [{ kind: 'add', punch }],
+    });
+  } else if (issue.type === 'alignment' && issue.expectedPosition !== undefined && last) {
+    // The web tab is missing its bolt hole
+    const punch: PunchRef = { type: 'BOLT HOLE', position: issue.expectedPosition };
+    candidates.push({
+      description: `Add ${describe(punch)} for ${describe(last)}`,
+      edits: [{ kind: 'add', punch }],
+    });
+  } else if (issue.requiredDistance !== undefined && issue.punches.length === 2) {
+    // Move either punch just clear of the other, or drop the second
+    const [first, second] = issue.punches;
+    const required = issue.requiredDistance;
+    [[second, first], [first, second]].forEach(([moving, fixed]) => {
+      const direction = moving.position >= fixed.position ? 1 : -1;
+      move(moving, roundAway(fixed.position + direction * required, direction));
+    });
+    candidates.push({ description: `Delete ${describe(second)}`, edits: [{ kind: 'delete', target: second }] });
+  } else if (issue.expectedPosition !== undefined && last) {
+    const first = issue.punches[0];
+    const expectedGap = issue.expectedPosition - first.position;
+    if (issue.punches.length === 2 && first.type === last.type && last.position - first.position >= expectedGap * MISSING_TAB_RATIO) {
+      // Gap wide enough for another punch between the two
+      const punch: PunchRef = { type: last.type, position: roundHalf((first.position + last.position) / 2) };
+      candidates.push({ description: `Add ${describe(punch)}`, edits: [{ kind: 'add', punch }] });
+    }
+    move(last, issue.expectedPosition);
+    if (issue.punches.length === 1) {
+      candidates.push({ description: `Delete ${describe(last)}`, edits: [{ kind: 'delete', target: last }] });
+    }
+  }
+
+  const fingerprint = getIssueFingerprint(issue);
+  return candidates.map((candidate, index) => ({ ...candidate, id: `${fingerprint}#${index}` }));
+}
+
+/**
+ * Apply a fix's edits to a punch list, making added punches with create
+ */
+export function applyFixEdits<T extends PunchRef>(punches: T[], edits: ClashFixEdit[], create: (punch: PunchRef) => T): T[] {
+  return edits.reduce<T[]>((result, edit) => {
+    switch (edit.kind) {
+      case 'add':
+        return [...result, create(edit.punch)];
+      case 'delete':
+        return result.filter(punch => !samePunch(punch, edit.target));
+      case 'move':
+        return result.map(punch => (samePunch(punch, edit.target) ? { ...punch, position: edit.position } : punch));
+    }
+  }, punches);
+}
+
+/**
+ * Run clash detection on an edited program the way the app would load it as manual punches
+ */
+export function checkPunches(profileData: ProfileData, punches: Punch[]): { punches: Punch[]; result: ClashDetectionResult } {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, { quantity: 1, programName: '' });
+  generator.setManualPunches(punches, profileData.profileType);
+  return { punches: generator.getPunches(), result: detectClashes(generator.getCalculations(), profileData) };
+}
+
+/**
+ * Re-check the program with a fix applied: whether the issue clears and what it would break
+ */
+export function checkFix(profileData: ProfileData, punches: Punch[], issues: ClashIssue[], issue: ClashIssue, fix: ClashFix): ClashFixCheck {
+  const edited = applyFixEdits(punches, fix.edits, punch => ({ ...punch, active: true }));
+  const checked = checkPunches(profileData, edited);
+
+  const before = new Set(issues.map(getIssueFingerprint));
+  const target = getIssueFingerprint(issue);
+  const after = checked.result.issues.map(getIssueFingerprint);
+
+  return {
+    ...checked,
+    resolved: !after.includes(target),
+    newIssues: checked.result.issues.filter((_, index) => !before.has(after[index])),
+  };
+}
+
+export const isSafeFix = (check: ClashFixCheck) => check.resolved && check.newIssues.length === 0;
+
+/**
+ * Fixes for an issue with their re-checks, safe fixes first
+ */
+export function getCheckedFixes(profileData: ProfileData, punches: Punch[], issues: ClashIssue[], issue: ClashIssue): CheckedClashFix[] {
+  return suggestFixes(issue, profileData.length)
+    .map(fix => ({ fix, check: checkFix(profileData, punches, issues, issue, fix) }))
+    .sort((a, b) => Number(isSafeFix(b.check)) - Number(isSafeFix(a.check)));
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import { ProfileData } from '@/types/form-types';
+import { Punch } from '@/types/manufacturing';
+import { detectClashes } from './clash-detection';
+import { FactoryProfile } from './factory-profiles';
+import { NCFileGenerator } from './nc-generator';
+import { getGeneratedPunches } from './punch-overrides';
+import { CLASH_RULES, ClashRuleContext, describeApplicability, getClashRule, ruleApplies } from './clash-rules';
+import { DEFAULT_TOOLING_LIBRARY } from './tooling-library';
+import { getHoleTypeFitError } from './validation';
+
+const standard: FactoryProfile = { id: 'standard', name: 'Standard', rules: {} };
+
+// Bearer program with an extra bolt hole 45mm from the start, past the end bolt zone
+const withStrayBolt = () => {
+  const profileData = makeProfile();
+  const punches: Punch[] = [...getGeneratedPunches(profileData, makeExportData()), { type: 'BOLT HOLE', position: 45, active: true }];
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, makeExportData());
+  generator.setManualPunches(punches);
+  return { profileData, calculations: generator.getCalculations() };
+};
+
+const endClearanceIssues = (factoryProfile: FactoryProfile) => {
+  const { profileData, calculations } = withStrayBolt();
+  return detectClashes(calculations, profileData, factoryProfile).issues.filter(issue => issue.ruleId === 'bolt-end-clearance');
+};
+
+const contextFor = (profileData = makeProfile()): ClashRuleContext => ({
+  calculations: new NCFileGenerator().getCalculations(),
+  profileData,
+  profileLength: profileData.length,
+  isBearer: profileData.profileType.startsWith('Bearer'),
+  isJoist: profileData.profileType.startsWith('Joist'),
+  toolingLibrary: DEFAULT_TOOLING_LIBRARY,
+  flangePunches: [],
+  facePunches: [],
+});
+
+describe('CLASH_RULES', () => {
+  it('gives every rule its own id', () => {
+    const ids = CLASH_RULES.map(rule => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(getClashRule('web-face-overlap')?.name).toBe('Web face overlap');
+  });
+
+  it('runs each rule with its defaults for parameters left unset', () => {
+    const { profileData, calculations } = withStrayBolt();
+    const rule = getClashRule('bolt-end-clearance')!;
+    const context = { ...contextFor(profileData), calculations, profileLength: profileData.length };
+
+    expect(rule.check(context, {})).toHaveLength(1);
+    expect(rule.check(context, { minClearance: 40 })).toHaveLength(0);
+  });
+});
+
+describe('detectClashes with a factory profile', () => {
+  it('reports a rule at its default severity', () => {
+    const issues = endClearanceIssues(standard);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'error', expectedPosition: 50 });
+  });
+
+  it('leaves out disabled rules', () => {
+    expect(endClearanceIssues({ ...standard, rules: { 'bolt-end-clearance': { enabled: false } } })).toEqual([]);
+  });
+
+  it('applies the configured severity and parameters', () => {
+    expect(endClearanceIssues({ ...standard, rules: { 'bolt-end-clearance': { severity: 'warning' } } })[0].severity).toBe('warning');
+    expect(endClearanceIssues({ ...standard, rules: { 'bolt-end-clearance': { params: { minClearance: 40 } } } })).toEqual([]);
+  });
+});
+
+describe('detectClashes on default jobs', () => {
+  const errorsOn = (profileData: ProfileData) => {
+    const generator = new NCFileGenerator();
+    generator.updateCalculations(null, profileData, makeExportData());
+    return detectClashes(generator.getCalculations(), profileData, standard, DEFAULT_TOOLING_LIBRARY).issues
+      .filter(issue => issue.severity === 'error');
+  };
+
+  it.each([200, 250, 300, 350])('raises no errors on a default bearer %imm high', profileHeight => {
+    expect(errorsOn({ ...makeProfile(), profileHeight })).toEqual([]);
+  });
+
+  it.each([200, 250, 300, 350])('raises no errors on a default joist %imm high', profileHeight => {
+    // The form only offers hole types that fit the web
+    const holeType = getHoleTypeFitError('200mm', profileHeight) ? '115 Round' : '200mm';
+    expect(errorsOn({ ...makeJoist(), profileHeight, holeType })).toEqual([]);
+  });
+
+  it('reports a stub punched over a web tab', () => {
+    const profileData = makeProfile();
+    const generator = new NCFileGenerator();
+    generator.updateCalculations(null, profileData, makeExportData());
+    generator.setManualPunches([...getGeneratedPunches(profileData, makeExportData()), { type: 'SERVICE', position: 600, active: true }]);
+    const overlaps = detectClashes(generator.getCalculations(), profileData, standard, DEFAULT_TOOLING_LIBRARY).issues
+      .filter(issue => issue.ruleId === 'web-face-overlap');
+
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0]).toMatchObject({ severity: 'error', requiredDistance: 90 });
+    expect(overlaps[0].punches).toEqual(expect.arrayContaining([{ type: 'WEB TAB', position: 600 }, { type: 'SERVICE', position: 600 }]));
+  });
+
+  it('fails a point load heavier than the SERVICE stub under it carries', () => {
+    const profileData = { ...makeProfile(), pointLoads: [{ position: 2000, load: 200, bearingLength: 100 }] };
+    const generator = new NCFileGenerator();
+    generator.updateCalculations(null, profileData, makeExportData());
+    generator.setManualPunches([...getGeneratedPunches(profileData, makeExportData()), { type: 'SERVICE', position: 2100, active: true }]);
+    const bearing = detectClashes(generator.getCalculations(), profileData, standard, DEFAULT_TOOLING_LIBRARY).issues
+      .filter(issue => issue.ruleId === 'point-load-bearing');
+
+    expect(bearing.map(issue => issue.severity).sort()).toEqual(['error', 'warning']);
+    expect(bearing.find(issue => issue.severity === 'error')!.issue).toMatch(/the SERVICE stub at 2100mm carries/);
+    expect(bearing.find(issue => issue.severity === 'warning')!.punches).toEqual([{ type: 'WEB TAB', position: 1800 }]);
+  });
+});
+
+describe('ruleApplies', () => {
+  it('runs member rules only on their members', () => {
+    const rule = getClashRule('bearer-dimple-pattern')!;
+    expect(ruleApplies(rule, contextFor())).toBe(true);
+    expect(ruleApplies(rule, contextFor(makeJoist()))).toBe(false);
+  });
+
+  it('describes where a rule applies', () => {
+    expect(describeApplicability({})).toBe('all profiles');
+    expect(describeApplicability({ members: ['joist'], screens: true })).toBe('joists, Screens only');
+  });
+});
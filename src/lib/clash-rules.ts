@@ -0,0 +1,820 @@
+import { NCCalculations, ProfileData, PunchStationType } from '@/types/form-types';
+import { PunchRef } from '@/types/manufacturing';
+import type { ClashIssue, ClashSeverity, ClashType } from './clash-detection';
+import { getPunchDimensions, getVisualDimensions } from './punch-dimensions';
+import { MANUFACTURING_CONSTANTS } from './constants';
+import { ToolingLibrary, getActiveMachine } from './tooling-library';
+import { roundHalf } from './utils/manufacturing';
+import { FLANGE_BEND_DEPTH, fitsProfileHeight, getStationHeightRange, getWebPunchShape } from './profile-geometry';
+import { getRequiredSeparation, getShapeExtent, getShapeGap } from './shape-clearance';
+import { CAPACITY_CHECK_NAMES } from './structural-capacity';
+import { getJoistSpanLimit, getMaxSpan } from './span-table';
+import { describeStandard, getActiveStandard } from './span-table-library';
+import { checkPointLoads, describePointLoad, getClearPosition } from './web-bearing';
+
+/**
+ * Clash Rules
+ * Registry of the manufacturing checks run by clash detection. Each rule has a stable id
+ * that reports and suppressions reference, a default severity, the tolerances it checks
+ * against as parameters, and the profiles it applies to. Factory profiles can switch rules
+ * off or change their severity and parameters.
+ */
+
+export interface ClashRuleParameter {
+  label: string;
+  unit: 'mm' | '%';
+  default: number;
+}
+
+// Conditions a profile must meet for the rule to run - unset means any
+export interface ClashRuleApplicability {
+  members?: Array<'bearer' | 'joist'>;
+  screens?: boolean;
+  joistBox?: boolean;
+}
+
+type RulePunch = { position: number; type: string; active: boolean };
+
+export interface ClashRuleContext {
+  calculations: NCCalculations;
+  profileData: ProfileData;
+  profileLength: number;
+  isBearer: boolean;
+  isJoist: boolean;
+  toolingLibrary: ToolingLibrary; // Stations the program is checked against
+  flangePunches: RulePunch[]; // Bolt holes and dimples
+  facePunches: RulePunch[]; // Web tabs, service holes and stubs
+}
+
+// An issue as a rule reports it - the engine adds the rule id, type, web height and configured severity
+export type ClashRuleFinding = Omit<ClashIssue, 'ruleId' | 'type' | 'profileHeight' | 'severity'> & {
+  severity?: ClashSeverity; // Only when the finding escalates past the rule's severity
+};
+
+export interface ClashRule<P extends string = string> {
+  id: string;
+  name: string;
+  description: string;
+  type: ClashType;
+  severity: ClashSeverity;
+  parameters: Record<P, ClashRuleParameter>;
+  appliesTo: ClashRuleApplicability;
+  check: (context: ClashRuleContext, params: Record<P, number>) => ClashRuleFinding[];
+}
+
+// A rule's parameters from the configured values, falling back to each parameter's default
+const resolveParams = <P extends string>(parameters: Record<P, ClashRuleParameter>, params: Record<string, number>) => {
+  const resolved = {} as Record<P, number>;
+  for (const key in parameters) {
+    resolved[key] = params[key] ?? parameters[key].default;
+  }
+  return resolved;
+};
+
+// Keeps each rule's parameter names checked against its own check function, which only ever
+// sees its own parameters
+const defineRule = <P extends string>(rule: ClashRule<P>): ClashRule => ({
+  ...rule,
+  check: (context, params) => rule.check(context, resolveParams(rule.parameters, params)),
+});
+
+const toPunchRef = (punch: { type: string; position: number }): PunchRef => ({
+  type: punch.type as PunchStationType,
+  position: punch.position,
+});
+
+const active = <T extends RulePunch>(punches: T[]) => punches.filter(punch => punch.active);
+
+const byPosition = <T extends RulePunch>(punches: T[]) => [...punches].sort((a, b) => a.position - b.position);
+
+// Get clearance distance needed for a punch type along the profile length
+function getClearanceDistance(punchType: string): number {
+  const dimensions = getVisualDimensions(punchType);
+
+  // Against the profile ends only WIDTH matters - web face punches are compared with each
+  // other as outlines at their heights on the web (see getWebPunchShape)
+  // For round punches, width = height = diameter, so either works
+  return dimensions.width / 2;
+}
+
+const describeSize = (type: string) => {
+  const dims = getPunchDimensions(type);
+  return dims?.diameter ? `Ø${dims.diameter}mm` : dims ? `${dims.width}×${dims.height}mm` : type;
+};
+
+// Web face punches compared as outlines, with the gap between them and the centre-to-centre
+// distance along the profile that would give minGap
+const compareWebPunches = (a: RulePunch, b: RulePunch, webHeight: number, minGap: number) => {
+  const shapeA = getWebPunchShape(a.type, a.position, webHeight);
+  const shapeB = getWebPunchShape(b.type, b.position, webHeight);
+  // Too far apart along the profile to come within minGap at any height
+  if (Math.abs(a.position - b.position) >= (shapeA.width + shapeB.width) / 2 + minGap) return null;
+
+  const gap = getShapeGap(shapeA, shapeB);
+  if (gap >= minGap) return null;
+  return { gap, requiredDistance: Math.ceil(getRequiredSeparation(shapeA, shapeB, minGap) * 2) / 2 };
+};
+
+// Slack (mm) when an outline sits exactly at a limit
+const GEOMETRY_TOLERANCE = 1e-6;
+
+const describeGap = (gap: number) => (gap === 0 ? 'outlines overlap' : `${gap.toFixed(1)}mm between edges`);
+
+const boltEndClearance = defineRule({
+  id: 'bolt-end-clearance',
+  name: 'Bolt hole end clearance',
+  description: 'Bolt holes other than the end bolts must stay clear of the profile ends',
+  type: 'clearance',
+  severity: 'error',
+  parameters: {
+    minClearance: { label: 'Minimum clearance', unit: 'mm', default: MANUFACTURING_CONSTANTS.MIN_CLEARANCE },
+    endBoltZone: { label: 'End bolt zone', unit: 'mm', default: 35 },
+  },
+  appliesTo: {},
+  check: ({ calculations, profileLength }, { minClearance, endBoltZone }) => {
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.boltHoles).forEach(bolt => {
+      // End bolts (at ~30mm) are meant to be there
+      if (bolt.position <= endBoltZone || bolt.position >= profileLength - endBoltZone) return;
+
+      if (bolt.position < minClearance) {
+        findings.push({
+          position: bolt.position,
+          element1: 'Bolt Hole (11mm)',
+          element2: 'Profile Start',
+          issue: `Bolt hole within ${minClearance}mm of profile end (conflicts with ${MANUFACTURING_CONSTANTS.END_BOLT_POSITION}mm end bolt)`,
+          punches: [toPunchRef(bolt)],
+          expectedPosition: minClearance,
+        });
+      }
+      if (bolt.position > profileLength - minClearance) {
+        findings.push({
+          position: bolt.position,
+          element1: 'Bolt Hole (11mm)',
+          element2: 'Profile End',
+          issue: `Bolt hole within ${minClearance}mm of profile end (conflicts with end bolt at ${profileLength - MANUFACTURING_CONSTANTS.END_BOLT_POSITION}mm)`,
+          punches: [toPunchRef(bolt)],
+          expectedPosition: profileLength - minClearance,
+        });
+      }
+    });
+    return findings;
+  },
+});
+
+const webTabEndClearance = defineRule({
+  id: 'web-tab-end-clearance',
+  name: 'Web tab end clearance',
+  description: 'Web tabs must lie wholly on the profile',
+  type: 'clearance',
+  severity: 'error',
+  parameters: {
+    clearance: { label: 'Centre to end', unit: 'mm', default: MANUFACTURING_CONSTANTS.WEB_TAB_CLEARANCE },
+  },
+  appliesTo: {},
+  check: ({ calculations, profileLength }, { clearance }) => {
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.webHoles).forEach(webTab => {
+      if (webTab.position < clearance) {
+        findings.push({
+          position: webTab.position,
+          element1: 'Web Tab (45mm wide)',
+          element2: 'Profile Start',
+          issue: `Web tab edge extends beyond profile start (center at ${webTab.position}mm, needs ≥${clearance}mm)`,
+          punches: [toPunchRef(webTab)],
+          expectedPosition: clearance,
+        });
+      }
+      if (webTab.position > profileLength - clearance) {
+        findings.push({
+          position: webTab.position,
+          element1: 'Web Tab (45mm wide)',
+          element2: 'Profile End',
+          issue: `Web tab edge extends beyond profile end (center at ${webTab.position}mm, needs ≤${profileLength - clearance}mm)`,
+          punches: [toPunchRef(webTab)],
+          expectedPosition: profileLength - clearance,
+        });
+      }
+    });
+    return findings;
+  },
+});
+
+const serviceHoleEndClearance = defineRule({
+  id: 'service-hole-end-clearance',
+  name: 'Service hole end clearance',
+  description: 'Service holes must lie wholly on the profile',
+  type: 'clearance',
+  severity: 'error',
+  parameters: {},
+  appliesTo: {},
+  check: ({ calculations, profileLength }) => {
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.serviceHoles).forEach(service => {
+      const serviceRadius = getClearanceDistance(service.type);
+
+      if (service.position < serviceRadius) {
+        findings.push({
+          position: service.position,
+          element1: `Service Hole (Ø${serviceRadius * 2}mm)`,
+          element2: 'Profile Start',
+          issue: `Service hole edge extends beyond profile start (center at ${service.position}mm, needs ≥${serviceRadius}mm)`,
+          punches: [toPunchRef(service)],
+          expectedPosition: serviceRadius,
+        });
+      }
+      if (service.position > profileLength - serviceRadius) {
+        findings.push({
+          position: service.position,
+          element1: `Service Hole (Ø${serviceRadius * 2}mm)`,
+          element2: 'Profile End',
+          issue: `Service hole edge extends beyond profile end (center at ${service.position}mm, needs ≤${profileLength - serviceRadius}mm)`,
+          punches: [toPunchRef(service)],
+          expectedPosition: profileLength - serviceRadius,
+        });
+      }
+    });
+    return findings;
+  },
+});
+
+const webTabServiceClearance = defineRule({
+  id: 'web-tab-service-clearance',
+  name: 'Web tab to service hole',
+  description: 'Gap between web tab and service hole outlines at their heights on the web - a tab above a hole on a deep web can share its position',
+  type: 'clearance',
+  severity: 'warning',
+  parameters: {
+    minGap: { label: 'Minimum edge gap', unit: 'mm', default: 22.5 },
+  },
+  appliesTo: {},
+  check: ({ calculations, profileData }, { minGap }) => {
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.webHoles).forEach(webTab => {
+      active(calculations.serviceHoles).forEach(service => {
+        const clash = compareWebPunches(webTab, service, profileData.profileHeight, minGap);
+        if (!clash) return;
+
+        findings.push({
+          position: webTab.position,
+          element1: `Web Tab (${describeSize(webTab.type)})`,
+          element2: `${service.type} (${describeSize(service.type)})`,
+          issue: `Min ${minGap}mm edge gap violated (${describeGap(clash.gap)}, centres ${Math.round(Math.abs(service.position - webTab.position))}mm apart on a ${profileData.profileHeight}mm web)`,
+          punches: [toPunchRef(webTab), toPunchRef(service)],
+          requiredDistance: clash.requiredDistance,
+        });
+      });
+    });
+    return findings;
+  },
+});
+
+const stubServiceClearance = defineRule({
+  id: 'stub-service-clearance',
+  name: 'Stub to service hole',
+  description: 'Centre-to-centre distance between service stubs or corner brackets and service holes',
+  type: 'clearance',
+  severity: 'warning',
+  parameters: {
+    minDistance: { label: 'Minimum centre to centre', unit: 'mm', default: MANUFACTURING_CONSTANTS.SERVICE_CLEARANCE },
+  },
+  appliesTo: {},
+  check: ({ calculations }, { minDistance }) => {
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.stubs).forEach(stub => {
+      active(calculations.serviceHoles).forEach(service => {
+        const distance = Math.abs(stub.position - service.position);
+        if (distance < minDistance) {
+          const serviceSize = getPunchDimensions(service.type)?.diameter || 200;
+          findings.push({
+            position: stub.position,
+            element1: `${stub.type} (115×300mm)`,
+            element2: `Service Hole (Ø${serviceSize}mm)`,
+            issue: `Min ${minDistance}mm center-to-center violated (actual: ${Math.round(distance)}mm)`,
+            punches: [toPunchRef(stub), toPunchRef(service)],
+            requiredDistance: minDistance,
+          });
+        }
+      });
+    });
+    return findings;
+  },
+});
+
+const bearerBoltAlignment = defineRule({
+  id: 'bearer-bolt-alignment',
+  name: 'Bearer bolt hole alignment',
+  description: 'Each web tab needs a bolt hole offset alternately before and after it. Joist box bearers use dimples instead.',
+  type: 'alignment',
+  severity: 'warning',
+  parameters: {
+    offset: { label: 'Bolt offset from web tab', unit: 'mm', default: 29.5 },
+    tolerance: { label: 'Position tolerance', unit: 'mm', default: MANUFACTURING_CONSTANTS.POSITION_TOLERANCE },
+    endZone: { label: 'End bolt zone', unit: 'mm', default: MANUFACTURING_CONSTANTS.MIN_CLEARANCE },
+  },
+  appliesTo: { members: ['bearer'], joistBox: false },
+  check: ({ calculations, profileLength }, { offset, tolerance, endZone }) => {
+    const nonEndBolts = active(calculations.boltHoles).filter(
+      bolt => bolt.position > endZone && bolt.position < profileLength - endZone
+    );
+
+    const findings: ClashRuleFinding[] = [];
+    byPosition(active(calculations.webHoles)).forEach((webTab, index) => {
+      // Alternating pattern: -offset, +offset, -offset...
+      const expectedOffset = index % 2 === 0 ? -offset : offset;
+      const expectedBoltPosition = roundHalf(webTab.position + expectedOffset);
+
+      if (!nonEndBolts.some(bolt => Math.abs(bolt.position - expectedBoltPosition) < tolerance)) {
+        findings.push({
+          position: webTab.position,
+          element1: `Web Tab ${index + 1}`,
+          element2: 'Missing Bolt Hole',
+          issue: `Expected bolt hole at ${expectedBoltPosition}mm (${expectedOffset > 0 ? '+' : ''}${expectedOffset}mm offset from web tab)`,
+          punches: [toPunchRef(webTab)],
+          expectedPosition: expectedBoltPosition,
+        });
+      }
+    });
+    return findings;
+  },
+});
+
+const flangeDimpleBoltClearance = defineRule({
+  id: 'flange-dimple-bolt-clearance',
+  name: 'Dimple to bolt hole',
+  description: 'Dimples and bolt holes share the flanges and need a gap between their edges',
+  type: 'clearance',
+  severity: 'warning',
+  parameters: {
+    dimpleRadius: { label: 'Dimple radius', unit: 'mm', default: MANUFACTURING_CONSTANTS.DIMPLE_SIZE / 2 },
+    boltHalfWidth: { label: 'Bolt hole half width', unit: 'mm', default: 5.5 },
+    minGap: { label: 'Minimum gap', unit: 'mm', default: 5 },
+  },
+  appliesTo: {},
+  check: ({ calculations }, { dimpleRadius, boltHalfWidth, minGap }) => {
+    const requiredDistance = dimpleRadius + boltHalfWidth + minGap;
+    const findings: ClashRuleFinding[] = [];
+    active(calculations.dimples).forEach(dimple => {
+      active(calculations.boltHoles).forEach(bolt => {
+        const distance = Math.abs(dimple.position - bolt.position);
+        if (distance < requiredDistance) {
+          findings.push({
+            position: dimple.position,
+            element1: `Dimple (Ø${dimpleRadius * 2}mm)`,
+            element2: `Bolt Hole (${boltHalfWidth * 2}mm)`,
+            issue: `Flange clash: ${Math.round(distance)}mm apart (requires ${Math.round(requiredDistance)}mm)`,
+            punches: [toPunchRef(bolt), toPunchRef(dimple)],
+            requiredDistance,
+          });
+        }
+      });
+    });
+    return findings;
+  },
+});
+
+const bearerDimplePattern = defineRule({
+  id: 'bearer-dimple-pattern',
+  name: 'Bearer dimple pattern',
+  description: 'Bearer dimples run at a fixed spacing from a fixed start',
+  type: 'position-conflict',
+  severity: 'warning',
+  parameters: {
+    start: { label: 'First dimple', unit: 'mm', default: MANUFACTURING_CONSTANTS.DIMPLE_START_BEARER },
+    spacing: { label: 'Spacing', unit: 'mm', default: MANUFACTURING_CONSTANTS.DIMPLE_SPACING_BEARER },
+    tolerance: { label: 'Position tolerance', unit: 'mm', default: 1 },
+  },
+  appliesTo: { members: ['bearer'] },
+  check: ({ calculations }, { start, spacing, tolerance }) => {
+    const findings: ClashRuleFinding[] = [];
+    byPosition(active(calculations.dimples)).forEach((dimple, index) => {
+      const pos = dimple.position;
+      if (index === 0) {
+        if (Math.abs(pos - start) > tolerance) {
+          findings.push({
+            position: pos,
+            element1: 'First Dimple',
+            element2: 'Expected Start',
+            issue: `First dimple should be at ${start}mm, found at ${pos}mm`,
+            punches: [toPunchRef(dimple)],
+            expectedPosition: start,
+          });
+        }
+      } else {
+        const expectedPos = start + index * spacing;
+        if (Math.abs(pos - expectedPos) > tolerance) {
+          findings.push({
+            position: pos,
+            element1: `Dimple ${index + 1}`,
+            element2: 'Expected Position',
+            issue: `Expected at ${roundHalf(expectedPos)}mm, found at ${pos}mm (${spacing}mm spacing required)`,
+            punches: [toPunchRef(dimple)],
+            expectedPosition: roundHalf(expectedPos),
+          });
+        }
+      }
+    });
+    return findings;
+  },
+});
+
+const joistDimplePattern = defineRule({
+  id: 'joist-dimple-pattern',
+  name: 'Joist dimple pattern',
+  description: 'Joist dimples sit either side of each base interval, plus one in from each end',
+  type: 'position-conflict',
+  severity: 'warning',
+  parameters: {
+    interval: { label: 'Base interval', unit: 'mm', default: MANUFACTURING_CONSTANTS.DIMPLE_BASE_INTERVAL_JOIST },
+    offset: { label: 'Offset either side', unit: 'mm', default: MANUFACTURING_CONSTANTS.DIMPLE_OFFSET_JOIST },
+    tolerance: { label: 'Position tolerance', unit: 'mm', default: 1 },
+  },
+  appliesTo: { members: ['joist'] },
+  check: ({ calculations, profileLength }, { interval, offset, tolerance }) => {
+    // e.g. 75, 525, 675, 1125, 1275... length - 75
+    const expectedPositions: number[] = [offset];
+    for (let basePos = interval; basePos < profileLength - offset; basePos += interval) {
+      expectedPositions.push(basePos - offset);
+      if (basePos + offset < profileLength - offset) {
+        expectedPositions.push(basePos + offset);
+      }
+    }
+    expectedPositions.push(profileLength - offset);
+
+    const findings: ClashRuleFinding[] = [];
+    byPosition(active(calculations.dimples)).forEach((dimple, index) => {
+      if (index >= expectedPositions.length) return;
+      const expectedPos = expectedPositions[index];
+      if (Math.abs(dimple.position - expectedPos) > tolerance) {
+        findings.push({
+          position: dimple.position,
+          element1: `Dimple ${index + 1}`,
+          element2: 'Expected Position',
+          issue: `Expected at ${roundHalf(expectedPos)}mm, found at ${dimple.position}mm (${interval}mm ±${offset}mm pattern required)`,
+          punches: [toPunchRef(dimple)],
+          expectedPosition: roundHalf(expectedPos),
+        });
+      }
+    });
+    return findings;
+  },
+});
+
+const joistSpanLimit = defineRule({
+  id: 'joist-span-limit',
+  name: 'Joist span limit',
+  description: 'Joist length against the active span table for its height, spacing and kPa rating',
+  type: 'span-limit',
+  severity: 'error',
+  parameters: {},
+  appliesTo: { members: ['joist'] },
+  check: ({ profileData }) => {
+    const kpa = profileData.kpaRating;
+    if (!kpa) return [];
+
+    const { profileHeight, joistSpacing, length } = profileData;
+    const profileType = profileData.profileType === 'Joist Box' ? 'Joist Box' : 'Joist Single';
+    const standard = describeStandard(getActiveStandard());
+    const limit = getJoistSpanLimit(profileType, profileHeight, profileData.holeType, joistSpacing, kpa);
+    if (limit && length <= limit.maxSpan) return [];
+
+    return [{
+      position: null,
+      element1: 'Profile Length',
+      element2: 'kPa Rating',
+      issue: limit
+        ? `Profile length ${length}mm exceeds maximum ${limit.maxSpan}mm at ${joistSpacing}mm centres for ${kpa}kPa rating (${standard}${limit.governing ? `, ${CAPACITY_CHECK_NAMES[limit.governing].toLowerCase()} governs` : ''})`
+        : `${standard} has no span table for a ${profileHeight}mm ${profileType} at ${joistSpacing}mm centres and ${kpa}kPa`,
+      punches: [],
+    }];
+  },
+});
+
+const bearerJoistSpanLimit = defineRule({
+  id: 'bearer-joist-span-limit',
+  name: 'Supported joist span limit',
+  description: 'Length of the joists a bearer carries against the longest span in the active span table for its kPa rating',
+  type: 'span-limit',
+  severity: 'warning',
+  parameters: {},
+  appliesTo: { members: ['bearer'] },
+  check: ({ profileData }) => {
+    const kpa = profileData.kpaRating;
+    const joistLength = profileData.joistLength;
+    if (!kpa || !joistLength) return [];
+
+    const maxLimit = getMaxSpan(kpa, profileData.profileHeight);
+    if (maxLimit !== undefined && joistLength <= maxLimit) return [];
+
+    return [{
+      position: null,
+      element1: 'Joist Length',
+      element2: 'kPa Rating',
+      issue: maxLimit !== undefined
+        ? `Joist length ${joistLength}mm exceeds maximum ${maxLimit}mm for ${kpa}kPa rating`
+        : `${describeStandard(getActiveStandard())} has no span table for ${kpa}kPa at ${profileData.profileHeight}mm`,
+      punches: [],
+    }];
+  },
+});
+
+const pointLoadBearing = defineRule({
+  id: 'point-load-bearing',
+  name: 'Point load web bearing',
+  description: 'Web crippling under each point load - or the bearing of a SERVICE stub stiffening the web there - and service holes or web tabs inside its bearing zone that no stub covers',
+  type: 'web-bearing',
+  severity: 'warning',
+  parameters: {},
+  appliesTo: {},
+  check: ({ profileData, calculations }) => checkPointLoads(profileData, calculations).flatMap(bearing => {
+    const { pointLoad, zone, check, stiffener, stubPosition } = bearing;
+    const label = describePointLoad(pointLoad);
+    const addStub = stubPosition !== undefined
+      ? `add a SERVICE stub at ${stubPosition}mm`
+      : 'there is no room on the web face for a SERVICE stub in its bearing zone';
+
+    const findings: ClashRuleFinding[] = bearing.openings.map(opening => ({
+      position: opening.position,
+      element1: opening.type,
+      element2: label,
+      issue: stiffener
+        ? `${opening.type} at ${opening.position}mm sits inside the bearing zone of ${label} (${zone.from}-${zone.to}mm), beyond the SERVICE stub at ${stiffener.position}mm - move it clear`
+        : `${opening.type} at ${opening.position}mm sits inside the bearing zone of ${label} (${zone.from}-${zone.to}mm) - move it clear, or ${addStub}`,
+      punches: [toPunchRef(opening)],
+      expectedPosition: getClearPosition(zone, pointLoad, opening),
+    }));
+
+    if (check.utilisation > 1 && stiffener) {
+      findings.push({
+        severity: 'error',
+        position: pointLoad.position,
+        element1: label,
+        element2: `${stiffener.type} Stub`,
+        issue: `${label} needs ${check.demand.toFixed(1)}kN of bearing - the SERVICE stub at ${stiffener.position}mm carries ${check.capacity.toFixed(1)}kN; spread the load or use a box member`,
+        punches: [toPunchRef(stiffener)],
+      });
+    } else if (check.utilisation > 1) {
+      const reduction = bearing.holeReduction < 1 ? `, ${Math.round((1 - bearing.holeReduction) * 100)}% lost to a web opening` : '';
+      findings.push({
+        severity: 'error',
+        position: pointLoad.position,
+        element1: label,
+        element2: 'Web',
+        issue: `${label} needs ${check.demand.toFixed(1)}kN of web bearing - the web carries ${check.capacity.toFixed(1)}kN${reduction}; ${stubPosition !== undefined ? `${addStub} to stiffen it` : addStub}`,
+        punches: [],
+        expectedPosition: stubPosition,
+      });
+    }
+    return findings;
+  }),
+});
+
+const webTabSpacing = defineRule({
+  id: 'web-tab-spacing',
+  name: 'Web tab spacing',
+  description: 'Gaps between web tabs against the configured joist spacing',
+  type: 'clearance',
+  severity: 'warning',
+  parameters: {
+    tolerancePercent: { label: 'Tolerance', unit: '%', default: MANUFACTURING_CONSTANTS.SPACING_TOLERANCE_PERCENT * 100 },
+    minTolerance: { label: 'Minimum tolerance', unit: 'mm', default: MANUFACTURING_CONSTANTS.MIN_SPACING_TOLERANCE },
+  },
+  appliesTo: {},
+  check: ({ calculations, profileData }, { tolerancePercent, minTolerance }) => {
+    const webTabs = byPosition(active(calculations.webHoles));
+    const expectedSpacing = profileData.joistSpacing;
+    const tolerance = Math.max(expectedSpacing * tolerancePercent / 100, minTolerance);
+
+    const findings: ClashRuleFinding[] = [];
+    for (let i = 0; i < webTabs.length - 1; i++) {
+      const spacing = webTabs[i + 1].position - webTabs[i].position;
+      if (Math.abs(spacing - expectedSpacing) > tolerance) {
+        findings.push({
+          position: webTabs[i].position,
+          element1: `Web Tab ${i + 1}`,
+          element2: `Web Tab ${i + 2}`,
+          issue: `Spacing ${Math.round(spacing)}mm deviates from configured ${expectedSpacing}mm (tolerance: ±${Math.round(tolerance)}mm)`,
+          punches: [toPunchRef(webTabs[i]), toPunchRef(webTabs[i + 1])],
+          expectedPosition: roundHalf(webTabs[i].position + expectedSpacing),
+        });
+      }
+    }
+    return findings;
+  },
+});
+
+const serviceHoleSpacing = defineRule({
+  id: 'service-hole-spacing',
+  name: 'Service hole spacing',
+  description: 'Gaps between service holes against the standard spacing. Corner brackets near the ends are left out; Screens spacing varies by design.',
+  type: 'position-conflict',
+  severity: 'warning',
+  parameters: {
+    spacing: { label: 'Standard spacing', unit: 'mm', default: MANUFACTURING_CONSTANTS.SERVICE_HOLE_SPACING },
+    tolerance: { label: 'Tolerance', unit: 'mm', default: MANUFACTURING_CONSTANTS.MIN_SPACING_TOLERANCE },
+    cornerZone: { label: 'Corner bracket zone from each end', unit: 'mm', default: 150 },
+  },
+  appliesTo: { screens: false },
+  check: ({ calculations, profileLength }, { spacing, tolerance, cornerZone }) => {
+    // Corner brackets sit 131mm from each end
+    const serviceHoles = byPosition(active(calculations.serviceHoles)).filter(
+      service => service.position > cornerZone && service.position < profileLength - cornerZone
+    );
+
+    const findings: ClashRuleFinding[] = [];
+    for (let i = 0; i < serviceHoles.length - 1; i++) {
+      const actual = serviceHoles[i + 1].position - serviceHoles[i].position;
+      if (Math.abs(actual - spacing) > tolerance) {
+        findings.push({
+          position: serviceHoles[i].position,
+          element1: `Service Hole ${i + 1}`,
+          element2: `Service Hole ${i + 2}`,
+          issue: `Spacing ${Math.round(actual)}mm deviates from standard ${spacing}mm (±${tolerance}mm tolerance)`,
+          punches: [toPunchRef(serviceHoles[i]), toPunchRef(serviceHoles[i + 1])],
+          expectedPosition: roundHalf(serviceHoles[i].position + spacing),
+        });
+      }
+    }
+    return findings;
+  },
+});
+
+const webFaceOverlap = defineRule({
+  id: 'web-face-overlap',
+  name: 'Web face overlap',
+  description: 'Web tabs, service holes and stubs share the web face - their outlines, at their heights on the web, must not overlap',
+  type: 'overlap',
+  severity: 'warning',
+  parameters: {
+    minSeparation: { label: 'Minimum edge separation', unit: 'mm', default: MANUFACTURING_CONSTANTS.POSITION_TOLERANCE },
+    errorBelow: { label: 'Error when centres are closer than', unit: 'mm', default: 5 },
+  },
+  appliesTo: {},
+  check: ({ facePunches, profileData }, { minSeparation, errorBelow }) => {
+    const punches = active(facePunches);
+    const findings: ClashRuleFinding[] = [];
+    for (let i = 0; i < punches.length; i++) {
+      for (let j = i + 1; j < punches.length; j++) {
+        const [punch1, punch2] = [punches[i], punches[j]];
+        const clash = compareWebPunches(punch1, punch2, profileData.profileHeight, minSeparation);
+        if (!clash) continue;
+
+        const distance = Math.abs(punch1.position - punch2.position);
+        findings.push({
+          position: punch1.position,
+          element1: `${punch1.type} (${describeSize(punch1.type)})`,
+          element2: `${punch2.type} (${describeSize(punch2.type)})`,
+          issue: `Web face overlap: ${describeGap(clash.gap)} with centres ${Math.round(distance)}mm apart (requires ${Math.round(clash.requiredDistance)}mm)`,
+          punches: [toPunchRef(punch1), toPunchRef(punch2)],
+          requiredDistance: clash.requiredDistance,
+          ...(distance < errorBelow && { severity: 'error' as const }),
+        });
+      }
+    }
+    return findings;
+  },
+});
+
+const flangeBendClearance = defineRule({
+  id: 'flange-bend-clearance',
+  name: 'Flange bend clearance',
+  description: 'Web face punches must stay clear of the web to flange bends - a punch that fits a deep web can run into the bends of a shallow one',
+  type: 'clearance',
+  severity: 'warning',
+  parameters: {
+    clearance: { label: 'Clearance from bend', unit: 'mm', default: MANUFACTURING_CONSTANTS.BEND_CLEARANCE },
+  },
+  appliesTo: {},
+  check: ({ facePunches, profileData }, { clearance }) => {
+    const webHeight = profileData.profileHeight;
+    const bendTop = webHeight - FLANGE_BEND_DEPTH;
+    const findings: ClashRuleFinding[] = [];
+
+    active(facePunches).forEach(punch => {
+      const { top, bottom } = getShapeExtent(getWebPunchShape(punch.type, punch.position, webHeight));
+      // Stubs fitted to the web sit exactly at the clearance, give or take floating point
+      const intoTop = top - (bendTop - clearance) - GEOMETRY_TOLERANCE;
+      const intoBottom = FLANGE_BEND_DEPTH + clearance - bottom - GEOMETRY_TOLERANCE;
+      if (intoTop <= 0 && intoBottom <= 0) return;
+
+      const side = intoTop > 0 && intoBottom > 0 ? 'both' : intoTop > 0 ? 'top' : 'bottom';
+      const inBend = top > bendTop || bottom < FLANGE_BEND_DEPTH;
+      const issue = side === 'both'
+        ? `${Math.round(top - bottom)}mm high on a ${webHeight}mm web - only ${Math.round(bendTop - FLANGE_BEND_DEPTH - 2 * clearance)}mm between the bends`
+        : inBend
+          ? `Cuts ${(side === 'top' ? top - bendTop : FLANGE_BEND_DEPTH - bottom).toFixed(1)}mm into the ${side} flange bend of a ${webHeight}mm web`
+          : `${(clearance - (side === 'top' ? intoTop : intoBottom)).toFixed(1)}mm from the ${side} flange bend of a ${webHeight}mm web (needs ${clearance}mm)`;
+
+      findings.push({
+        position: punch.position,
+        element1: `${punch.type} (${describeSize(punch.type)})`,
+        element2: side === 'both' ? 'Flange Bends' : side === 'top' ? 'Top Flange Bend' : 'Bottom Flange Bend',
+        issue,
+        punches: [toPunchRef(punch)],
+        ...(inBend && { severity: 'error' as const }),
+      });
+    });
+    return findings;
+  },
+});
+
+const stationHeightRange = defineRule({
+  id: 'station-height-range',
+  name: 'Station height range',
+  description: 'Web face stations the tooling library limits to a range of profile heights must only be punched on profiles within it',
+  type: 'tooling',
+  severity: 'error',
+  parameters: {},
+  appliesTo: {},
+  check: ({ facePunches, profileData, toolingLibrary }) => {
+    const outOfRange = new Map<string, PunchRef[]>();
+    active(facePunches).forEach(punch => {
+      // Stations without limits of their own are left to the flange bend clearance rule
+      if (!toolingLibrary.stations[punch.type]?.heightRange || fitsProfileHeight(punch.type, profileData.profileHeight)) return;
+      outOfRange.set(punch.type, [...(outOfRange.get(punch.type) ?? []), toPunchRef(punch)]);
+    });
+
+    return [...outOfRange].map(([station, punches]) => {
+      const { min, max } = getStationHeightRange(station);
+      return {
+        position: punches[0].position,
+        element1: station,
+        element2: `${profileData.profileHeight}mm Profile`,
+        issue: `${station} is limited to ${max === undefined ? `profiles of at least ${min}mm` : `${min}-${max}mm profiles`}`,
+        punches,
+      };
+    });
+  },
+});
+
+const tooling = defineRule({
+  id: 'tooling',
+  name: 'Tooling',
+  description: 'Every punched station must be in the tooling library and fitted to the active machine',
+  type: 'tooling',
+  severity: 'error',
+  parameters: {},
+  appliesTo: {},
+  check: ({ flangePunches, facePunches, toolingLibrary }) => {
+    const machine = getActiveMachine(toolingLibrary);
+    const untooledStations = new Map<string, PunchRef[]>();
+    active([...flangePunches, ...facePunches]).forEach(punch => {
+      if (!toolingLibrary.stations[punch.type] || !machine?.stations.includes(punch.type)) {
+        untooledStations.set(punch.type, [...(untooledStations.get(punch.type) ?? []), toPunchRef(punch)]);
+      }
+    });
+
+    return [...untooledStations].map(([station, punches]) => ({
+      position: punches[0].position,
+      element1: station,
+      element2: machine?.name ?? 'No machine',
+      issue: toolingLibrary.stations[station]
+        ? `${station} is not fitted to ${machine?.name ?? 'the active machine'}`
+        : `${station} is not in the tooling library`,
+      punches,
+    }));
+  },
+});
+
+/**
+ * Every rule, in the order they run and are listed
+ */
+export const CLASH_RULES: ClashRule[] = [
+  boltEndClearance,
+  webTabEndClearance,
+  serviceHoleEndClearance,
+  webTabServiceClearance,
+  stubServiceClearance,
+  bearerBoltAlignment,
+  flangeDimpleBoltClearance,
+  bearerDimplePattern,
+  joistDimplePattern,
+  joistSpanLimit,
+  bearerJoistSpanLimit,
+  pointLoadBearing,
+  webTabSpacing,
+  serviceHoleSpacing,
+  webFaceOverlap,
+  flangeBendClearance,
+  stationHeightRange,
+  tooling,
+];
+
+export const getClashRule = (id: string): ClashRule | undefined => CLASH_RULES.find(rule => rule.id === id);
+
+export const describeApplicability = ({ members, screens, joistBox }: ClashRuleApplicability): string => {
+  const parts = [
+    members ? members.map(member => `${member}s`).join(' and ') : 'all profiles',
+    screens !== undefined && (screens ? 'Screens only' : 'not Screens'),
+    joistBox !== undefined && (joistBox ? 'joist box only' : 'not joist box'),
+  ].filter(Boolean);
+  return parts.join(', ');
+};
+
+export const ruleApplies = (rule: ClashRule, context: ClashRuleContext): boolean => {
+  const { members, screens, joistBox } = rule.appliesTo;
+  if (members && !members.some(member => (member === 'bearer' ? context.isBearer : context.isJoist))) return false;
+  if (screens !== undefined && !!context.profileData.screensEnabled !== screens) return false;
+  if (joistBox !== undefined && !!context.profileData.joistBox !== joistBox) return false;
+  return true;
+};
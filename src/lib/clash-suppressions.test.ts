@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ClashIssue } from './clash-detection';
+import { applyClashSuppressions, createSuppression } from './clash-suppressions';
+
+const issue = (overrides: Partial<ClashIssue> = {}): ClashIssue => ({
+  ruleId: 'web-tab-spacing',
+  type: 'clearance',
+  profileHeight: 350,
+  position: 1200,
+  element1: 'WEB TAB',
+  element2: 'WEB TAB',
+  issue: 'Web tabs 550mm apart',
+  severity: 'warning',
+  punches: [
+    { type: 'WEB TAB', position: 1200 },
+    { type: 'WEB TAB', position: 1750 },
+  ],
+  ...overrides,
+});
+
+describe('createSuppression', () => {
+  it('requires a note and an author', () => {
+    expect(() => createSuppression(issue(), ' ', 'J. Smith')).toThrow();
+    expect(() => createSuppression(issue(), 'Checked on site', '')).toThrow();
+  });
+
+  it('records the rule, fingerprint and trimmed note and author', () => {
+    expect(createSuppression(issue(), ' Checked on site ', ' J. Smith ')).toMatchObject({
+      ruleId: 'web-tab-spacing',
+      fingerprint: 'web-tab-spacing|350|WEB TAB@1200,WEB TAB@1750',
+      issue: 'Web tabs 550mm apart',
+      note: 'Checked on site',
+      author: 'J. Smith',
+    });
+  });
+});
+
+describe('applyClashSuppressions', () => {
+  const suppression = createSuppression(issue(), 'Checked on site', 'J. Smith');
+
+  it('hides the issue it was made for and keeps it active', () => {
+    const other = issue({ ruleId: 'service-hole-spacing', severity: 'error' });
+    const { result, results } = applyClashSuppressions([issue(), other], [suppression]);
+
+    expect(result.issues).toEqual([other]);
+    expect(results).toEqual([{ suppression, status: 'active', issue: issue() }]);
+  });
+
+  it('expires when a punch involved moves', () => {
+    const moved = issue({ punches: [{ type: 'WEB TAB', position: 1200 }, { type: 'WEB TAB', position: 1800 }] });
+    const { result, results } = applyClashSuppressions([moved], [suppression]);
+
+    expect(result.issues).toEqual([moved]);
+    expect(results[0].status).toBe('expired');
+  });
+
+  it('expires when the web height changes', () => {
+    const taller = issue({ profileHeight: 300 });
+    const { result, results } = applyClashSuppressions([taller], [suppression]);
+
+    expect(result.issues).toEqual([taller]);
+    expect(results[0].status).toBe('expired');
+  });
+
+  it('expires once its issue is fixed', () => {
+    expect(applyClashSuppressions([], [suppression]).results[0].status).toBe('expired');
+  });
+});
@@ -0,0 +1,80 @@
+import { ClashSuppression } from '@/types/manufacturing';
+import { ClashDetectionResult, ClashIssue, getIssueFingerprint, summarizeClashes } from './clash-detection';
+
+/**
+ * Clash Suppressions
+ * Issues an engineer has accepted, each with a note and who accepted it. A suppression
+ * matches its issue by rule, web height and punch positions, so it expires as soon as the
+ * geometry it was made for changes and the issue comes back for review.
+ */
+
+export type SuppressionStatus = 'active' | 'expired';
+
+export interface SuppressionResult {
+  suppression: ClashSuppression;
+  status: SuppressionStatus;
+  issue?: ClashIssue; // The issue it hides, while active
+}
+
+export interface SuppressionApplication {
+  result: ClashDetectionResult; // Issues still open, with their counts
+  results: SuppressionResult[];
+}
+
+const AUTHOR_STORAGE_KEY = 'span-plus-suppression-author';
+
+let suppressionCounter = 0;
+
+/**
+ * Name last used to suppress an issue, to fill in the next one
+ */
+export const getSuppressionAuthor = (): string =>
+  (typeof localStorage !== 'undefined' && localStorage.getItem(AUTHOR_STORAGE_KEY)) || '';
+
+export const setSuppressionAuthor = (author: string): void => {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+  }
+};
+
+/**
+ * Suppress an issue; the note and author are required so every accepted issue can be traced
+ */
+export function createSuppression(issue: ClashIssue, note: string, author: string): ClashSuppression {
+  if (!note.trim() || !author.trim()) {
+    throw new Error('A suppression needs a note and the name of whoever accepted the issue');
+  }
+
+  return {
+    id: `suppression-${Date.now()}-${suppressionCounter++}`,
+    ruleId: issue.ruleId,
+    fingerprint: getIssueFingerprint(issue),
+    issue: issue.issue,
+    note: note.trim(),
+    author: author.trim(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Hide suppressed issues. Suppressions whose issue is no longer raised exactly as it was
+ * suppressed are expired - their issue has moved or changed, or been fixed.
+ */
+export function applyClashSuppressions(issues: ClashIssue[], suppressions: ClashSuppression[]): SuppressionApplication {
+  const byFingerprint = new Map(suppressions.map(suppression => [suppression.fingerprint, suppression]));
+  const suppressed = new Map<string, ClashIssue>();
+  const open = issues.filter(issue => {
+    const fingerprint = getIssueFingerprint(issue);
+    if (!byFingerprint.has(fingerprint)) return true;
+    suppressed.set(fingerprint, issue);
+    return false;
+  });
+
+  return {
+    result: summarizeClashes(open),
+    results: suppressions.map(suppression => {
+      const issue = suppressed.get(suppression.fingerprint);
+      return issue ? { suppression, status: 'active', issue } : { suppression, status: 'expired' };
+    }),
+  };
+}
@@ -1,3 +1,5 @@
+import { PunchStationSettings } from '@/types/form-types';
+
 /**
  * Manufacturing Constants and Configuration
  * Centralized constants for NC manufacturing operations
@@ -28,12 +30,6 @@ export const MANUFACTURING_CONSTANTS = {
   DIMPLE_BASE_INTERVAL_JOIST: 600,
   DIMPLE_OFFSET_JOIST: 75,
   
-  // Span table limits
-  SPAN_LIMITS: {
-    '2.5': 11750,
-    '5.0': 9300,
-  },
-  
   // Service hole spacing
   SERVICE_HOLE_SPACING: 650,
   
@@ -46,6 +42,8 @@ export const MANUFACTURING_CONSTANTS = {
   FLANGE_HEIGHT: 63,
   JOIST_FLANGE_HEIGHT: 59,
   PROFILE_THICKNESS: 1.8,
+  BEND_RADIUS: 3, // Inside radius of the web to flange bends
+  BEND_CLEARANCE: 5, // Web face punches stay this far clear of the bends
   
   // Default values
   DEFAULT_HOLE_DIAMETER: 200, // Default for joists (bearers typically use 'No Holes')
@@ -65,3 +63,13 @@ export const MANUFACTURING_CONSTANTS = {
 } as const;
 
 export type ManufacturingConstants = typeof MANUFACTURING_CONSTANTS;
+
+// Stations enabled in Profile Settings for a new profile
+export const DEFAULT_PUNCH_STATIONS: PunchStationSettings[] = [
+  { station: 'BOLT HOLE', enabled: true },
+  { station: 'DIMPLE', enabled: true },
+  { station: 'WEB TAB', enabled: true },
+  { station: 'M SERVICE HOLE', enabled: true },
+  { station: 'SERVICE', enabled: true },
+  { station: 'CORNER BRACKETS', enabled: true },
+];
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { NCFileGenerator } from './nc-generator';
+import { generateDXF, getStationLayer } from './dxf-export';
+
+const bearerDXF = () => {
+  const profileData = makeProfile();
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, makeExportData());
+  return generateDXF(profileData, generator.getCalculations(), 'B_5200').split('\n');
+};
+
+describe('getStationLayer', () => {
+  it('makes a valid layer name from any station name', () => {
+    expect(getStationLayer('M SERVICE HOLE')).toBe('PUNCH_M_SERVICE_HOLE');
+    expect(getStationLayer('tab 45/70')).toBe('PUNCH_TAB_45_70');
+  });
+});
+
+describe('generateDXF', () => {
+  it('writes an R12 drawing from header to end of file', () => {
+    const lines = bearerDXF();
+    expect(lines.slice(0, 4)).toEqual(['0', 'SECTION', '2', 'HEADER']);
+    expect(lines[lines.indexOf('$ACADVER') + 2]).toBe('AC1009');
+    expect(lines.slice(-2)).toEqual(['0', 'EOF']);
+  });
+
+  it('declares a layer for each punched station', () => {
+    const lines = bearerDXF();
+    ['OUTLINE', 'FLANGE', 'TEXT', 'PUNCH_BOLT_HOLE', 'PUNCH_WEB_TAB', 'PUNCH_SERVICE'].forEach(layer => {
+      expect(lines).toContain(layer);
+    });
+    expect(lines).not.toContain('PUNCH_LARGE_SERVICE_HOLE');
+  });
+
+  it('labels the drawing with the part code', () => {
+    expect(bearerDXF()).toContain('B_5200');
+  });
+});
@@ -0,0 +1,128 @@
+import { NCCalculations, ProfileData } from '@/types/form-types';
+import { PunchShape, getProfileElevation } from './profile-geometry';
+import { getPunchColor } from './punch-dimensions';
+
+/**
+ * DXF Export
+ * Writes the profile elevation as an AutoCAD R12 ASCII drawing in mm.
+ * Outline, flanges and text have their own layers; every punch station gets a layer of its own.
+ */
+
+const TEXT_HEIGHT = 25;
+const ELLIPSE_SEGMENTS = 72;
+
+// AutoCAD colour index of the basic colours, matched against the station display colour
+const ACI_COLORS: Array<{ index: number; rgb: [number, number, number] }> = [
+  { index: 1, rgb: [255, 0, 0] },
+  { index: 2, rgb: [255, 255, 0] },
+  { index: 3, rgb: [0, 255, 0] },
+  { index: 4, rgb: [0, 255, 255] },
+  { index: 5, rgb: [0, 0, 255] },
+  { index: 6, rgb: [255, 0, 255] },
+  { index: 8, rgb: [128, 128, 128] },
+];
+
+const toAciColor = (hex: string): number => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (Number.isNaN(value)) return 7;
+  const rgb = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+
+  return ACI_COLORS.reduce((best, color) => {
+    const distance = color.rgb.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+    return distance < best.distance ? { index: color.index, distance } : best;
+  }, { index: 7, distance: Infinity }).index;
+};
+
+// Layer names may only contain letters, digits, underscores, hyphens and dollar signs
+export const getStationLayer = (station: string): string => `PUNCH_${station.toUpperCase().replace(/[^A-Z0-9_$-]/g, '_')}`;
+
+const formatNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+// DXF is a list of group code / value pairs, one per line
+const pairs = (...entries: Array<[number, string | number]>): string[] =>
+  entries.flatMap(([code, value]) => [String(code), typeof value === 'number' ? formatNumber(value) : value]);
+
+const line = (layer: string, x1: number, y1: number, x2: number, y2: number): string[] =>
+  pairs([0, 'LINE'], [8, layer], [10, x1], [20, y1], [30, 0], [11, x2], [21, y2], [31, 0]);
+
+const circle = (layer: string, x: number, y: number, radius: number): string[] =>
+  pairs([0, 'CIRCLE'], [8, layer], [10, x], [20, y], [30, 0], [40, radius]);
+
+const closedPolyline = (layer: string, points: Array<[number, number]>): string[] => [
+  ...pairs([0, 'POLYLINE'], [8, layer], [66, '1'], [10, 0], [20, 0], [30, 0], [70, '1']),
+  ...points.flatMap(([x, y]) => pairs([0, 'VERTEX'], [8, layer], [10, x], [20, y], [30, 0])),
+  ...pairs([0, 'SEQEND'], [8, layer]),
+];
+
+const text = (layer: string, x: number, y: number, height: number, value: string): string[] =>
+  pairs([0, 'TEXT'], [8, layer], [10, x], [20, y], [30, 0], [40, height], [1, value]);
+
+const punchEntities = (punch: PunchShape): string[] => {
+  const layer = getStationLayer(punch.station);
+  const halfWidth = punch.width / 2;
+  const halfHeight = punch.height / 2;
+
+  if (punch.shape === 'circle') {
+    return circle(layer, punch.x, punch.y, halfWidth);
+  }
+
+  if (punch.shape === 'ellipse') {
+    // R12 has no ELLIPSE entity, so ovals are drawn as a fine polyline
+    const points: Array<[number, number]> = Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+      const angle = (2 * Math.PI * i) / ELLIPSE_SEGMENTS;
+      return [punch.x + halfWidth * Math.cos(angle), punch.y + halfHeight * Math.sin(angle)];
+    });
+    return closedPolyline(layer, points);
+  }
+
+  return closedPolyline(layer, [
+    [punch.x - halfWidth, punch.y - halfHeight],
+    [punch.x + halfWidth, punch.y - halfHeight],
+    [punch.x + halfWidth, punch.y + halfHeight],
+    [punch.x - halfWidth, punch.y + halfHeight],
+  ]);
+};
+
+/**
+ * Generate a DXF drawing of the profile elevation from the generator calculations
+ */
+export function generateDXF(profileData: ProfileData, calculations: NCCalculations, partCode: string): string {
+  const elevation = getProfileElevation(profileData, calculations);
+  const stations = [...new Set(elevation.punches.map((punch) => punch.station))];
+
+  const layers: Array<{ name: string; color: number }> = [
+    { name: 'OUTLINE', color: 7 },
+    { name: 'FLANGE', color: 8 },
+    { name: 'TEXT', color: 7 },
+    ...stations.map((station) => ({ name: getStationLayer(station), color: toAciColor(getPunchColor(station)) })),
+  ];
+
+  const top = elevation.height + elevation.flange + elevation.lip;
+  const bottom = -elevation.flange - elevation.lip;
+
+  const entities = [
+    ...elevation.lines.flatMap((l) => line(l.layer, l.x1, l.y1, l.x2, l.y2)),
+    ...elevation.punches.flatMap(punchEntities),
+    ...text('TEXT', 0, top + TEXT_HEIGHT, TEXT_HEIGHT, partCode),
+    ...text('TEXT', 0, bottom - 2 * TEXT_HEIGHT, TEXT_HEIGHT * 0.6, `${profileData.profileType} ${elevation.length}mm x ${elevation.height}mm`),
+  ];
+
+  return [
+    ...pairs(
+      [0, 'SECTION'], [2, 'HEADER'],
+      [9, '$ACADVER'], [1, 'AC1009'],
+      [9, '$EXTMIN'], [10, 0], [20, bottom - 2 * TEXT_HEIGHT], [30, 0],
+      [9, '$EXTMAX'], [10, elevation.length], [20, top + 2 * TEXT_HEIGHT], [30, 0],
+      [0, 'ENDSEC'],
+      [0, 'SECTION'], [2, 'TABLES'],
+      [0, 'TABLE'], [2, 'LTYPE'], [70, '1'],
+      [0, 'LTYPE'], [2, 'CONTINUOUS'], [70, '0'], [3, 'Solid line'], [72, '65'], [73, '0'], [40, 0],
+      [0, 'ENDTAB'],
+      [0, 'TABLE'], [2, 'LAYER'], [70, String(layers.length)],
+    ),
+    ...layers.flatMap((layer) => pairs([0, 'LAYER'], [2, layer.name], [70, '0'], [62, String(layer.color)], [6, 'CONTINUOUS'])),
+    ...pairs([0, 'ENDTAB'], [0, 'ENDSEC'], [0, 'SECTION'], [2, 'ENTITIES']),
+    ...entities,
+    ...pairs([0, 'ENDSEC'], [0, 'EOF']),
+  ].join('\n');
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getClashRule } from './clash-rules';
+import {
+  FactoryProfile,
+  removeFactoryProfile,
+  resetRuleSettings,
+  resolveRuleSettings,
+  updateRuleSettings,
+  upsertFactoryProfile,
+} from './factory-profiles';
+
+const rule = getClashRule('bolt-end-clearance')!;
+const standard: FactoryProfile = { id: 'standard', name: 'Standard', rules: {} };
+
+describe('resolveRuleSettings', () => {
+  it('falls back to the rule defaults', () => {
+    expect(resolveRuleSettings(rule, standard)).toEqual({
+      enabled: true,
+      severity: 'error',
+      params: { minClearance: 50, endBoltZone: 35 },
+    });
+  });
+});
+
+describe('updateRuleSettings', () => {
+  it('stores only what differs from the rule defaults', () => {
+    const updated = updateRuleSettings(standard, rule, { severity: 'warning', params: { minClearance: 60, endBoltZone: 35 } });
+    expect(updated.rules[rule.id]).toEqual({ severity: 'warning', params: { minClearance: 60 } });
+    expect(resolveRuleSettings(rule, updated).params).toEqual({ minClearance: 60, endBoltZone: 35 });
+  });
+
+  it('drops a rule once its settings are back at the defaults', () => {
+    const changed = updateRuleSettings(standard, rule, { enabled: false });
+    expect(updateRuleSettings(changed, rule, { enabled: true }).rules).toEqual({});
+    expect(resetRuleSettings(changed, rule.id).rules).toEqual({});
+  });
+
+  it('ignores parameters the rule does not have', () => {
+    expect(updateRuleSettings(standard, rule, { params: { unknown: 1 } }).rules).toEqual({});
+  });
+});
+
+describe('factory profile list', () => {
+  it('activates the first remaining profile when the active one is removed', () => {
+    const profiles = upsertFactoryProfile({ profiles: [standard], activeProfileId: 'standard' }, { id: 'tight', name: 'Tight', rules: {} });
+    expect(removeFactoryProfile(profiles, 'standard')).toEqual({ profiles: [{ id: 'tight', name: 'Tight', rules: {} }], activeProfileId: 'tight' });
+  });
+});
@@ -0,0 +1,135 @@
+import type { ClashSeverity } from './clash-detection';
+import type { ClashRule } from './clash-rules';
+
+/**
+ * Factory Profiles
+ * Per-factory settings for the clash rules: which rules run, at what severity and with
+ * which tolerances. A profile only stores what differs from each rule's defaults.
+ */
+
+export interface RuleSettings {
+  enabled?: boolean;
+  severity?: ClashSeverity;
+  params?: Record<string, number>;
+}
+
+export interface FactoryProfile {
+  id: string;
+  name: string;
+  rules: Record<string, RuleSettings>; // Keyed by rule id
+}
+
+export interface FactoryProfiles {
+  profiles: FactoryProfile[];
+  activeProfileId: string;
+}
+
+// A rule with a factory profile's settings applied
+export interface ResolvedRuleSettings {
+  enabled: boolean;
+  severity: ClashSeverity;
+  params: Record<string, number>;
+}
+
+const STORAGE_KEY = 'span-plus-factory-profiles';
+
+export const DEFAULT_FACTORY_PROFILES: FactoryProfiles = {
+  profiles: [{ id: 'standard', name: 'Standard', rules: {} }],
+  activeProfileId: 'standard',
+};
+
+const loadStoredProfiles = (): FactoryProfiles | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FactoryProfiles) : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeProfiles: FactoryProfiles = loadStoredProfiles() ?? DEFAULT_FACTORY_PROFILES;
+const listeners = new Set<() => void>();
+
+export const getFactoryProfiles = (): FactoryProfiles => activeProfiles;
+
+/**
+ * Replace the factory profiles, persisting them in the browser and notifying subscribers
+ */
+export const setFactoryProfiles = (profiles: FactoryProfiles): void => {
+  activeProfiles = profiles;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeFactoryProfiles = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getActiveFactoryProfile = (profiles: FactoryProfiles = activeProfiles): FactoryProfile =>
+  profiles.profiles.find((profile) => profile.id === profiles.activeProfileId) ?? profiles.profiles[0] ?? DEFAULT_FACTORY_PROFILES.profiles[0];
+
+export const resolveRuleSettings = (rule: ClashRule, profile: FactoryProfile): ResolvedRuleSettings => {
+  const settings = profile.rules[rule.id] ?? {};
+  const params: Record<string, number> = {};
+  Object.entries(rule.parameters).forEach(([key, parameter]) => {
+    params[key] = settings.params?.[key] ?? parameter.default;
+  });
+
+  return {
+    enabled: settings.enabled ?? true,
+    severity: settings.severity ?? rule.severity,
+    params,
+  };
+};
+
+/**
+ * Change a rule's settings in a profile; settings back at the rule's defaults are dropped
+ */
+export const updateRuleSettings = (profile: FactoryProfile, rule: ClashRule, updates: RuleSettings): FactoryProfile => {
+  const merged = { ...profile.rules[rule.id], ...updates, params: { ...profile.rules[rule.id]?.params, ...updates.params } };
+
+  const settings: RuleSettings = {};
+  if (merged.enabled === false) settings.enabled = false;
+  if (merged.severity && merged.severity !== rule.severity) settings.severity = merged.severity;
+  const params = Object.fromEntries(
+    Object.entries(merged.params).filter(([key, value]) => key in rule.parameters && value !== rule.parameters[key].default)
+  );
+  if (Object.keys(params).length > 0) settings.params = params;
+
+  const rules = { ...profile.rules };
+  if (Object.keys(settings).length > 0) {
+    rules[rule.id] = settings;
+  } else {
+    delete rules[rule.id];
+  }
+  return { ...profile, rules };
+};
+
+export const resetRuleSettings = (profile: FactoryProfile, ruleId: string): FactoryProfile => {
+  const rules = { ...profile.rules };
+  delete rules[ruleId];
+  return { ...profile, rules };
+};
+
+export const upsertFactoryProfile = (profiles: FactoryProfiles, profile: FactoryProfile): FactoryProfiles => {
+  const exists = profiles.profiles.some((p) => p.id === profile.id);
+  return {
+    ...profiles,
+    profiles: exists ? profiles.profiles.map((p) => (p.id === profile.id ? profile : p)) : [...profiles.profiles, profile],
+  };
+};
+
+export const removeFactoryProfile = (profiles: FactoryProfiles, id: string): FactoryProfiles => {
+  const remaining = profiles.profiles.filter((profile) => profile.id !== id);
+  return {
+    ...profiles,
+    profiles: remaining,
+    activeProfileId: profiles.activeProfileId === id ? remaining[0]?.id ?? '' : profiles.activeProfileId,
+  };
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { ProfileData } from '@/types/form-types';
+import { PunchOverride } from '@/types/manufacturing';
+import { DEFAULT_PUNCH_STATIONS } from './constants';
+import { getGeneratedPunches } from './punch-overrides';
+import {
+  JOB_FILE_VERSION,
+  JobFile,
+  JobFileError,
+  createJobFile,
+  jobFileToSnapshot,
+  parseJobFile,
+  serializeJobFile,
+} from './job-file';
+
+const details = {
+  name: 'Deck',
+  customer: 'Smith Builders',
+  revision: 2,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+};
+
+const parseError = (text: string): JobFileError => {
+  try {
+    parseJobFile(text);
+  } catch (error) {
+    if (error instanceof JobFileError) return error;
+    throw error;
+  }
+  throw new Error('Expected the job file to be rejected');
+};
+
+describe('parseJobFile', () => {
+  it('reads back a job file it wrote', () => {
+    const overrides: PunchOverride[] = [{ id: 'o1', kind: 'delete', target: { type: 'DIMPLE', position: 100 } }];
+    const file = createJobFile(details, {
+      profileData: makeProfile(),
+      exportData: makeExportData(),
+      punchOverrides: overrides,
+      clashSuppressions: [],
+    });
+
+    const parsed = parseJobFile(serializeJobFile(file));
+    expect(parsed).toEqual(file);
+    expect(jobFileToSnapshot(parsed).punchOverrides).toEqual(overrides);
+  });
+
+  it('migrates a version 0 job to the current version', () => {
+    // Scripts left the station toggles out
+    const profileData: Partial<ProfileData> = makeProfile();
+    delete profileData.punchStations;
+    const file = parseJobFile(JSON.stringify({ profileData, exportData: makeExportData({ programName: 'B1' }) }));
+
+    expect(file.schemaVersion).toBe(JOB_FILE_VERSION);
+    expect(file.job).toMatchObject({ name: 'B1', revision: 1 });
+    expect(file.profileData.punchStations).toEqual(DEFAULT_PUNCH_STATIONS);
+    expect(file.punchOverrides).toEqual([]);
+    expect(file.clashSuppressions).toEqual([]);
+  });
+
+  it('turns the edited program of a version 0 job into overrides', () => {
+    const profileData = makeProfile();
+    const exportData = makeExportData();
+    const manualPunches = getGeneratedPunches(profileData, exportData).filter(punch => punch.type !== 'DIMPLE');
+    const file = parseJobFile(JSON.stringify({ profileData, exportData, manualPunches }));
+
+    expect(file.punchOverrides.length).toBeGreaterThan(0);
+    expect(file.punchOverrides.every(override => override.kind === 'delete' && override.target.type === 'DIMPLE')).toBe(true);
+  });
+
+  it('migrates a version 2 job by adding clash suppressions', () => {
+    const versionTwo: Partial<JobFile> = createJobFile(details, {
+      profileData: makeProfile(),
+      exportData: makeExportData(),
+      punchOverrides: [],
+      clashSuppressions: [],
+    });
+    delete versionTwo.clashSuppressions;
+    const file = parseJobFile(JSON.stringify({ ...versionTwo, schemaVersion: 2 }));
+    expect(file.clashSuppressions).toEqual([]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(parseError('{').message).toMatch(/not valid JSON/);
+    expect(parseError('[]').message).toMatch(/JSON object/);
+    expect(parseError(JSON.stringify({ format: 'other' })).issues).toEqual([{ path: 'format', message: 'Expected "spanplus-job"' }]);
+    expect(parseError(JSON.stringify({ schemaVersion: JOB_FILE_VERSION + 1 })).issues[0].path).toBe('schemaVersion');
+  });
+
+  it('reports each invalid field by its path', () => {
+    const error = parseError(JSON.stringify({ profileData: makeProfile({ length: -1 }), exportData: makeExportData() }));
+    expect(error.issues.map(issue => issue.path)).toContain('profileData.length');
+  });
+
+  it('rejects a punch station without a name', () => {
+    const punchStations = [{ ...DEFAULT_PUNCH_STATIONS[0], station: 7 }];
+    const file = createJobFile(details, { profileData: makeProfile(), exportData: makeExportData(), punchOverrides: [], clashSuppressions: [] });
+    const text = JSON.stringify({ ...file, profileData: { ...file.profileData, punchStations } });
+    expect(parseError(text).issues).toContainEqual({ path: 'profileData.punchStations.0.station', message: 'Expected a punch station name' });
+  });
+});
@@ -0,0 +1,297 @@
+import * as z from 'zod';
+import { ExportData, ProfileData } from '@/types/form-types';
+import { ClashSuppression, Punch, PunchOverride } from '@/types/manufacturing';
+import { exportSchema, profileSchema, punchSchema } from './schemas';
+import { getActiveMachine, getToolingLibrary } from './tooling-library';
+import { diffPunchOverrides, getGeneratedPunches, getOverridePunch } from './punch-overrides';
+import { DEFAULT_PUNCH_STATIONS } from './constants';
+import type { JobSnapshot } from './job-library';
+
+/**
+ * Job File Format (.spanplus.json)
+ *
+ * A portable job for emailing between estimators and keeping in project folders:
+ *
+ *   {
+ *     "format": "spanplus-job",
+ *     "schemaVersion": 3,
+ *     "job": { "name", "customer", "revision", "createdAt", "updatedAt" },   // ISO dates
+ *     "tooling": { "machineId", "machineName", "stations": [...] } | null,  // machine the job was made for
+ *     "profileData": { ...ProfileData },
+ *     "exportData": { ...ExportData },
+ *     "punchOverrides": [{ "id", "kind", ... }],                           // manual edits on the generated program
+ *     "clashSuppressions": [{ "id", "ruleId", "fingerprint", "note", ... }] // accepted clash issues
+ *   }
+ *
+ * Files from older versions are migrated forward on load. Version 0 is the bare
+ * { "profileData", "exportData" } job accepted by the command line generator; version 1
+ * kept the edited program as "manualPunches" rather than as overrides, and version 2 had no
+ * clash suppressions.
+ */
+
+export const JOB_FILE_FORMAT = 'spanplus-job';
+export const JOB_FILE_VERSION = 3;
+export const JOB_FILE_EXTENSION = '.spanplus.json';
+
+export interface JobFileDetails {
+  name: string;
+  customer: string;
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobFileTooling {
+  machineId: string;
+  machineName: string;
+  stations: string[];
+}
+
+export interface JobFile {
+  format: typeof JOB_FILE_FORMAT;
+  schemaVersion: typeof JOB_FILE_VERSION;
+  job: JobFileDetails;
+  tooling: JobFileTooling | null;
+  profileData: ProfileData;
+  exportData: ExportData;
+  punchOverrides: PunchOverride[];
+  clashSuppressions: ClashSuppression[];
+}
+
+export interface JobFileIssue {
+  path: string; // Dotted path to the field, e.g. profileData.length
+  message: string;
+}
+
+export class JobFileError extends Error {
+  constructor(
+    message: string,
+    public issues: JobFileIssue[] = []
+  ) {
+    super(message);
+    this.name = 'JobFileError';
+  }
+}
+
+const punchRefSchema = z.object({
+  type: punchSchema.shape.type,
+  position: z.number().min(0),
+});
+
+const punchOverrideSchema = z.discriminatedUnion('kind', [
+  z.object({ id: z.string().min(1), kind: z.literal('add'), punch: punchRefSchema }),
+  z.object({ id: z.string().min(1), kind: z.literal('delete'), target: punchRefSchema }),
+  z.object({ id: z.string().min(1), kind: z.literal('move'), target: punchRefSchema, position: z.number().min(0) }),
+  z.object({ id: z.string().min(1), kind: z.literal('lock'), target: punchRefSchema }),
+]);
+
+const clashSuppressionSchema = z.object({
+  id: z.string().min(1),
+  ruleId: z.string().min(1),
+  fingerprint: z.string().min(1),
+  issue: z.string(),
+  note: z.string().trim().min(1, 'A suppression needs a note'),
+  author: z.string().trim().min(1, 'A suppression needs an author'),
+  createdAt: z.string().datetime(),
+});
+
+const jobFileSchema = z.object({
+  format: z.literal(JOB_FILE_FORMAT),
+  schemaVersion: z.literal(JOB_FILE_VERSION),
+  job: z.object({
+    name: z.string().min(1),
+    customer: z.string(),
+    revision: z.number().int().min(1),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  }),
+  tooling: z.object({
+    machineId: z.string(),
+    machineName: z.string(),
+    stations: z.array(z.string()),
+  }).nullable(),
+  profileData: profileSchema,
+  exportData: exportSchema,
+  punchOverrides: z.array(punchOverrideSchema)
+    .superRefine((overrides, ctx) => {
+      const seen = new Set<string>();
+      overrides.forEach((override, index) => {
+        if (seen.has(override.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate override id "${override.id}"` });
+        }
+        seen.add(override.id);
+      });
+    }),
+  clashSuppressions: z.array(clashSuppressionSchema),
+});
+
+// Version 1 content that has to be valid before its manual punches can become overrides
+const manualPunchesJobSchema = z.object({
+  profileData: profileSchema,
+  exportData: exportSchema,
+  manualPunches: z.array(punchSchema).nullable(),
+});
+
+type RawJobFile = Record<string, unknown>;
+
+const withPunchIds = (punches: Punch[]) =>
+  punches.map((punch, index) => ({ id: `P${index + 1}`, position: punch.position, type: punch.type, active: punch.active }));
+
+/**
+ * Migrations from each version to the next, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (file: RawJobFile) => RawJobFile> = {
+  0: (file) => {
+    const now = new Date().toISOString();
+    const exportData = (file.exportData ?? {}) as Partial<ExportData>;
+    const profileData = (file.profileData ?? {}) as Partial<ProfileData>;
+    const manualPunches = Array.isArray(file.manualPunches) ? withPunchIds(file.manualPunches as Punch[]) : null;
+
+    return {
+      format: JOB_FILE_FORMAT,
+      schemaVersion: 1,
+      job: {
+        name: exportData.programName || 'Untitled job',
+        customer: '',
+        revision: 1,
+        createdAt: now,
+        updatedAt: now,
+      },
+      tooling: null,
+      // Version 0 jobs came from scripts that left the form's station toggles out - all stations punch
+      profileData: { punchStations: DEFAULT_PUNCH_STATIONS.map((station) => ({ ...station })), ...profileData },
+      exportData,
+      manualPunches,
+    };
+  },
+  1: (file) => {
+    const { manualPunches, ...rest } = file;
+    const punches = manualPunches ?? null;
+    let punchOverrides: PunchOverride[] = [];
+
+    if (punches !== null) {
+      const job = check(manualPunchesJobSchema, { profileData: file.profileData, exportData: file.exportData, manualPunches: punches });
+      punchOverrides = diffPunchOverrides(
+        getGeneratedPunches(job.profileData as ProfileData, job.exportData),
+        job.manualPunches as Punch[]
+      );
+    }
+
+    return { ...rest, schemaVersion: 2, punchOverrides };
+  },
+  2: (file) => ({ ...file, schemaVersion: 3, clashSuppressions: [] }),
+};
+
+const formatPath = (path: (string | number)[]) => path.join('.') || '(file)';
+
+const check = <T>(schema: z.ZodType<T>, value: unknown): T => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }));
+    throw new JobFileError(
+      `Invalid job file: ${issues.map((issue) => `${issue.path} - ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+  return result.data;
+};
+
+const validate = (file: unknown): JobFile => check(jobFileSchema, file) as JobFile;
+
+/**
+ * Read a job file, migrating older versions forward.
+ * Throws JobFileError with field-level issues when the file can't be used.
+ */
+export function parseJobFile(text: string): JobFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new JobFileError(`Job file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new JobFileError('Job file must contain a JSON object');
+  }
+
+  let file = raw as RawJobFile;
+  if (file.format !== undefined && file.format !== JOB_FILE_FORMAT) {
+    throw new JobFileError(`Not a Span+ job file (format "${String(file.format)}")`, [
+      { path: 'format', message: `Expected "${JOB_FILE_FORMAT}"` },
+    ]);
+  }
+
+  let version = file.schemaVersion === undefined ? 0 : file.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new JobFileError('Job file has an invalid schema version', [
+      { path: 'schemaVersion', message: 'Expected a whole number' },
+    ]);
+  }
+  if (version > JOB_FILE_VERSION) {
+    throw new JobFileError(`Job file version ${version} was made by a newer Span+ (this version reads up to ${JOB_FILE_VERSION})`, [
+      { path: 'schemaVersion', message: `Expected ${JOB_FILE_VERSION} or lower` },
+    ]);
+  }
+
+  while (version < JOB_FILE_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+
+  return validate(file);
+}
+
+/**
+ * Build a job file for the current job, referencing the active machine
+ */
+export function createJobFile(details: JobFileDetails, snapshot: JobSnapshot): JobFile {
+  const machine = getActiveMachine();
+
+  return {
+    format: JOB_FILE_FORMAT,
+    schemaVersion: JOB_FILE_VERSION,
+    job: details,
+    tooling: machine ? { machineId: machine.id, machineName: machine.name, stations: machine.stations } : null,
+    profileData: snapshot.profileData,
+    exportData: snapshot.exportData,
+    punchOverrides: snapshot.punchOverrides,
+    clashSuppressions: snapshot.clashSuppressions,
+  };
+}
+
+/**
+ * Validate and write a job file; throws JobFileError rather than writing a file that can't be read back
+ */
+export function serializeJobFile(file: JobFile): string {
+  return JSON.stringify(validate(file), null, 2) + '\n';
+}
+
+export function jobFileToSnapshot(file: JobFile): JobSnapshot {
+  return {
+    profileData: file.profileData,
+    exportData: file.exportData,
+    punchOverrides: file.punchOverrides,
+    clashSuppressions: file.clashSuppressions,
+  };
+}
+
+/**
+ * Differences between the tooling the job was made for and the active library
+ */
+export function getJobFileToolingWarnings(file: JobFile): string[] {
+  const warnings: string[] = [];
+  const library = getToolingLibrary();
+  const machine = getActiveMachine(library);
+
+  if (file.tooling && machine && file.tooling.machineId !== machine.id) {
+    warnings.push(`Job was made for ${file.tooling.machineName}, the active machine is ${machine.name}`);
+  }
+
+  const unknownStations = [...new Set(file.punchOverrides.map((override) => getOverridePunch(override).type))]
+    .filter((station) => !library.stations[station]);
+  if (unknownStations.length > 0) {
+    warnings.push(`Stations not in the tooling library: ${unknownStations.join(', ')}`);
+  }
+
+  return warnings;
+}
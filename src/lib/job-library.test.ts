@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { SavedJob } from '@/types/manufacturing';
+import { listJobs, searchJobs } from './job-library';
+
+const savedJob = (name: string, customer: string, programName: string): SavedJob => ({
+  id: `job-${name}`,
+  name,
+  customer,
+  revision: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  profileData: makeProfile(),
+  exportData: makeExportData({ programName }),
+  punchOverrides: [],
+  clashSuppressions: [],
+});
+
+describe('searchJobs', () => {
+  const jobs = [
+    savedJob('Deck extension', 'Smith Builders', 'B_5200_J600_S1200'),
+    savedJob('Carport', 'Jones Homes', 'J_4000_J600'),
+  ];
+
+  it('matches name, customer and program name regardless of case', () => {
+    expect(searchJobs(jobs, 'deck')).toEqual([jobs[0]]);
+    expect(searchJobs(jobs, 'JONES')).toEqual([jobs[1]]);
+    expect(searchJobs(jobs, 'j_4000')).toEqual([jobs[1]]);
+  });
+
+  it('needs every word to match', () => {
+    expect(searchJobs(jobs, 'deck smith')).toEqual([jobs[0]]);
+    expect(searchJobs(jobs, 'deck jones')).toEqual([]);
+  });
+
+  it('lists every job for an empty query', () => {
+    expect(searchJobs(jobs, '  ')).toBe(jobs);
+  });
+});
+
+describe('listJobs', () => {
+  it('fails without IndexedDB', async () => {
+    await expect(listJobs()).rejects.toThrow('IndexedDB is not available');
+  });
+});
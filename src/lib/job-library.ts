@@ -0,0 +1,146 @@
+import { ExportData, ProfileData } from '@/types/form-types';
+import { ClashSuppression, Punch, PunchOverride, SavedJob } from '@/types/manufacturing';
+import { diffPunchOverrides, getGeneratedPunches } from './punch-overrides';
+
+/**
+ * Job Library
+ * Jobs saved locally in IndexedDB so settings and manual punch edits survive a refresh
+ */
+
+const DB_NAME = 'span-plus';
+const DB_VERSION = 1;
+const JOB_STORE = 'jobs';
+
+export interface JobSnapshot {
+  profileData: ProfileData;
+  exportData: ExportData;
+  punchOverrides: PunchOverride[];
+  clashSuppressions: ClashSuppression[];
+}
+
+// Jobs saved before punch overrides kept the edited program itself, and older jobs have no clash suppressions
+type StoredJob =
+  | (Omit<SavedJob, 'clashSuppressions'> & { clashSuppressions?: ClashSuppression[] })
+  | (Omit<SavedJob, 'punchOverrides' | 'clashSuppressions'> & { manualPunches: Punch[] | null });
+
+let jobCounter = 0;
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(JOB_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+// Run one request in its own transaction
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(JOB_STORE, mode).objectStore(JOB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const upgradeJob = (job: StoredJob): SavedJob => {
+  if ('punchOverrides' in job) return { ...job, clashSuppressions: job.clashSuppressions ?? [] };
+
+  const { manualPunches, ...rest } = job;
+  return {
+    ...rest,
+    punchOverrides: manualPunches
+      ? diffPunchOverrides(getGeneratedPunches(job.profileData, job.exportData), manualPunches)
+      : [],
+    clashSuppressions: [],
+  };
+};
+
+/**
+ * All saved jobs, most recently saved first
+ */
+export const listJobs = async (): Promise<SavedJob[]> => {
+  const jobs = await runRequest<StoredJob[]>('readonly', (store) => store.getAll());
+  return jobs.map(upgradeJob).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getJob = async (id: string): Promise<SavedJob | undefined> => {
+  const job = await runRequest<StoredJob | undefined>('readonly', (store) => store.get(id));
+  return job && upgradeJob(job);
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+const putJob = async (job: SavedJob): Promise<SavedJob> => {
+  await runRequest('readwrite', (store) => store.put(job));
+  return job;
+};
+
+/**
+ * Save the snapshot as a new job, or over an existing one as its next revision
+ */
+export const saveJob = async (
+  details: { name: string; customer: string },
+  snapshot: JobSnapshot,
+  existingId?: string,
+): Promise<SavedJob> => {
+  const now = new Date().toISOString();
+  const existing = existingId ? await getJob(existingId) : undefined;
+
+  return putJob({
+    id: existing?.id ?? `job-${Date.now()}-${jobCounter++}`,
+    name: details.name,
+    customer: details.customer,
+    revision: existing ? existing.revision + 1 : 1,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    profileData: snapshot.profileData,
+    exportData: snapshot.exportData,
+    punchOverrides: snapshot.punchOverrides,
+    clashSuppressions: snapshot.clashSuppressions,
+  });
+};
+
+/**
+ * Add a job as it was saved elsewhere (e.g. from a job file), keeping its revision and dates
+ */
+export const addJob = (job: Omit<SavedJob, 'id'>): Promise<SavedJob> =>
+  putJob({ ...job, id: `job-${Date.now()}-${jobCounter++}` });
+
+/**
+ * Copy a job as a new job at revision 1
+ */
+export const duplicateJob = (job: SavedJob): Promise<SavedJob> =>
+  saveJob({ name: `${job.name} (copy)`, customer: job.customer }, job);
+
+/**
+ * Match jobs by name, customer or program name (case-insensitive, all words must match)
+ */
+export const searchJobs = (jobs: SavedJob[], query: string): SavedJob[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return jobs;
+
+  return jobs.filter((job) => {
+    const text = `${job.name} ${job.customer} ${job.exportData.programName}`.toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+};
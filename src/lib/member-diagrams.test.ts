@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { makeJoist, makeProfile } from '@/test/fixtures';
+import { STEEL } from './section-properties';
+import { DESIGN_BASIS, getMemberLoads, getMemberSection } from './structural-capacity';
+import { getMemberDiagrams } from './member-diagrams';
+
+const valueAt = (diagrams: ReturnType<typeof getMemberDiagrams>, key: 'shear' | 'moment' | 'deflection', position: number) =>
+  diagrams.points.reduce((nearest, point) => (Math.abs(point.position - position) < Math.abs(nearest.position - position) ? point : nearest))[key];
+
+describe('getMemberDiagrams', () => {
+  const joist = makeJoist();
+  const section = getMemberSection(joist);
+  const loads = getMemberLoads(section, joist.joistSpacing, 2.5);
+  const span = joist.length;
+
+  it('spans a joist end to end under its floor load', () => {
+    const diagrams = getMemberDiagrams(joist);
+    expect(diagrams.kpa).toBe(2.5);
+    expect(diagrams.supports).toEqual([0, span]);
+    expect(diagrams.peaks.shear.value).toBeCloseTo((loads.strength * span) / 2 / 1000);
+    expect(diagrams.peaks.moment).toMatchObject({ position: span / 2 });
+    expect(diagrams.peaks.moment.value).toBeCloseTo((loads.strength * span * span) / 8 / 1e6);
+    expect(diagrams.peaks.deflection.value).toBeCloseTo(
+      (5 * (loads.dead + loads.live) * span ** 4) / (384 * STEEL.elasticModulus * section.secondMoment)
+    );
+  });
+
+  it('steps the shear by the factored point load', () => {
+    const withLoad = getMemberDiagrams({ ...joist, pointLoads: [{ position: 1000, load: 2, dead: 1, bearingLength: 100 }] });
+    const step = valueAt(withLoad, 'shear', 999.5) - valueAt(withLoad, 'shear', 1000.5);
+    expect(step).toBeCloseTo(DESIGN_BASIS.deadFactor * 1 + DESIGN_BASIS.liveFactor * 2);
+    expect(withLoad.peaks.moment.value).toBeGreaterThan(getMemberDiagrams(joist).peaks.moment.value);
+  });
+
+  it('takes the dead only combination for a dead point load', () => {
+    const withLoad = getMemberDiagrams({ ...joist, pointLoads: [{ position: 1000, load: 0, dead: 4, bearingLength: 100 }] });
+    expect(valueAt(withLoad, 'shear', 999.5) - valueAt(withLoad, 'shear', 1000.5)).toBeCloseTo(DESIGN_BASIS.deadOnlyFactor * 4);
+  });
+
+  it('takes a bearer between its posts, with no moment over them', () => {
+    const diagrams = getMemberDiagrams(makeProfile(), 2);
+    expect(diagrams.supports).toEqual([0, 2600, 5200]);
+    expect(valueAt(diagrams, 'moment', 2600)).toBeCloseTo(0);
+    expect(valueAt(diagrams, 'deflection', 2600)).toBeCloseTo(0);
+    expect(diagrams.peaks.moment.value).toBeGreaterThan(0);
+  });
+
+  it('sends a load over a post straight into it', () => {
+    const bearer = makeProfile();
+    const atPost = getMemberDiagrams({ ...bearer, pointLoads: [{ position: 2600, load: 10, bearingLength: 100 }] }, 2);
+    expect(atPost.peaks).toEqual(getMemberDiagrams(bearer, 2).peaks);
+  });
+});
@@ -0,0 +1,147 @@
+import { PointLoad, ProfileData } from '@/types/form-types';
+import { STEEL } from './section-properties';
+import { getMemberLoads, getMemberSection, getStrengthLoad } from './structural-capacity';
+import { getJoistReactions } from './bearer-design';
+import { getJoistPositions, getPostPositions } from './platform-schedule';
+import { isBearerProfile } from './utils/manufacturing';
+
+/**
+ * Member Diagrams
+ * Shear, bending moment and deflection along a member under its kPa rating - floor load on a
+ * joist, the joists' reactions on a bearer - plus any point loads on it. Joists span end to end;
+ * bearers are taken between their posts, each bay simply supported as in the bearer check.
+ * Posts stand at a bearer's ends, so there is no cantilever: every load is inside a bay or over a
+ * post, which takes it straight down. Shear and moment are at strength - each load at the
+ * combination that governs it, max(1.35G, 1.2G + 1.5Q) as for floor load - and deflection under
+ * the service load.
+ */
+
+export interface DiagramPoint {
+  position: number; // Along the member
+  shear: number; // kN
+  moment: number; // kNm, sagging positive
+  deflection: number; // mm, downwards positive
+}
+
+export type DiagramValue = 'shear' | 'moment' | 'deflection';
+
+export interface DiagramPeak {
+  position: number;
+  value: number;
+}
+
+export interface MemberDiagrams {
+  kpa: number;
+  supports: number[];
+  points: DiagramPoint[];
+  peaks: Record<DiagramValue, DiagramPeak>;
+}
+
+// Evenly spaced points across each bay, besides the points either side of every load
+const BAY_SAMPLES = 60;
+
+// Offset either side of a point load, so the shear diagram steps at the load
+const STEP_OFFSET = 0.5;
+
+type MemberLoad = { position: number; strength: number; service: number }; // N
+
+// A load from its dead and live parts in kN
+const memberLoad = (position: number, dead: number, live: number): MemberLoad => ({
+  position,
+  strength: getStrengthLoad(dead, live) * 1000,
+  service: (dead + live) * 1000,
+});
+
+const pointLoadsOf = (pointLoads: PointLoad[] = []): MemberLoad[] =>
+  pointLoads.map(pointLoad => memberLoad(pointLoad.position, pointLoad.dead ?? 0, pointLoad.load));
+
+/**
+ * Loads a member carries - per mm along it and at points - at strength and in service
+ */
+const getLoads = (profileData: ProfileData, kpa: number) => {
+  const section = getMemberSection(profileData);
+
+  if (!isBearerProfile(profileData.profileType)) {
+    const loads = getMemberLoads(section, profileData.joistSpacing, kpa);
+    return {
+      section,
+      uniform: { strength: loads.strength, service: loads.dead + loads.live },
+      points: pointLoadsOf(profileData.pointLoads),
+    };
+  }
+
+  const joistPositions = [0, ...getJoistPositions(profileData.length, profileData.joistSpacing, profileData.screensEnabled), profileData.length];
+  const reactions = getJoistReactions(
+    joistPositions,
+    profileData.joistLength ?? 0,
+    profileData.joistBox ? 'Joist Box' : 'Joist Single',
+    profileData.profileHeight,
+    kpa
+  );
+  return {
+    section,
+    uniform: { strength: getStrengthLoad(section.selfWeight, 0), service: section.selfWeight },
+    points: [
+      ...reactions.map(reaction => memberLoad(reaction.position, reaction.dead, reaction.live)),
+      ...pointLoadsOf(profileData.pointLoads),
+    ],
+  };
+};
+
+// Largest value either way, and where it occurs
+const peakOf = (points: DiagramPoint[], key: DiagramValue): DiagramPeak =>
+  points.reduce<DiagramPeak>(
+    (peak, point) => (Math.abs(point[key]) > Math.abs(peak.value) ? { position: point.position, value: point[key] } : peak),
+    { position: 0, value: 0 }
+  );
+
+/**
+ * Diagrams for a member, with a bearer's posts at each end and every bay division
+ */
+export function getMemberDiagrams(profileData: ProfileData, bays = 1): MemberDiagrams {
+  const kpa = Number(profileData.kpaRating || '2.5');
+  const supports = isBearerProfile(profileData.profileType) ? getPostPositions(profileData.length, bays) : [0, profileData.length];
+  const { section, uniform, points: loads } = getLoads(profileData, kpa);
+  const stiffness = STEEL.elasticModulus * section.secondMoment;
+
+  const points = supports.slice(1).flatMap((end, index) => {
+    const start = supports[index];
+    const span = end - start;
+    const within = loads
+      .filter(load => load.position > start && load.position < end)
+      .map(load => ({ ...load, at: load.position - start }));
+    const leftReaction = within.reduce((sum, load) => sum + (load.strength * (span - load.at)) / span, 0) + (uniform.strength * span) / 2;
+
+    const shearAt = (x: number) => leftReaction - within.reduce((sum, load) => sum + (load.at < x ? load.strength : 0), 0) - uniform.strength * x;
+    const momentAt = (x: number) => leftReaction * x
+      - within.reduce((sum, load) => sum + (load.at < x ? load.strength * (x - load.at) : 0), 0)
+      - (uniform.strength * x * x) / 2;
+    const deflectionAt = (x: number) => within.reduce((sum, { at, service }) => sum + (x <= at
+      ? (service * (span - at) * x * (span * span - (span - at) ** 2 - x * x)) / (6 * span * stiffness)
+      : (service * at * (span - x) * (span * span - at * at - (span - x) ** 2)) / (6 * span * stiffness)),
+    (uniform.service * x * (span ** 3 - 2 * span * x * x + x ** 3)) / (24 * stiffness));
+
+    const samples = [
+      ...Array.from({ length: BAY_SAMPLES + 1 }, (_, i) => (span * i) / BAY_SAMPLES),
+      ...within.flatMap(load => [load.at - STEP_OFFSET, load.at + STEP_OFFSET]),
+    ].filter(x => x >= 0 && x <= span).sort((a, b) => a - b);
+
+    return samples.map(x => ({
+      position: start + x,
+      shear: shearAt(x) / 1000,
+      moment: momentAt(x) / 1e6,
+      deflection: deflectionAt(x),
+    }));
+  });
+
+  return {
+    kpa,
+    supports,
+    points,
+    peaks: {
+      shear: peakOf(points, 'shear'),
+      moment: peakOf(points, 'moment'),
+      deflection: peakOf(points, 'deflection'),
+    },
+  };
+}
@@ -5,9 +5,11 @@ import {
   NCCalculations,
   PunchStationType,
 } from '@/types/form-types';
-import { PunchStationConfig } from '@/types/manufacturing';
+import { NCProgram, PunchStationConfig } from '@/types/manufacturing';
 import { MANUFACTURING_CONSTANTS } from './constants';
-import { roundHalf, calculateBoltOffset, isBearerProfile, isJoistProfile } from './utils/manufacturing';
+import { getPostProcessor } from './post-processors';
+import { getToolingStation } from './tooling-library';
+import { roundHalf, calculateBoltOffset, getServiceHoleStation, isBearerProfile, isJoistProfile } from './utils/manufacturing';
 
 interface Punch {
   position: number;
@@ -18,7 +20,9 @@ interface Punch {
 export class NCFileGenerator {
   private calculations: NCCalculations;
   private partCode = '';
+  private profileType = '';
   private quantity = 1;
+  private postProcessorId: string | undefined;
   private manualPunches: Punch[] | null = null;
   private isManualMode = false;
   private updateVersion = 0; // Track updates to force re-renders
@@ -71,6 +75,9 @@ export class NCFileGenerator {
           // Both SERVICE and CORNER BRACKETS go to stubs array  
           this.calculations.stubs.push(punchData);
           break;
+        default:
+          // Stations added in the tooling library are grouped by the part of the profile they punch
+          this.getCalculationGroup(punch.type).push(punchData);
       }
     });
     
@@ -80,6 +87,17 @@ export class NCFileGenerator {
     }
   }
   
+  private getCalculationGroup(station: string) {
+    switch (getToolingStation(station)?.kind) {
+      case 'flange-hole': return this.calculations.boltHoles;
+      case 'dimple': return this.calculations.dimples;
+      case 'web-tab': return this.calculations.webHoles;
+      case 'stub': return this.calculations.stubs;
+      // Service holes, and stations missing from the library so clash detection can flag them
+      default: return this.calculations.serviceHoles;
+    }
+  }
+
   private syncBearerBoltHolesWithWebTabs() {
     // Get all web tab positions, sorted by position
     const webTabPositions = this.calculations.webHoles
@@ -129,6 +147,13 @@ export class NCFileGenerator {
     return this.updateVersion;
   }
 
+  /**
+   * Current punch program when manual edits are active, otherwise null
+   */
+  getManualPunches(): Punch[] | null {
+    return this.isManualMode ? this.getPunches() : null;
+  }
+
   private initializeCalculations(): NCCalculations {
     return {
       boltHoles: [],
@@ -148,15 +173,18 @@ export class NCFileGenerator {
     };
   }
 
-  updateCalculations(_platformData: PlatformData, profileData: ProfileData, exportData: ExportData) {
+  updateCalculations(platformData: PlatformData | null, profileData: ProfileData, exportData: ExportData) {
     const length = profileData.length;
     const profileType = profileData.profileType;
-    const joistSpacing = profileData.joistSpacing;
+    // Bearers carry joists at the platform pitch when generated as part of a platform
+    const joistSpacing = platformData && isBearerProfile(profileType) ? platformData.pitch : profileData.joistSpacing;
     const holeType = profileData.holeType;
     const screensEnabled = profileData.screensEnabled || false;
 
-    // Store quantity for CSV generation
+    // Store profile type and quantity for CSV generation
+    this.profileType = profileType;
     this.quantity = exportData.quantity || 1;
+    this.postProcessorId = exportData.postProcessor;
 
     // Use program name from export data as part code, or generate a basic one as fallback
     if (exportData.programName) {
@@ -245,20 +273,6 @@ export class NCFileGenerator {
     }
   }
 
-  private getServiceHoleType(holeType: string): PunchStationType {
-    switch (holeType) {
-      case '115 Round':
-      case '115mm':
-        return 'SMALL SERVICE HOLE';
-      case '200mm x 400mm':
-      case '200 x 400 Oval':
-        return 'LARGE SERVICE HOLE';
-      case '200mm':
-      case '200 Round':
-      default:
-        return 'M SERVICE HOLE';
-    }
-  }
 
   private generateHolePositions(
     profileType: string,
@@ -567,7 +581,7 @@ export class NCFileGenerator {
     const serviceStart = startPos + (availableLength - totalServiceSpan) / 2;
     
     const servicePositions: number[] = [];
-    const serviceHoleType = this.getServiceHoleType(holeType || '200mm');
+    const serviceHoleType = getServiceHoleStation(holeType || '200mm');
     for (let i = 0; i < maxServiceHoles; i++) {
       const position = serviceStart + (i * serviceHoleSpacing);
       servicePositions.push(roundHalf(position));
@@ -897,7 +911,7 @@ export class NCFileGenerator {
         // Generate service holes symmetrically
         const totalServiceSpan = (maxServiceHoles - 1) * serviceHoleSpacing;
         const serviceStart = serviceHoleSpacing + (availableLength - totalServiceSpan) / 2;
-        const serviceHoleType = this.getServiceHoleType(holeType);
+        const serviceHoleType = getServiceHoleStation(holeType);
         
         for (let i = 0; i < maxServiceHoles; i++) {
           const position = serviceStart + (i * serviceHoleSpacing);
@@ -1101,7 +1115,7 @@ export class NCFileGenerator {
       if (maxServiceHoles >= 1) {
         const totalServiceSpan = (maxServiceHoles - 1) * serviceHoleSpacing;
         const serviceStart = startPos + (availableLength - totalServiceSpan) / 2;
-        const serviceHoleType = this.getServiceHoleType(holeType);
+        const serviceHoleType = getServiceHoleStation(holeType);
         
         for (let i = 0; i < maxServiceHoles; i++) {
           const position = serviceStart + (i * serviceHoleSpacing);
@@ -1217,7 +1231,7 @@ export class NCFileGenerator {
         .sort((a, b) => a - b);
       
       const serviceHoleSpacing = 650;
-      const serviceHoleType = this.getServiceHoleType(holeType);
+      const serviceHoleType = getServiceHoleStation(holeType);
       
       // Generate service holes between each pair of web tabs
       for (let i = 0; i < webTabPositions.length - 1; i++) {
@@ -1255,14 +1269,10 @@ export class NCFileGenerator {
     }
   }
 
-  generateCSV(): string {
-    const profileType = this.partCode.startsWith('B') ? 'BEARER' : 'JOIST';
-    const componentCode = profileType === 'BEARER' ? 'B1-1' : 'J1-1';
-
-    // Actual length (mm)
-    const length = this.calculations.lengthMod + this.calculations.endExclusion || 5200;
-
-    // Gather all active punches
+  /**
+   * All active punches of the current program, sorted by position
+   */
+  getPunches(): Punch[] {
     const punches: Punch[] = [];
     const pushActive = (arr: typeof this.calculations.boltHoles) =>
       arr.filter((h) => h.active).forEach((h) => punches.push({ position: h.position, type: h.type as PunchStationType, active: true }));
@@ -1274,17 +1284,37 @@ export class NCFileGenerator {
     pushActive(this.calculations.stubs);
 
     // Sort by position ascending
-    punches.sort((a, b) => a.position - b.position);
+    return punches.sort((a, b) => a.position - b.position);
+  }
 
-    let csvLine = `csvCOMPONENT,${componentCode},${this.partCode},${profileType},NORMAL,${this.quantity},${length},0,0,${length},0,50`;
+  /**
+   * Machine-neutral program for the current part
+   */
+  getProgram(componentCode?: string): NCProgram {
+    const isBearer = this.profileType ? isBearerProfile(this.profileType) : this.partCode.startsWith('B');
+    const memberType = isBearer ? 'BEARER' : 'JOIST';
 
-    punches.forEach((p) => {
-      // Map CORNER BRACKETS to SERVICE for NC export
-      const exportType = p.type === 'CORNER BRACKETS' ? 'SERVICE' : p.type;
-      csvLine += `,${exportType},${roundHalf(p.position)}`;
-    });
+    return {
+      // Component code must be unique per line when several parts share one file
+      componentCode: componentCode || (memberType === 'BEARER' ? 'B1-1' : 'J1-1'),
+      partCode: this.partCode,
+      memberType,
+      quantity: this.quantity,
+      // Actual length (mm)
+      length: this.calculations.lengthMod + this.calculations.endExclusion || 5200,
+      punches: this.getPunches(),
+    };
+  }
+
+  /**
+   * Generate the NC file with the job's post-processor (csvCOMPONENT format by default)
+   */
+  generateCSV(componentCode?: string): string {
+    return getPostProcessor(this.postProcessorId).formatPrograms([this.getProgram(componentCode)]);
+  }
 
-    return csvLine;
+  getPostProcessorId() {
+    return this.postProcessorId;
   }
 
   getCalculations(): NCCalculations {
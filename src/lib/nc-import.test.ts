@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import { Punch } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+import { getPostProcessor } from './post-processors';
+import { createBatchPart, generateBatchCSV } from './batch-job';
+import {
+  checkImportedComponent,
+  generateImportedProgram,
+  importedComponentToProfileData,
+  parseNCCsv,
+} from './nc-import';
+
+const HEADER = 'csvCOMPONENT,B1-1,B_5200,BEARER,NORMAL,2,5200,0,0,5200,0,50';
+
+// A generated bearer program with a bolt hole moved off its web tab, as written to file
+const editedBearerCsv = () => {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, makeProfile(), makeExportData({ programName: 'B_5200' }));
+  const program = generator.getProgram('B1-1');
+  const boltHoles = program.punches.filter(punch => punch.type === 'BOLT HOLE');
+  const moved = boltHoles[Math.floor(boltHoles.length / 2)];
+  const punches: Punch[] = program.punches
+    .map(punch => (punch === moved ? { ...punch, position: punch.position + 150 } : punch))
+    .sort((a, b) => a.position - b.position);
+  return getPostProcessor().formatPrograms([{ ...program, punches }]);
+};
+
+describe('parseNCCsv', () => {
+  it('reads the component header and its punches', () => {
+    const { components, errors } = parseNCCsv(`${HEADER},BOLT HOLE,30,WEB TAB,600,SERVICE,331`);
+    expect(errors).toEqual([]);
+    expect(components).toHaveLength(1);
+    expect(components[0]).toMatchObject({ componentCode: 'B1-1', partCode: 'B_5200', memberType: 'BEARER', quantity: 2, length: 5200 });
+    expect(components[0].punches.map(punch => punch.type)).toEqual(['BOLT HOLE', 'WEB TAB', 'SERVICE']);
+  });
+
+  it('reads SERVICE hits on joists as corner brackets', () => {
+    const { components } = parseNCCsv('csvCOMPONENT,J1-1,J_4000,JOIST,NORMAL,1,4000,0,0,4000,0,50,SERVICE,100');
+    expect(components[0].punches[0].type).toBe('CORNER BRACKETS');
+  });
+
+  it('skips unknown records and malformed lines with their line numbers', () => {
+    const { components, errors } = parseNCCsv(`csvPART,1\n\ncsvCOMPONENT,B1-1,B,BEARER\n${HEADER}`);
+    expect(components).toHaveLength(1);
+    expect(errors.map(error => [error.line, error.code])).toEqual([[1, 'UNKNOWN_RECORD'], [3, 'MALFORMED_LINE']]);
+  });
+
+  it('drops bad punches but keeps the rest of the component', () => {
+    const { components, errors } = parseNCCsv(`${HEADER},DRILL,100,BOLT HOLE,abc,BOLT HOLE,6000,BOLT HOLE,30,WEB TAB`);
+    expect(components[0].punches).toEqual([{ position: 30, type: 'BOLT HOLE', active: true }]);
+    expect(errors.map(error => error.code)).toEqual(['INCOMPLETE_PUNCH', 'UNKNOWN_STATION', 'INVALID_NUMBER', 'POSITION_OUT_OF_RANGE']);
+  });
+
+  it('rejects invalid member types and quantities', () => {
+    const { errors } = parseNCCsv([
+      'csvCOMPONENT,B1-1,B,POST,NORMAL,1,5200,0,0,5200,0,50',
+      'csvCOMPONENT,B1-1,B,BEARER,NORMAL,0,5200,0,0,5200,0,50',
+    ].join('\n'));
+    expect(errors.map(error => error.code)).toEqual(['INVALID_MEMBER_TYPE', 'INVALID_NUMBER']);
+  });
+});
+
+describe('importedComponentToProfileData', () => {
+  const [bearer] = parseNCCsv(HEADER).components;
+
+  it('takes the member type and length from the component', () => {
+    expect(importedComponentToProfileData(bearer, makeJoist())).toMatchObject({ profileType: 'Bearer Single', length: 5200 });
+  });
+
+  it('keeps a box profile', () => {
+    expect(importedComponentToProfileData(bearer, makeProfile({ profileType: 'Bearer Box' })).profileType).toBe('Bearer Box');
+
+    const [joist] = parseNCCsv('csvCOMPONENT,J1-1,J,JOIST,NORMAL,1,4000,0,0,4000,0,50').components;
+    expect(importedComponentToProfileData(joist, makeJoist({ profileType: 'Joist Box' }))).toMatchObject({
+      profileType: 'Joist Box',
+      endBoxJoist: true,
+    });
+  });
+
+  it('uses inferred settings when there are some', () => {
+    const inferred = makeProfile({ profileType: 'Bearer Box', joistSpacing: 450, length: 1 });
+    expect(importedComponentToProfileData(bearer, makeJoist(), inferred)).toEqual({ ...inferred, length: 5200 });
+  });
+});
+
+describe('imported programs', () => {
+  it('export the same file they were imported from', () => {
+    const csv = editedBearerCsv();
+    const [component] = parseNCCsv(csv).components;
+
+    expect(generateImportedProgram(component, makeProfile()).generateCSV(component.componentCode)).toBe(csv);
+  });
+
+  it('export the same file from the batch job', () => {
+    const csv = editedBearerCsv();
+    const [component] = parseNCCsv(csv).components;
+    const part = createBatchPart(
+      importedComponentToProfileData(component, makeProfile()),
+      { quantity: component.quantity, programName: component.partCode },
+      component.punches
+    );
+
+    expect(generateBatchCSV([part])).toBe(csv);
+  });
+
+  it('are checked for clashes as punched', () => {
+    const [component] = parseNCCsv(`${HEADER},BOLT HOLE,30,BOLT HOLE,40`).components;
+    const result = checkImportedComponent(component, makeProfile());
+    expect(result.errorCount).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { ProfileData, PunchStationType } from '@/types/form-types';
+import { Punch } from '@/types/manufacturing';
+import { getPunchDimensions } from './punch-dimensions';
+import { NCFileGenerator } from './nc-generator';
+import { ClashDetectionResult, detectClashes } from './clash-detection';
+import { isBearerProfile, isJoistProfile } from './utils/manufacturing';
+
+/**
+ * NC File Import
+ * Reads csvCOMPONENT lines (as written by the default post-processor) back into punch programs
+ */
+
+export type NCImportErrorCode =
+  | 'MALFORMED_LINE'
+  | 'UNKNOWN_RECORD'
+  | 'INVALID_MEMBER_TYPE'
+  | 'INVALID_NUMBER'
+  | 'UNKNOWN_STATION'
+  | 'INCOMPLETE_PUNCH'
+  | 'POSITION_OUT_OF_RANGE';
+
+export interface NCImportError {
+  line: number; // 1-based line number in the source file
+  code: NCImportErrorCode;
+  message: string;
+  field?: string;
+}
+
+export interface ImportedComponent {
+  line: number;
+  componentCode: string;
+  partCode: string;
+  memberType: 'BEARER' | 'JOIST';
+  quantity: number;
+  length: number;
+  punches: Punch[];
+}
+
+export interface NCImportResult {
+  components: ImportedComponent[];
+  errors: NCImportError[];
+}
+
+// csvCOMPONENT,code,part,type,NORMAL,qty,length,0,0,length,0,50 - punches follow as TYPE,POS pairs
+const HEADER_FIELD_COUNT = 12;
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Parse an NC CSV file into components and structured errors.
+ * Malformed lines are skipped; bad punches are skipped but the rest of the component is kept.
+ */
+export function parseNCCsv(text: string): NCImportResult {
+  const components: ImportedComponent[] = [];
+  const errors: NCImportError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const trimmed = rawLine.trim();
+    if (!trimmed) return;
+
+    const fields = trimmed.split(',').map((f) => f.trim());
+
+    if (fields[0] !== 'csvCOMPONENT') {
+      errors.push({ line, code: 'UNKNOWN_RECORD', message: `Unknown record type "${fields[0]}"`, field: 'record' });
+      return;
+    }
+
+    if (fields.length < HEADER_FIELD_COUNT) {
+      errors.push({
+        line,
+        code: 'MALFORMED_LINE',
+        message: `Expected at least ${HEADER_FIELD_COUNT} header fields, found ${fields.length}`,
+      });
+      return;
+    }
+
+    const [, componentCode, partCode, memberType, , quantityField, lengthField] = fields;
+
+    if (memberType !== 'BEARER' && memberType !== 'JOIST') {
+      errors.push({ line, code: 'INVALID_MEMBER_TYPE', message: `Member type must be BEARER or JOIST, found "${memberType}"`, field: 'memberType' });
+      return;
+    }
+
+    const quantity = parseNumber(quantityField);
+    const length = parseNumber(lengthField);
+    if (quantity === null || quantity < 1) {
+      errors.push({ line, code: 'INVALID_NUMBER', message: `Invalid quantity "${quantityField}"`, field: 'quantity' });
+      return;
+    }
+    if (length === null || length <= 0) {
+      errors.push({ line, code: 'INVALID_NUMBER', message: `Invalid length "${lengthField}"`, field: 'length' });
+      return;
+    }
+
+    const punchFields = fields.slice(HEADER_FIELD_COUNT);
+    if (punchFields.length % 2 !== 0) {
+      errors.push({
+        line,
+        code: 'INCOMPLETE_PUNCH',
+        message: `Punch "${punchFields[punchFields.length - 1]}" has no position`,
+        field: 'punches',
+      });
+    }
+
+    const punches: Punch[] = [];
+    for (let i = 0; i + 1 < punchFields.length; i += 2) {
+      const station = punchFields[i];
+      const position = parseNumber(punchFields[i + 1]);
+
+      if (!getPunchDimensions(station)) {
+        errors.push({ line, code: 'UNKNOWN_STATION', message: `Unknown punch station "${station}"`, field: `punches[${i / 2}].type` });
+        continue;
+      }
+      if (position === null) {
+        errors.push({ line, code: 'INVALID_NUMBER', message: `Invalid position "${punchFields[i + 1]}" for ${station}`, field: `punches[${i / 2}].position` });
+        continue;
+      }
+      if (position < 0 || position > length) {
+        errors.push({ line, code: 'POSITION_OUT_OF_RANGE', message: `${station} at ${position}mm is outside the ${length}mm profile`, field: `punches[${i / 2}].position` });
+        continue;
+      }
+
+      // Joists only use the SERVICE hit for corner brackets (remapped on export)
+      const type = (memberType === 'JOIST' && station === 'SERVICE' ? 'CORNER BRACKETS' : station) as PunchStationType;
+      punches.push({ position, type, active: true });
+    }
+
+    components.push({ line, componentCode, partCode, memberType, quantity, length, punches });
+  });
+
+  return { components, errors };
+}
+
+/**
+ * Profile settings for opening an imported component in manual mode - the settings inferred from
+ * its program when there are some, otherwise the current settings with the member type and length
+ * of the component (a box profile stays a box profile)
+ */
+export const importedComponentToProfileData = (
+  component: ImportedComponent,
+  base: ProfileData,
+  inferred?: ProfileData,
+): ProfileData => {
+  if (inferred) return { ...inferred, length: component.length };
+
+  const isBearer = component.memberType === 'BEARER';
+  const profileType: ProfileData['profileType'] = isBearer
+    ? (isBearerProfile(base.profileType) ? base.profileType : 'Bearer Single')
+    : (isJoistProfile(base.profileType) ? base.profileType : 'Joist Single');
+
+  return {
+    ...base,
+    profileType,
+    length: component.length,
+    holeType: isBearer ? 'No Holes' : base.holeType,
+    joistBox: false,
+    endBoxJoist: profileType === 'Joist Box',
+  };
+};
+
+/**
+ * Rebuild an imported component's program exactly as punched - bearer bolt holes are not
+ * re-paired with the web tabs, so holes the file places elsewhere are kept
+ */
+export const generateImportedProgram = (
+  component: ImportedComponent,
+  base: ProfileData,
+  inferred?: ProfileData,
+): NCFileGenerator => {
+  const profileData = importedComponentToProfileData(component, base, inferred);
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, { quantity: component.quantity, programName: component.partCode });
+  generator.setManualPunches(component.punches);
+  return generator;
+};
+
+/**
+ * Rebuild an imported component's program and run clash detection against it
+ */
+export const checkImportedComponent = (
+  component: ImportedComponent,
+  base: ProfileData,
+  inferred?: ProfileData,
+): ClashDetectionResult => detectClashes(
+  generateImportedProgram(component, base, inferred).getCalculations(),
+  importedComponentToProfileData(component, base, inferred)
+);
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { NCFileGenerator } from './nc-generator';
+import { generateShopDrawingPDF } from './pdf-export';
+
+const shopDrawingOptions = (punchCount?: number) => {
+  const profileData = makeProfile();
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, makeExportData({ programName: 'B_5200' }));
+  const program = generator.getProgram();
+  const punches = punchCount === undefined
+    ? program.punches
+    : Array.from({ length: punchCount }, (_, i) => ({ ...program.punches[0], position: i * 10 }));
+  return {
+    profileData,
+    calculations: generator.getCalculations(),
+    program: { ...program, punches },
+    title: 'Test Job',
+  };
+};
+
+describe('generateShopDrawingPDF', () => {
+  it('draws the elevation on an A3 landscape sheet and the punch table after it', async () => {
+    const pdf = await generateShopDrawingPDF(shopDrawingOptions());
+    expect(pdf.getNumberOfPages()).toBe(2);
+    pdf.setPage(1);
+    expect(Math.round(pdf.internal.pageSize.getWidth())).toBe(420);
+    expect(Math.round(pdf.internal.pageSize.getHeight())).toBe(297);
+  });
+
+  it('continues a long punch table onto further sheets', async () => {
+    const pdf = await generateShopDrawingPDF(shopDrawingOptions(200));
+    expect(pdf.getNumberOfPages()).toBeGreaterThan(2);
+  });
+});
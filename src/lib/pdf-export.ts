@@ -0,0 +1,504 @@
+import type { jsPDF } from 'jspdf';
+import { NCCalculations, ProfileData } from '@/types/form-types';
+import { NCProgram } from '@/types/manufacturing';
+import { ProfileElevation, getProfileElevation } from './profile-geometry';
+import { getHitCode, getPunchColor } from './punch-dimensions';
+import { getToolingLibrary } from './tooling-library';
+import type { SuppressionResult } from './clash-suppressions';
+import type { DiagramValue, MemberDiagrams } from './member-diagrams';
+
+/**
+ * PDF Shop Drawing
+ * Builds the shop drawing as vector geometry and text with jsPDF primitives (A3, mm),
+ * so lines plot sharp and the punch table paginates instead of being squashed onto one page
+ */
+
+export interface ShopDrawingOptions {
+  profileData: ProfileData;
+  calculations: NCCalculations;
+  program: NCProgram;
+  title: string;
+  suppressions?: SuppressionResult[]; // Accepted clash issues, listed on their own sheet
+  diagrams?: MemberDiagrams; // Load diagrams, drawn on their own sheet at the elevation's scale
+}
+
+// A3 sheet sizes (mm)
+const SHEET_LONG = 420;
+const SHEET_SHORT = 297;
+const MARGIN = 10;
+
+// Standard drawing scales, the first that fits the drawing area is used
+const DRAWING_SCALES = [1, 2, 5, 10, 20, 25, 50, 100];
+
+const DRAWING_AREA = { left: 30, right: SHEET_LONG - 30, top: 60, bottom: 215 };
+const PROFILE_COLOR = '#1565c0';
+const DIMENSION_COLOR = '#374151';
+const LABEL_COLOR = '#262626';
+const MIN_PUNCH_SIZE = 0.5; // Keep the smallest punches visible at large scales
+
+const TABLE_ROW_HEIGHT = 6;
+const TABLE_COLUMNS = { station: 25, hitCode: 120, position: 165, count: 225 };
+const SUPPRESSION_COLUMNS = { rule: 25, issue: 75, note: 150, author: 225, status: 262 };
+const SUPPRESSION_LINE_HEIGHT = 4;
+
+const DIAGRAM_SHEETS: Array<{ key: DiagramValue; label: string; unit: string; digits: number; color: string }> = [
+  { key: 'shear', label: 'Shear', unit: 'kN', digits: 2, color: '#F2B33D' },
+  { key: 'moment', label: 'Bending Moment', unit: 'kNm', digits: 2, color: '#1565c0' },
+  { key: 'deflection', label: 'Deflection', unit: 'mm', digits: 1, color: '#04BF9D' },
+];
+const DIAGRAM_BAND = { top: 45, height: 58, amplitude: 20 }; // Each diagram's band, and its largest value's height
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+const arrowHead = (pdf: jsPDF, x: number, y: number, direction: 'left' | 'right' | 'up' | 'down') => {
+  const size = 2;
+  const half = size / 2.5;
+  if (direction === 'left') pdf.triangle(x, y, x + size, y - half, x + size, y + half, 'F');
+  if (direction === 'right') pdf.triangle(x, y, x - size, y - half, x - size, y + half, 'F');
+  if (direction === 'up') pdf.triangle(x, y, x - half, y + size, x + half, y + size, 'F');
+  if (direction === 'down') pdf.triangle(x, y, x - half, y - size, x + half, y - size, 'F');
+};
+
+/**
+ * Station order for legends and tables: library order, then any station the library doesn't know
+ */
+const orderStations = (stations: string[]): string[] => {
+  const libraryOrder = Object.keys(getToolingLibrary().stations);
+  const present = new Set(stations);
+  return [
+    ...libraryOrder.filter((station) => present.has(station)),
+    ...[...present].filter((station) => !libraryOrder.includes(station)),
+  ];
+};
+
+/**
+ * Drawing scale and where the profile starts, shared by every sheet drawn along the profile
+ */
+const getSheetScale = (elevation: ProfileElevation) => {
+  const totalHeight = elevation.height + 2 * (elevation.flange + elevation.lip);
+  const areaWidth = DRAWING_AREA.right - DRAWING_AREA.left;
+  const areaHeight = DRAWING_AREA.bottom - DRAWING_AREA.top - 60; // Room for dimension labels
+  const scale = DRAWING_SCALES.find((s) => elevation.length / s <= areaWidth && totalHeight / s <= areaHeight)
+    ?? Math.ceil(Math.max(elevation.length / areaWidth, totalHeight / areaHeight));
+
+  return { scale, originX: DRAWING_AREA.left + (areaWidth - elevation.length / scale) / 2 };
+};
+
+/**
+ * Sheet 1: A3 landscape elevation with dimensions, legend and title block
+ */
+const drawElevationSheet = (pdf: jsPDF, { profileData, calculations, program, title }: ShopDrawingOptions, printedAt: string) => {
+  const elevation = getProfileElevation(profileData, calculations);
+  const { scale, originX } = getSheetScale(elevation);
+  const centreY = (DRAWING_AREA.top + DRAWING_AREA.bottom) / 2;
+  const px = (x: number) => originX + x / scale;
+  const py = (y: number) => centreY - (y - elevation.height / 2) / scale;
+  const topY = py(elevation.height + elevation.flange + elevation.lip);
+  const bottomY = py(-elevation.flange - elevation.lip);
+
+  // Border
+  pdf.setDrawColor('#000000');
+  pdf.setLineWidth(0.5);
+  pdf.rect(MARGIN, MARGIN, SHEET_LONG - 2 * MARGIN, SHEET_SHORT - 2 * MARGIN);
+
+  // Header with metadata
+  pdf.setTextColor('#1e293b');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.text(title || 'NC File Export', MARGIN + 8, MARGIN + 12);
+
+  const metadata = [
+    `Profile Type: ${profileData.profileType}`,
+    `Profile Length: ${profileData.length}mm`,
+    `Profile Height: ${profileData.profileHeight}mm`,
+    `Joist Spacing: ${profileData.joistSpacing}mm`,
+    profileData.joistLength ? `Joist Length: ${profileData.joistLength}mm` : null,
+    profileData.kpaRating ? `kPa Rating: ${profileData.kpaRating}` : null,
+    profileData.joistBox ? 'Joist Box: Enabled' : null,
+  ].filter((item): item is string => !!item);
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#475569');
+  metadata.forEach((item, index) => {
+    pdf.text(item, MARGIN + 8 + (index % 4) * 70, MARGIN + 21 + Math.floor(index / 4) * 5);
+  });
+
+  // Profile outline
+  pdf.setDrawColor(PROFILE_COLOR);
+  elevation.lines.forEach((line) => {
+    pdf.setLineWidth(line.layer === 'OUTLINE' ? 0.35 : 0.25);
+    pdf.line(px(line.x1), py(line.y1), px(line.x2), py(line.y2));
+  });
+
+  // Punches at true size
+  pdf.setLineWidth(0.1);
+  elevation.punches.forEach((punch) => {
+    const color = getPunchColor(punch.station);
+    const width = Math.max(punch.width / scale, MIN_PUNCH_SIZE);
+    const height = Math.max(punch.height / scale, MIN_PUNCH_SIZE);
+    pdf.setFillColor(color);
+    pdf.setDrawColor(color);
+
+    if (punch.shape === 'circle') {
+      pdf.circle(px(punch.x), py(punch.y), width / 2, 'FD');
+    } else if (punch.shape === 'ellipse') {
+      pdf.ellipse(px(punch.x), py(punch.y), width / 2, height / 2, 'FD');
+    } else {
+      pdf.rect(px(punch.x) - width / 2, py(punch.y) - height / 2, width, height, 'FD');
+    }
+  });
+
+  // Position labels: web face punches above the profile, first and last flange punches below
+  const labelPositions = (positions: number[], fromY: number, direction: 1 | -1) => {
+    let lastX = -Infinity;
+    let level = 0;
+    pdf.setLineDashPattern([0.8, 0.8], 0);
+    positions.forEach((position) => {
+      const x = px(position);
+      // Stagger labels that would overlap their neighbour
+      level = x - lastX < 3 ? (level + 1) % 3 : 0;
+      lastX = x;
+      const labelY = fromY + direction * (6 + level * 14);
+
+      pdf.setDrawColor('#666666');
+      pdf.setLineWidth(0.1);
+      pdf.line(x, fromY + direction, x, labelY);
+      pdf.text(position.toFixed(1), x + 0.8, labelY + (direction === -1 ? -1 : 12), { angle: 90 });
+    });
+    pdf.setLineDashPattern([], 0);
+  };
+
+  const webFacePositions = elevation.punches
+    .filter((punch) => punch.y > 0 && punch.y < elevation.height)
+    .map((punch) => punch.x)
+    .sort((a, b) => a - b);
+  const flangePositions = [...new Set(calculations.boltHoles.filter((hole) => hole.active).map((hole) => hole.position))]
+    .sort((a, b) => a - b);
+
+  pdf.setFont('courier', 'normal');
+  pdf.setFontSize(7);
+  pdf.setTextColor(LABEL_COLOR);
+  labelPositions(webFacePositions, topY, -1);
+  labelPositions(flangePositions.filter((_, index) => index === 0 || index === flangePositions.length - 1), bottomY, 1);
+
+  // Overall length dimension
+  const lengthY = bottomY + 36;
+  pdf.setDrawColor(DIMENSION_COLOR);
+  pdf.setFillColor(DIMENSION_COLOR);
+  pdf.setLineWidth(0.25);
+  pdf.line(px(0), lengthY, px(elevation.length), lengthY);
+  arrowHead(pdf, px(0), lengthY, 'left');
+  arrowHead(pdf, px(elevation.length), lengthY, 'right');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.setTextColor('#1e293b');
+  pdf.text(`Length: ${profileData.length}mm`, px(elevation.length / 2), lengthY + 5, { align: 'center' });
+
+  // Web height dimension
+  const heightX = px(0) - 8;
+  pdf.line(heightX, py(0), heightX, py(elevation.height));
+  arrowHead(pdf, heightX, py(elevation.height), 'up');
+  arrowHead(pdf, heightX, py(0), 'down');
+  const heightLabel = `Height: ${profileData.profileHeight}mm`;
+  pdf.text(heightLabel, heightX - 2, centreY + pdf.getTextWidth(heightLabel) / 2, { angle: 90 });
+
+  // Legend for stations on this part
+  const stations = orderStations(elevation.punches.map((punch) => punch.station));
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  stations.forEach((station, index) => {
+    const x = MARGIN + 8 + (index % 4) * 55;
+    const y = SHEET_SHORT - MARGIN - 42 + Math.floor(index / 4) * 6;
+    pdf.setFillColor(getPunchColor(station));
+    pdf.rect(x, y - 2.5, 3, 3, 'F');
+    pdf.setTextColor(LABEL_COLOR);
+    pdf.text(station, x + 5, y);
+  });
+
+  // Title block
+  const blockWidth = 150;
+  const blockX = SHEET_LONG - MARGIN - blockWidth;
+  const rows: Array<[string, string]> = [
+    ['Part Code', program.partCode],
+    ['Member', `${program.memberType} · ${profileData.profileType}`],
+    ['Length', `${program.length}mm`],
+    ['Quantity', String(program.quantity)],
+    ['Scale', `1:${scale} @ A3`],
+    ['Date', printedAt],
+  ];
+  const blockY = SHEET_SHORT - MARGIN - rows.length * 7;
+
+  pdf.setDrawColor('#000000');
+  pdf.setLineWidth(0.35);
+  pdf.rect(blockX, blockY, blockWidth, rows.length * 7);
+  pdf.setLineWidth(0.15);
+  rows.forEach(([label, value], index) => {
+    const y = blockY + index * 7;
+    if (index > 0) pdf.line(blockX, y, blockX + blockWidth, y);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.text(label, blockX + 3, y + 4.8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(value, blockX + 35, y + 4.8);
+  });
+  pdf.line(blockX + 32, blockY, blockX + 32, blockY + rows.length * 7);
+};
+
+/**
+ * Sheet 2 when asked for: A3 landscape shear, moment and deflection diagrams, lined up with the
+ * elevation at the same scale, with the supports and service holes marked
+ */
+const drawDiagramSheet = (pdf: jsPDF, { profileData, calculations, diagrams }: ShopDrawingOptions & { diagrams: MemberDiagrams }) => {
+  const elevation = getProfileElevation(profileData, calculations);
+  const { scale, originX } = getSheetScale(elevation);
+  const px = (x: number) => originX + x / scale;
+  const serviceHoles = calculations.serviceHoles.filter((hole) => hole.active);
+
+  pdf.addPage('a3', 'landscape');
+  pdf.setDrawColor('#000000');
+  pdf.setLineWidth(0.5);
+  pdf.rect(MARGIN, MARGIN, SHEET_LONG - 2 * MARGIN, SHEET_SHORT - 2 * MARGIN);
+
+  pdf.setTextColor('#1e293b');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.text('Load Diagrams', MARGIN + 8, MARGIN + 12);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#475569');
+  pdf.text(
+    `${profileData.profileType} at ${diagrams.kpa}kPa${profileData.pointLoads?.length ? ` with ${profileData.pointLoads.length} point loads` : ''} · shear and moment at strength, deflection in service · 1:${scale} @ A3`,
+    MARGIN + 8,
+    MARGIN + 19
+  );
+
+  DIAGRAM_SHEETS.forEach(({ key, label, unit, digits, color }, index) => {
+    const axisY = DIAGRAM_BAND.top + index * (DIAGRAM_BAND.height + 20) + DIAGRAM_BAND.height / 2;
+    const peak = diagrams.peaks[key];
+    const valueScale = Math.abs(peak.value) > 0 ? DIAGRAM_BAND.amplitude / Math.abs(peak.value) : 0;
+    // Deflection is drawn downwards, shear and sagging moment upwards
+    const py = (value: number) => axisY + (key === 'deflection' ? 1 : -1) * value * valueScale;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor('#1e293b');
+    pdf.text(label, MARGIN + 8, axisY - DIAGRAM_BAND.height / 2);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(LABEL_COLOR);
+    pdf.text(`max ${Math.abs(peak.value).toFixed(digits)}${unit} @ ${Math.round(peak.position)}mm`, MARGIN + 8, axisY - DIAGRAM_BAND.height / 2 + 5);
+
+    // Service holes, dashed across the band
+    pdf.setDrawColor('#9ca3af');
+    pdf.setLineWidth(0.1);
+    pdf.setLineDashPattern([0.8, 0.8], 0);
+    serviceHoles.forEach((hole) => {
+      pdf.line(px(hole.position), axisY - DIAGRAM_BAND.amplitude - 4, px(hole.position), axisY + DIAGRAM_BAND.amplitude + 4);
+    });
+    pdf.setLineDashPattern([], 0);
+
+    // Axis and supports
+    pdf.setDrawColor(DIMENSION_COLOR);
+    pdf.setFillColor(DIMENSION_COLOR);
+    pdf.setLineWidth(0.25);
+    pdf.line(px(0), axisY, px(elevation.length), axisY);
+    diagrams.supports.forEach((support) => arrowHead(pdf, px(support), axisY + 0.5, 'up'));
+
+    // The diagram itself
+    pdf.setDrawColor(color);
+    pdf.setLineWidth(0.4);
+    diagrams.points.slice(1).forEach((point, i) => {
+      const previous = diagrams.points[i];
+      pdf.line(px(previous.position), py(previous[key]), px(point.position), py(point[key]));
+    });
+
+    pdf.setFontSize(7);
+    pdf.setTextColor(color);
+    pdf.text(`${peak.value.toFixed(digits)}`, px(peak.position), py(peak.value) + (py(peak.value) < axisY ? -1.5 : 3.5), { align: 'center' });
+  });
+};
+
+/**
+ * Sheets 2+: A3 portrait punch table, grouped by station and paginated with a repeated header
+ */
+const drawPunchTable = (pdf: jsPDF, { program }: ShopDrawingOptions) => {
+  const pageBottom = SHEET_LONG - MARGIN - 15;
+  let y = 0;
+
+  const drawHeader = (continued: boolean) => {
+    pdf.addPage('a3', 'portrait');
+    pdf.setTextColor('#1e293b');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text(`Punch Station Details${continued ? ' (continued)' : ''}`, MARGIN + 10, MARGIN + 15);
+
+    y = MARGIN + 25;
+    pdf.setFillColor('#f1f5f9');
+    pdf.rect(MARGIN + 10, y, SHEET_SHORT - 2 * MARGIN - 20, TABLE_ROW_HEIGHT + 1, 'F');
+    pdf.setFontSize(10);
+    pdf.text('Station Type', TABLE_COLUMNS.station, y + 5);
+    pdf.text('Hit Code', TABLE_COLUMNS.hitCode, y + 5);
+    pdf.text('Position (mm)', TABLE_COLUMNS.position, y + 5);
+    pdf.text('Count', TABLE_COLUMNS.count, y + 5);
+    y += TABLE_ROW_HEIGHT + 1;
+  };
+
+  const ensureRoom = (rows: number) => {
+    if (y + rows * TABLE_ROW_HEIGHT > pageBottom) drawHeader(true);
+  };
+
+  drawHeader(false);
+
+  const byStation = program.punches.reduce((groups, punch) => {
+    (groups[punch.type] ??= []).push(punch.position);
+    return groups;
+  }, {} as Record<string, number[]>);
+
+  orderStations(Object.keys(byStation)).forEach((station) => {
+    const positions = byStation[station].sort((a, b) => a - b);
+
+    // Keep the station heading with at least its first punch
+    ensureRoom(2);
+    pdf.setFillColor('#f8fafc');
+    pdf.rect(MARGIN + 10, y, SHEET_SHORT - 2 * MARGIN - 20, TABLE_ROW_HEIGHT + 1, 'F');
+    pdf.setDrawColor('#cbd5e1');
+    pdf.setLineWidth(0.4);
+    pdf.line(MARGIN + 10, y, SHEET_SHORT - MARGIN - 10, y);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor('#0f172a');
+    pdf.text(`${station} (${positions.length} punches)`, TABLE_COLUMNS.station, y + 5);
+    y += TABLE_ROW_HEIGHT + 1;
+
+    positions.forEach((position, index) => {
+      ensureRoom(1);
+      pdf.setFontSize(9);
+      pdf.setTextColor(LABEL_COLOR);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(station, TABLE_COLUMNS.station + 5, y + 4);
+      pdf.text(getHitCode(station), TABLE_COLUMNS.hitCode, y + 4);
+      pdf.text(`${index + 1} of ${positions.length}`, TABLE_COLUMNS.count, y + 4);
+      pdf.setFont('courier', 'normal');
+      pdf.text(position.toFixed(1), TABLE_COLUMNS.position, y + 4);
+      pdf.setDrawColor('#e2e8f0');
+      pdf.setLineWidth(0.1);
+      pdf.line(MARGIN + 10, y + TABLE_ROW_HEIGHT, SHEET_SHORT - MARGIN - 10, y + TABLE_ROW_HEIGHT);
+      y += TABLE_ROW_HEIGHT;
+    });
+  });
+
+  // Summary
+  ensureRoom(3);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.setTextColor('#1e293b');
+  pdf.text(`Total Punches: ${program.punches.length}`, TABLE_COLUMNS.station, y + 10);
+  pdf.text(`Profile Code: ${program.partCode}`, TABLE_COLUMNS.station, y + 16);
+};
+
+/**
+ * Last sheet: accepted clash issues with their notes, so the drawing records what was signed off
+ */
+const drawSuppressionTable = (pdf: jsPDF, suppressions: SuppressionResult[]) => {
+  const pageBottom = SHEET_LONG - MARGIN - 15;
+  let y = 0;
+
+  const drawHeader = (continued: boolean) => {
+    pdf.addPage('a3', 'portrait');
+    pdf.setTextColor('#1e293b');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text(`Suppressed Clash Issues${continued ? ' (continued)' : ''}`, MARGIN + 10, MARGIN + 15);
+
+    y = MARGIN + 25;
+    pdf.setFillColor('#f1f5f9');
+    pdf.rect(MARGIN + 10, y, SHEET_SHORT - 2 * MARGIN - 20, TABLE_ROW_HEIGHT + 1, 'F');
+    pdf.setFontSize(10);
+    pdf.text('Rule', SUPPRESSION_COLUMNS.rule, y + 5);
+    pdf.text('Issue', SUPPRESSION_COLUMNS.issue, y + 5);
+    pdf.text('Note', SUPPRESSION_COLUMNS.note, y + 5);
+    pdf.text('Accepted By', SUPPRESSION_COLUMNS.author, y + 5);
+    pdf.text('Status', SUPPRESSION_COLUMNS.status, y + 5);
+    y += TABLE_ROW_HEIGHT + 1;
+  };
+
+  drawHeader(false);
+
+  suppressions.forEach(({ suppression, status }) => {
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    const cells = [
+      pdf.splitTextToSize(suppression.ruleId, SUPPRESSION_COLUMNS.issue - SUPPRESSION_COLUMNS.rule - 3) as string[],
+      pdf.splitTextToSize(suppression.issue, SUPPRESSION_COLUMNS.note - SUPPRESSION_COLUMNS.issue - 3) as string[],
+      pdf.splitTextToSize(suppression.note, SUPPRESSION_COLUMNS.author - SUPPRESSION_COLUMNS.note - 3) as string[],
+      [suppression.author, formatDateTime(new Date(suppression.createdAt))],
+    ];
+    const height = Math.max(...cells.map((lines) => lines.length)) * SUPPRESSION_LINE_HEIGHT + 2;
+    if (y + height > pageBottom) drawHeader(true);
+
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(LABEL_COLOR);
+    [SUPPRESSION_COLUMNS.rule, SUPPRESSION_COLUMNS.issue, SUPPRESSION_COLUMNS.note, SUPPRESSION_COLUMNS.author].forEach((x, index) => {
+      pdf.text(cells[index], x, y + 4);
+    });
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(status === 'active' ? '#15803d' : '#b45309');
+    pdf.text(status === 'active' ? 'Suppressed' : 'Expired', SUPPRESSION_COLUMNS.status, y + 4);
+
+    pdf.setDrawColor('#e2e8f0');
+    pdf.setLineWidth(0.1);
+    pdf.line(MARGIN + 10, y + height, SHEET_SHORT - MARGIN - 10, y + height);
+    y += height;
+  });
+
+  if (suppressions.some(({ status }) => status === 'expired')) {
+    if (y + 12 > pageBottom) drawHeader(true);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor('#475569');
+    pdf.text('Expired: the issue\'s geometry has changed since it was accepted, so the suppression no longer applies.', SUPPRESSION_COLUMNS.rule, y + 8);
+  }
+};
+
+/**
+ * Generate the shop drawing PDF for the current part
+ */
+export async function generateShopDrawingPDF(options: ShopDrawingOptions): Promise<jsPDF> {
+  // Loaded on demand to keep jsPDF out of the initial bundle
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a3' });
+  const printedAt = formatDateTime(new Date());
+
+  drawElevationSheet(pdf, options, printedAt);
+  if (options.diagrams) {
+    drawDiagramSheet(pdf, { ...options, diagrams: options.diagrams });
+  }
+  drawPunchTable(pdf, options);
+  if (options.suppressions?.length) {
+    drawSuppressionTable(pdf, options.suppressions);
+  }
+
+  // Sheet numbers on every page
+  const sheets = pdf.getNumberOfPages();
+  for (let sheet = 1; sheet <= sheets; sheet++) {
+    pdf.setPage(sheet);
+    const width = pdf.internal.pageSize.getWidth();
+    const height = pdf.internal.pageSize.getHeight();
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor('#475569');
+    pdf.text(`${options.program.partCode} · Sheet ${sheet} of ${sheets}`, width - MARGIN - 2, height - MARGIN + 5, { align: 'right' });
+  }
+
+  return pdf;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { makePlatform, makeProfile } from '@/test/fixtures';
+import { generatePlatformSchedule, getJoistPositions, getPostPositions } from './platform-schedule';
+
+describe('getJoistPositions', () => {
+  it('places joists at the pitch, leaving the end joists off', () => {
+    expect(getJoistPositions(3000, 600)).toEqual([600, 1200, 1800, 2400]);
+  });
+
+  it('starts and finishes at the screens web tabs in screens mode', () => {
+    const positions = getJoistPositions(3000, 600, true);
+    expect(positions[0]).toBe(475);
+    expect(positions[positions.length - 1]).toBe(2525);
+  });
+});
+
+describe('getPostPositions', () => {
+  it('puts posts at each end and every bay division', () => {
+    expect(getPostPositions(6000, 3)).toEqual([0, 2000, 4000, 6000]);
+  });
+
+  it('always has at least one bay', () => {
+    expect(getPostPositions(6000, 0)).toEqual([0, 6000]);
+  });
+});
+
+describe('generatePlatformSchedule', () => {
+  it('schedules two bearers the platform width and one joist per joist position', () => {
+    const schedule = generatePlatformSchedule(makePlatform(), makeProfile());
+    const [bearer, joist] = schedule.members;
+
+    expect(bearer).toMatchObject({ mark: 'B1', memberType: 'Bearer', quantity: 2, length: 6000 });
+    expect(joist).toMatchObject({ mark: 'J1', memberType: 'Joist', length: 4000 });
+    expect(joist.quantity).toBe(schedule.joistPositions.length + 2);
+    expect(schedule.postPositions).toEqual([0, 3000, 6000]);
+  });
+
+  it('does not count a joist twice where the screens web tabs meet', () => {
+    const schedule = generatePlatformSchedule(makePlatform({ width: 950 }), makeProfile({ screensEnabled: true }));
+    expect(schedule.members[1].quantity).toBe(3);
+  });
+
+  it('generates punches for every member', () => {
+    const schedule = generatePlatformSchedule(makePlatform(), makeProfile());
+    schedule.members.forEach(member => expect(member.punches.length).toBeGreaterThan(0));
+  });
+});
@@ -0,0 +1,122 @@
+import { PlatformData, ProfileData } from '@/types/form-types';
+import { PlatformMember, PlatformSchedule } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+import { MANUFACTURING_CONSTANTS } from './constants';
+import { calculateStubPositions, isBearerProfile, isJoistProfile, roundHalf } from './utils/manufacturing';
+import { getSpanTableRecommendation } from './span-table';
+
+/**
+ * Platform Schedule
+ * Expands a platform (width x span, split into post bays) into the full member schedule:
+ * two bearer lines running along the width, and joists spanning between them at the platform pitch.
+ */
+
+/**
+ * Joist positions along a bearer - mirrors the web tab rules used by the bearer generator
+ */
+export const getJoistPositions = (bearerLength: number, pitch: number, screensEnabled = false): number[] => {
+  const positions: number[] = [];
+
+  if (screensEnabled) {
+    const first = MANUFACTURING_CONSTANTS.SCREENS_BEARER_FIRST_WEB_TAB;
+    const last = bearerLength - MANUFACTURING_CONSTANTS.SCREENS_BEARER_FIRST_WEB_TAB;
+    positions.push(first);
+    for (let pos = first + pitch; pos < last; pos += pitch) {
+      positions.push(pos);
+    }
+    positions.push(last);
+  } else {
+    for (let pos = pitch; pos <= bearerLength - pitch; pos += pitch) {
+      positions.push(pos);
+    }
+  }
+
+  return positions.map(roundHalf);
+};
+
+/**
+ * Post positions along a bearer - posts at each end and at every bay division
+ */
+export const getPostPositions = (bearerLength: number, bays: number): number[] => {
+  const bayCount = Math.max(1, Math.round(bays));
+  return Array.from({ length: bayCount + 1 }, (_, i) => roundHalf((bearerLength / bayCount) * i));
+};
+
+const buildMember = (
+  platform: PlatformData,
+  mark: string,
+  quantity: number,
+  profileData: ProfileData,
+): PlatformMember => {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(platform, profileData, { quantity, programName: mark });
+
+  return {
+    mark,
+    memberType: isBearerProfile(profileData.profileType) ? 'Bearer' : 'Joist',
+    profileType: profileData.profileType,
+    length: profileData.length,
+    quantity,
+    joistSpacing: profileData.joistSpacing,
+    stubPositions: profileData.stubPositions || [],
+    profileData,
+    punches: generator.getPunches(),
+  };
+};
+
+/**
+ * Generate the complete member schedule for a platform.
+ * The template supplies the settings that are not defined by the platform itself
+ * (profile height, hole type, punch stations, kPa rating, screens mode).
+ */
+export function generatePlatformSchedule(platform: PlatformData, template: ProfileData): PlatformSchedule {
+  const kpaRating = template.kpaRating || '2.5';
+  const joistHoleType: ProfileData['holeType'] = isJoistProfile(template.profileType) ? template.holeType : '200mm';
+  const recommendation = getSpanTableRecommendation(platform.span, kpaRating, template.profileHeight, joistHoleType);
+  const joistBox = recommendation?.profileType === 'Joist Box';
+
+  // Bearers: two lines along the platform width carrying the joists at the platform pitch
+  const bearerType: ProfileData['profileType'] = isBearerProfile(template.profileType) ? template.profileType : 'Bearer Single';
+  const bearerProfile: ProfileData = {
+    ...template,
+    profileType: bearerType,
+    length: platform.width,
+    joistLength: platform.span,
+    joistSpacing: platform.pitch,
+    stubPositions: calculateStubPositions(platform.width, template.stubSpacing),
+    holeType: isBearerProfile(template.profileType) ? template.holeType : 'No Holes',
+    endBoxJoist: false,
+    kpaRating,
+    joistBox,
+  };
+
+  // Joists: one at each end of the bearers plus one at every intermediate joist position
+  const joistPositions = getJoistPositions(platform.width, platform.pitch, template.screensEnabled);
+  const joistProfile: ProfileData = {
+    ...template,
+    profileType: recommendation?.profileType ?? 'Joist Single',
+    length: platform.span,
+    joistLength: undefined,
+    joistSpacing: platform.pitch,
+    stubPositions: [],
+    holeType: joistHoleType,
+    endBoxJoist: joistBox,
+    kpaRating,
+    joistBox: false,
+  };
+
+  // In screens mode the first and last web tabs can land on each other, so count distinct positions
+  const joistCount = new Set([0, ...joistPositions, roundHalf(platform.width)]).size;
+
+  const members = [
+    buildMember(platform, 'B1', 2, bearerProfile),
+    buildMember(platform, 'J1', joistCount, joistProfile),
+  ];
+
+  return {
+    platform,
+    members,
+    joistPositions,
+    postPositions: getPostPositions(platform.width, platform.bays),
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { NCProgram } from '@/types/manufacturing';
+import { DEFAULT_POST_PROCESSOR_ID, getPostProcessor, getPostProcessors, registerPostProcessor } from './post-processors';
+
+const program: NCProgram = {
+  componentCode: 'J1-1',
+  partCode: 'J_4000',
+  memberType: 'JOIST',
+  quantity: 3,
+  length: 4000,
+  punches: [
+    { position: 30.2, type: 'BOLT HOLE', active: true },
+    { position: 131, type: 'CORNER BRACKETS', active: true },
+  ],
+};
+
+describe('csvCOMPONENT post-processor', () => {
+  it('writes one line per program with punches at half millimetre precision', () => {
+    const csv = getPostProcessor().formatPrograms([program, { ...program, componentCode: 'J1-2' }]);
+    expect(csv.split('\n')).toEqual([
+      'csvCOMPONENT,J1-1,J_4000,JOIST,NORMAL,3,4000,0,0,4000,0,50,BOLT HOLE,30,SERVICE,131',
+      'csvCOMPONENT,J1-2,J_4000,JOIST,NORMAL,3,4000,0,0,4000,0,50,BOLT HOLE,30,SERVICE,131',
+    ]);
+  });
+});
+
+describe('getPostProcessor', () => {
+  it('falls back to the default format for unknown ids', () => {
+    expect(getPostProcessor('no-such-machine').id).toBe(DEFAULT_POST_PROCESSOR_ID);
+    expect(getPostProcessor().id).toBe(DEFAULT_POST_PROCESSOR_ID);
+  });
+
+  it('finds registered post-processors', () => {
+    registerPostProcessor({
+      id: 'test-machine',
+      name: 'Test machine',
+      description: 'Punch count only',
+      fileExtension: 'txt',
+      mimeType: 'text/plain',
+      formatPrograms: (programs) => programs.map(({ punches }) => String(punches.length)).join('\n'),
+    });
+
+    expect(getPostProcessors().map(postProcessor => postProcessor.id)).toContain('test-machine');
+    expect(getPostProcessor('test-machine').formatPrograms([program])).toBe('2');
+  });
+});
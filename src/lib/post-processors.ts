@@ -0,0 +1,62 @@
+import { NCProgram } from '@/types/manufacturing';
+import { roundHalf } from './utils/manufacturing';
+import { getToolingStation } from './tooling-library';
+
+/**
+ * NC Post-Processors
+ * Turn machine-neutral punch programs into the file dialect of a specific roll former
+ */
+
+export interface PostProcessor {
+  id: string;
+  name: string;
+  description: string;
+  fileExtension: string;
+  mimeType: string;
+  // Format every program of a job into one machine file
+  formatPrograms: (programs: NCProgram[]) => string;
+}
+
+export const DEFAULT_POST_PROCESSOR_ID = 'csv-component';
+
+/**
+ * Current roll former format: one csvCOMPONENT line per part, TYPE,POS pairs at 0.5mm precision
+ */
+const csvComponentPostProcessor: PostProcessor = {
+  id: DEFAULT_POST_PROCESSOR_ID,
+  name: 'csvCOMPONENT (default)',
+  description: 'One csvCOMPONENT line per part with punch station and position pairs',
+  fileExtension: 'csv',
+  mimeType: 'text/csv',
+  formatPrograms: (programs) =>
+    programs
+      .map(({ componentCode, partCode, memberType, quantity, length, punches }) => {
+        let csvLine = `csvCOMPONENT,${componentCode},${partCode},${memberType},NORMAL,${quantity},${length},0,0,${length},0,50`;
+
+        punches.forEach((p) => {
+          // Stations sharing a tool are written under its name (e.g. CORNER BRACKETS as SERVICE)
+          const exportType = getToolingStation(p.type)?.exportAs || p.type;
+          csvLine += `,${exportType},${roundHalf(p.position)}`;
+        });
+
+        return csvLine;
+      })
+      .join('\n'),
+};
+
+const postProcessors = new Map<string, PostProcessor>([[csvComponentPostProcessor.id, csvComponentPostProcessor]]);
+
+/**
+ * Register a post-processor for another machine; replaces any existing one with the same id
+ */
+export const registerPostProcessor = (postProcessor: PostProcessor): void => {
+  postProcessors.set(postProcessor.id, postProcessor);
+};
+
+export const getPostProcessors = (): PostProcessor[] => [...postProcessors.values()];
+
+/**
+ * Look up a post-processor by id, falling back to the default format for unknown or missing ids
+ */
+export const getPostProcessor = (id?: string): PostProcessor =>
+  (id && postProcessors.get(id)) || csvComponentPostProcessor;
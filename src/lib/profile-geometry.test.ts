@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import { NCFileGenerator } from './nc-generator';
+import {
+  FLANGE_BEND_DEPTH,
+  JOIST_LIP_HEIGHT,
+  fitsProfileHeight,
+  getMinWebHeight,
+  getProfileElevation,
+  getWebPunchCentre,
+  getWebPunchHeight,
+} from './profile-geometry';
+import { MANUFACTURING_CONSTANTS } from './constants';
+
+describe('getWebPunchCentre', () => {
+  it('hangs web tabs under the top flange bend', () => {
+    expect(getWebPunchCentre('WEB TAB', 350)).toBe(350 - FLANGE_BEND_DEPTH - 20 - 35);
+  });
+
+  it('centres service holes on the web', () => {
+    expect(getWebPunchCentre('M SERVICE HOLE', 300)).toBe(150);
+  });
+});
+
+describe('getWebPunchHeight', () => {
+  it('keeps a punch at its station size', () => {
+    expect(getWebPunchHeight('WEB TAB', 200)).toBe(70);
+  });
+
+  it('fits a stub to the web between the flange bends when the web is shallower than the stub', () => {
+    expect(getWebPunchHeight('SERVICE', 350)).toBe(300);
+    expect(getWebPunchHeight('SERVICE', 200)).toBeCloseTo(200 - 2 * (FLANGE_BEND_DEPTH + MANUFACTURING_CONSTANTS.BEND_CLEARANCE));
+    expect(fitsProfileHeight('CORNER BRACKETS', 200)).toBe(true);
+  });
+});
+
+describe('getMinWebHeight', () => {
+  it('leaves the punch clear of both flange bends', () => {
+    expect(getMinWebHeight('M SERVICE HOLE')).toBe(200 + 2 * FLANGE_BEND_DEPTH);
+    expect(fitsProfileHeight('M SERVICE HOLE', 200)).toBe(false);
+    expect(fitsProfileHeight('M SERVICE HOLE', 250)).toBe(true);
+  });
+});
+
+describe('getProfileElevation', () => {
+  const elevationOf = (profileData = makeProfile()) => {
+    const generator = new NCFileGenerator();
+    generator.updateCalculations(null, profileData, makeExportData());
+    return { elevation: getProfileElevation(profileData, generator.getCalculations()), punches: generator.getPunches() };
+  };
+
+  it('draws flange punches on both flanges and web punches once', () => {
+    const { elevation, punches } = elevationOf();
+    const flangePunches = punches.filter(punch => punch.type === 'BOLT HOLE' || punch.type === 'DIMPLE').length;
+    expect(elevation.punches).toHaveLength(punches.length + flangePunches);
+  });
+
+  it('adds the lips of a joist', () => {
+    expect(elevationOf().elevation.lip).toBe(0);
+    expect(elevationOf(makeJoist()).elevation.lip).toBe(JOIST_LIP_HEIGHT);
+  });
+});
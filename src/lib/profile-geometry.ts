@@ -0,0 +1,162 @@
+import { NCCalculations, ProfileData } from '@/types/form-types';
+import { getVisualDimensions } from './punch-dimensions';
+import { getToolingStation, getWebPlacement } from './tooling-library';
+import { isJoistProfile } from './utils/manufacturing';
+import { MANUFACTURING_CONSTANTS } from './constants';
+
+/**
+ * Profile Geometry
+ * True-size elevation of a profile in mm: x along the length from the start,
+ * y up from the bottom of the web (flanges sit below 0 and above the profile height)
+ */
+
+export const JOIST_LIP_HEIGHT = 15;
+
+// Depth of each flange bend measured in from the web edge - its inside radius plus the steel
+export const FLANGE_BEND_DEPTH = MANUFACTURING_CONSTANTS.BEND_RADIUS + MANUFACTURING_CONSTANTS.PROFILE_THICKNESS;
+
+export interface ProfileLine {
+  layer: 'OUTLINE' | 'FLANGE';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PunchShape {
+  station: string;
+  x: number; // Centre
+  y: number; // Centre
+  width: number; // Along the profile
+  height: number;
+  shape: 'rect' | 'circle' | 'ellipse';
+}
+
+export interface ProfileElevation {
+  length: number;
+  height: number;
+  flange: number;
+  lip: number;
+  lines: ProfileLine[];
+  punches: PunchShape[];
+}
+
+const horizontal = (layer: ProfileLine['layer'], y: number, length: number): ProfileLine => ({ layer, x1: 0, y1: y, x2: length, y2: y });
+const vertical = (layer: ProfileLine['layer'], x: number, y1: number, y2: number): ProfileLine => ({ layer, x1: x, y1, x2: x, y2 });
+
+/**
+ * Height of a web face punch's outline. Stubs are made to suit the web: a stub station's height
+ * is the tallest it comes, and on a shallower web it fills the web between the flange bends.
+ */
+export function getWebPunchHeight(station: string, webHeight: number): number {
+  const { height } = getVisualDimensions(station);
+  if (getToolingStation(station)?.kind !== 'stub') return height;
+  return Math.min(height, webHeight - 2 * (FLANGE_BEND_DEPTH + MANUFACTURING_CONSTANTS.BEND_CLEARANCE));
+}
+
+const toShape = (station: string, x: number, y: number, height = getVisualDimensions(station).height): PunchShape => {
+  const { width } = getVisualDimensions(station);
+  const shape = getToolingStation(station)?.shape;
+  return {
+    station,
+    x,
+    y,
+    width,
+    height,
+    shape: shape === 'round' ? 'circle' : shape === 'oval' ? 'ellipse' : 'rect',
+  };
+};
+
+/**
+ * Height of a web face punch's centre above the bottom of the web, from its station's placement
+ */
+export function getWebPunchCentre(station: string, webHeight: number): number {
+  const { anchor, offset } = getWebPlacement(station);
+  const height = getWebPunchHeight(station, webHeight);
+
+  switch (anchor) {
+    case 'top':
+      return webHeight - FLANGE_BEND_DEPTH - offset - height / 2;
+    case 'bottom':
+      return FLANGE_BEND_DEPTH + offset + height / 2;
+    case 'centre':
+      return webHeight / 2 + offset;
+  }
+}
+
+/**
+ * Shallowest web a station's punch fits on without cutting into either flange bend - for a stub,
+ * only its placement counts as it is made to suit the web
+ */
+export function getMinWebHeight(station: string): number {
+  const { anchor, offset } = getWebPlacement(station);
+  const height = getToolingStation(station)?.kind === 'stub' ? 0 : getVisualDimensions(station).height;
+  const span = anchor === 'centre' ? height + 2 * Math.abs(offset) : height + Math.max(offset, 0);
+  return span + 2 * FLANGE_BEND_DEPTH;
+}
+
+/**
+ * Profile heights a station can be punched on - its tooling range, with the minimum raised
+ * to the shallowest web the punch physically fits
+ */
+export function getStationHeightRange(station: string): { min: number; max?: number } {
+  const range = getToolingStation(station)?.heightRange;
+  return {
+    min: Math.max(range?.min ?? 0, Math.ceil(getMinWebHeight(station))),
+    max: range?.max,
+  };
+}
+
+export const fitsProfileHeight = (station: string, profileHeight: number): boolean => {
+  const { min, max } = getStationHeightRange(station);
+  return profileHeight >= min && (max === undefined || profileHeight <= max);
+};
+
+/**
+ * Outline of a web face punch at its position along the profile and its placement up the web
+ */
+export const getWebPunchShape = (station: string, position: number, webHeight: number): PunchShape =>
+  toShape(station, position, getWebPunchCentre(station, webHeight), getWebPunchHeight(station, webHeight));
+
+/**
+ * Build the elevation from the same calculations that drive the visualisation
+ */
+export function getProfileElevation(profileData: ProfileData, calculations: NCCalculations): ProfileElevation {
+  const length = profileData.length;
+  const height = profileData.profileHeight;
+  const flange = calculations.flange;
+  const lip = isJoistProfile(profileData.profileType) ? JOIST_LIP_HEIGHT : 0;
+  const bottom = -flange - lip;
+  const top = height + flange + lip;
+
+  const lines: ProfileLine[] = [
+    // Web outline
+    horizontal('OUTLINE', 0, length),
+    horizontal('OUTLINE', height, length),
+    // Flange and lip edges
+    horizontal('FLANGE', -flange, length),
+    horizontal('FLANGE', height + flange, length),
+    vertical('OUTLINE', 0, bottom, top),
+    vertical('OUTLINE', length, bottom, top),
+  ];
+  if (lip) {
+    lines.push(horizontal('FLANGE', bottom, length), horizontal('FLANGE', top, length));
+  }
+
+  const punches: PunchShape[] = [];
+
+  // Flange punches are hit through both flanges, centred on each flange
+  [...calculations.boltHoles, ...calculations.dimples]
+    .filter((punch) => punch.active)
+    .forEach((punch) => {
+      punches.push(toShape(punch.type, punch.position, -flange / 2));
+      punches.push(toShape(punch.type, punch.position, height + flange / 2));
+    });
+
+  // Web face punches sit up the web where their station places them
+  [...calculations.webHoles, ...calculations.serviceHoles, ...calculations.stubs]
+    .filter((punch) => punch.active)
+    .forEach((punch) => punches.push(getWebPunchShape(punch.type, punch.position, height)));
+
+  return { length, height, flange, lip, lines, punches };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import { ProfileData } from '@/types/form-types';
+import { NCFileGenerator } from './nc-generator';
+import { ImportedComponent } from './nc-import';
+import { comparePunches, inferProfileData } from './profile-inference';
+import { calculateStubPositions } from './utils/manufacturing';
+
+// The component a profile's program would import as
+const importedFrom = (profileData: ProfileData): ImportedComponent => {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, makeExportData({ programName: 'IMPORTED' }));
+  const program = generator.getProgram();
+  return { line: 1, ...program, length: profileData.length };
+};
+
+describe('comparePunches', () => {
+  it('matches punches of the same type within half a millimetre', () => {
+    const result = comparePunches(
+      [{ position: 100, type: 'BOLT HOLE', active: true }, { position: 200, type: 'DIMPLE', active: true }],
+      [{ position: 100.5, type: 'BOLT HOLE', active: true }, { position: 200, type: 'WEB TAB', active: true }]
+    );
+    expect(result.matched).toBe(1);
+    expect(result.missing).toEqual([{ position: 200, type: 'DIMPLE', active: true }]);
+    expect(result.extra).toEqual([{ position: 200, type: 'WEB TAB', active: true }]);
+    expect(result.confidence).toBeCloseTo(1 / 3);
+  });
+
+  it('is fully confident when both programs are empty', () => {
+    expect(comparePunches([], []).confidence).toBe(1);
+  });
+});
+
+describe('inferProfileData', () => {
+  it('finds the spacings a bearer program was generated with', () => {
+    const original = makeProfile({ joistSpacing: 450, stubSpacing: 900, stubPositions: calculateStubPositions(5200, 900) });
+    const inference = inferProfileData(importedFrom(original), makeProfile());
+
+    expect(inference.confidence).toBe(1);
+    expect(inference.profileData).toMatchObject({ joistSpacing: 450, stubSpacing: 900, joistBox: false });
+  });
+
+  it('finds a joist box program', () => {
+    const original = makeJoist({ profileType: 'Joist Box', endBoxJoist: true });
+    const inference = inferProfileData(importedFrom(original), makeJoist());
+
+    expect(inference.confidence).toBe(1);
+    expect(inference.profileData.profileType).toBe('Joist Box');
+  });
+
+  it('reports the punches no settings reproduce', () => {
+    const component = importedFrom(makeProfile());
+    component.punches = [...component.punches, { position: 2600, type: 'DIMPLE', active: true }];
+    const inference = inferProfileData(component, makeProfile());
+
+    expect(inference.confidence).toBeLessThan(1);
+    expect(inference.extra).toContainEqual({ position: 2600, type: 'DIMPLE', active: true });
+  });
+});
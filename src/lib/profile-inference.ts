@@ -0,0 +1,146 @@
+import { ProfileData } from '@/types/form-types';
+import { Punch } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+import { ImportedComponent, importedComponentToProfileData } from './nc-import';
+import { calculateStubPositions, isBearerProfile } from './utils/manufacturing';
+
+/**
+ * Profile Inference
+ * Finds the ProfileData that NCFileGenerator would regenerate an imported punch program from
+ */
+
+export interface ProfileInference {
+  profileData: ProfileData;
+  confidence: number; // 0-1, matched punches over the union of both programs
+  missing: Punch[]; // generated from the inferred settings but absent from the program
+  extra: Punch[]; // in the program but not generated from the inferred settings
+  candidatesChecked: number;
+}
+
+// Punches within this distance of each other are treated as the same hit (CSV positions are 0.5mm precision)
+const MATCH_TOLERANCE = 0.5;
+
+const STANDARD_JOIST_SPACINGS = [400, 450, 500, 600, 700, 750, 800, 900, 1000, 1200];
+const STANDARD_STUB_SPACINGS = [600, 900, 1000, 1200, 1500, 1800, 2000, 2400];
+const HOLE_TYPES: ProfileData['holeType'][] = ['No Holes', '200mm', '115 Round', '200mm x 400mm', '50mm'];
+
+/**
+ * Match two punch lists by type and position, returning the unmatched punches on each side
+ */
+export const comparePunches = (expected: Punch[], actual: Punch[]) => {
+  const unmatched = [...actual];
+  const missing: Punch[] = [];
+
+  expected.forEach((punch) => {
+    const index = unmatched.findIndex(
+      (p) => p.type === punch.type && Math.abs(p.position - punch.position) <= MATCH_TOLERANCE
+    );
+    if (index === -1) {
+      missing.push(punch);
+    } else {
+      unmatched.splice(index, 1);
+    }
+  });
+
+  const matched = expected.length - missing.length;
+  const total = expected.length + unmatched.length;
+  return { matched, missing, extra: unmatched, confidence: total === 0 ? 1 : matched / total };
+};
+
+// Standard spacings plus any gap actually seen between consecutive punches of a station
+// (current value first so equally good fits keep the current settings)
+const spacingCandidates = (current: number, standard: number[], punches: Punch[], type: string, min: number, max: number): number[] => {
+  const positions = punches.filter((p) => p.type === type).map((p) => p.position).sort((a, b) => a - b);
+  const observed = positions.slice(1).map((pos, i) => Math.round(pos - positions[i]));
+  if (positions.length) observed.push(Math.round(positions[0]));
+
+  return [...new Set([current, ...standard, ...observed])].filter((s) => s >= min && s <= max);
+};
+
+const buildCandidates = (component: ImportedComponent, base: ProfileData): ProfileData[] => {
+  const template = importedComponentToProfileData(component, base);
+  const { length, punches } = component;
+  const candidates: ProfileData[] = [];
+
+  const joistSpacings = spacingCandidates(template.joistSpacing, STANDARD_JOIST_SPACINGS, punches, 'WEB TAB', 400, 1200);
+  const holeTypes = [template.holeType, ...HOLE_TYPES.filter((h) => h !== template.holeType)];
+
+  if (isBearerProfile(template.profileType)) {
+    // Bearer Single and Bearer Box punch identically, keep whichever the current settings use
+    const profileType = isBearerProfile(base.profileType) ? base.profileType : 'Bearer Single';
+    const stubSpacings = spacingCandidates(template.stubSpacing, STANDARD_STUB_SPACINGS, punches, 'SERVICE', 600, 2400);
+
+    [false, true].forEach((joistBox) => {
+      [false, true].forEach((screensEnabled) => {
+        joistSpacings.forEach((joistSpacing) => {
+          // Stub positions are not punched in joist box mode
+          (joistBox ? [template.stubSpacing] : stubSpacings).forEach((stubSpacing) => {
+            holeTypes.forEach((holeType) => {
+              candidates.push({
+                ...template,
+                profileType,
+                joistBox,
+                screensEnabled,
+                endBoxJoist: false,
+                joistSpacing,
+                stubSpacing,
+                stubPositions: calculateStubPositions(length, stubSpacing),
+                stubsEnabled: true,
+                holeType,
+              });
+            });
+          });
+        });
+      });
+    });
+  } else {
+    (['Joist Single', 'Joist Box'] as const).forEach((profileType) => {
+      [false, true].forEach((screensEnabled) => {
+        // Joist spacing only drives the punch layout of screens joists
+        (screensEnabled ? joistSpacings : [template.joistSpacing]).forEach((joistSpacing) => {
+          holeTypes.forEach((holeType) => {
+            candidates.push({
+              ...template,
+              profileType,
+              endBoxJoist: profileType === 'Joist Box',
+              joistBox: false,
+              screensEnabled,
+              joistSpacing,
+              holeType,
+            });
+          });
+        });
+      });
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * Search the generator's parameter space for the settings that best reproduce an imported program
+ */
+export function inferProfileData(component: ImportedComponent, base: ProfileData): ProfileInference {
+  const generator = new NCFileGenerator();
+  const candidates = buildCandidates(component, base);
+  const exportData = { quantity: component.quantity, programName: component.partCode };
+
+  let best: ProfileInference | null = null;
+  let candidatesChecked = 0;
+
+  for (const candidate of candidates) {
+    candidatesChecked++;
+    generator.updateCalculations(null, candidate, exportData);
+    const { missing, extra, confidence } = comparePunches(generator.getPunches(), component.punches);
+
+    if (!best || confidence > best.confidence) {
+      best = { profileData: candidate, confidence, missing, extra, candidatesChecked: 0 };
+      if (confidence === 1) break;
+    }
+  }
+
+  if (!best) {
+    throw new Error(`No candidate settings for ${component.memberType} ${component.partCode}`);
+  }
+  return { ...best, candidatesChecked };
+}
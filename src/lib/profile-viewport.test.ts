@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { NCFileGenerator } from './nc-generator';
+import {
+  PROFILE_SVG_HEIGHT,
+  PROFILE_SVG_WIDTH,
+  getDefaultView,
+  getFitWidthView,
+  getMaxZoom,
+  getProfileLayout,
+  panView,
+  toProfilePoint,
+  zoomToRange,
+  zoomView,
+} from './profile-viewport';
+
+const profileData = makeProfile();
+
+const layoutFor = (view = getDefaultView(profileData)) => {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, makeExportData());
+  return getProfileLayout(profileData, generator.getCalculations(), view);
+};
+
+describe('getProfileLayout', () => {
+  it('centres the whole profile at zoom 1', () => {
+    const layout = layoutFor();
+    expect(layout.offsetX + layout.profileLength / 2).toBeCloseTo(PROFILE_SVG_WIDTH / 2);
+    expect(layout.offsetY + layout.profileHeight / 2).toBeCloseTo(PROFILE_SVG_HEIGHT / 2);
+    expect(layout.profileLength).toBeLessThan(PROFILE_SVG_WIDTH);
+  });
+
+  it('maps drawing points back to the profile', () => {
+    const layout = layoutFor();
+    expect(toProfilePoint(layout, layout.offsetX, layout.offsetY)).toEqual({ x: 0, y: 0 });
+    expect(toProfilePoint(layout, PROFILE_SVG_WIDTH / 2, PROFILE_SVG_HEIGHT / 2).x).toBeCloseTo(2600);
+  });
+});
+
+describe('zoomView', () => {
+  it('keeps the anchor point where it is', () => {
+    const view = getDefaultView(profileData);
+    const before = layoutFor(view);
+    const anchor = toProfilePoint(before, 300, 200);
+    const after = layoutFor(zoomView(profileData, view, 2, anchor));
+
+    expect(toProfilePoint(after, 300, 200).x).toBeCloseTo(anchor.x);
+    expect(toProfilePoint(after, 300, 200).y).toBeCloseTo(anchor.y);
+  });
+
+  it('stays between the whole profile and the largest zoom', () => {
+    const view = getDefaultView(profileData);
+    expect(zoomView(profileData, view, 0.1).zoom).toBe(1);
+    expect(zoomView(profileData, view, 1000).zoom).toBe(getMaxZoom(profileData));
+  });
+});
+
+describe('panView', () => {
+  it('moves the view centre by the drag distance at the drawing scale', () => {
+    const view = getDefaultView(profileData);
+    const layout = layoutFor(view);
+    const panned = panView(view, layout, 100, 0);
+    expect(panned.centerX).toBeCloseTo(view.centerX - 100 / layout.scale);
+    expect(panned.centerY).toBe(view.centerY);
+  });
+});
+
+describe('zoomToRange', () => {
+  it('centres on the range and zooms in on it', () => {
+    const view = zoomToRange(profileData, 1000, 1400);
+    expect(view.centerX).toBe(1200);
+    expect(view.zoom).toBeGreaterThan(1);
+  });
+
+  it('never zooms out past the whole profile', () => {
+    expect(getFitWidthView(profileData).zoom).toBeGreaterThanOrEqual(1);
+  });
+});
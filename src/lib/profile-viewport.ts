@@ -0,0 +1,148 @@
+import { NCCalculations, ProfileData } from '@/types/form-types';
+import { getProfileElevation } from './profile-geometry';
+
+/**
+ * Profile Viewport
+ * Layout of the on-screen profile drawing for a zoom level and centre point.
+ * At zoom 1 the whole profile fits the drawing; zooming scales the profile itself
+ * so text and stroke sizes stay readable.
+ */
+
+export const PROFILE_SVG_WIDTH = 1400;
+export const PROFILE_SVG_HEIGHT = 600;
+
+// Padding around the profile at zoom 1, in SVG units
+const FIT_PADDING = 150;
+// Most SVG units per mm when zoomed in
+const MAX_SCALE = 4;
+// Space kept either side of a range zoomed to, in SVG units
+const RANGE_PADDING = 100;
+
+export interface ProfileView {
+  zoom: number;
+  // Profile point at the centre of the drawing, in mm: x along the length, y down from the top of the web
+  centerX: number;
+  centerY: number;
+}
+
+/**
+ * Scaled layout of the profile drawing in SVG units
+ */
+export interface ProfileLayout {
+  svgWidth: number;
+  svgHeight: number;
+  profileLength: number;
+  profileHeight: number;
+  offsetX: number;
+  offsetY: number;
+  scale: number; // SVG units per mm
+  flangeHeight: number;
+  lipHeight: number;
+  topBoltY: number;
+  bottomBoltY: number;
+  calculations: NCCalculations;
+}
+
+// Scale at zoom 1 - the profile fits with padding, capped so short profiles aren't drawn oversize
+const getFitScale = (profileData: ProfileData) =>
+  Math.min(
+    (PROFILE_SVG_WIDTH - 2 * FIT_PADDING) / profileData.length,
+    (PROFILE_SVG_HEIGHT - 2 * FIT_PADDING) / profileData.profileHeight,
+    0.20
+  );
+
+export const getMaxZoom = (profileData: ProfileData) => Math.max(1, MAX_SCALE / getFitScale(profileData));
+
+const clampZoom = (profileData: ProfileData, zoom: number) => Math.min(Math.max(zoom, 1), getMaxZoom(profileData));
+
+export const getDefaultView = (profileData: Pick<ProfileData, 'length' | 'profileHeight'>): ProfileView => ({
+  zoom: 1,
+  centerX: profileData.length / 2,
+  centerY: profileData.profileHeight / 2,
+});
+
+export function getProfileLayout(profileData: ProfileData, calculations: NCCalculations, view: ProfileView): ProfileLayout {
+  // Same scale for length and height to keep proportions
+  const scale = getFitScale(profileData) * view.zoom;
+  const profileLength = profileData.length * scale;
+  const profileHeight = profileData.profileHeight * scale;
+
+  // Place the view centre in the middle of the drawing
+  const offsetX = PROFILE_SVG_WIDTH / 2 - view.centerX * scale;
+  const offsetY = PROFILE_SVG_HEIGHT / 2 - view.centerY * scale;
+
+  // Flange and bolt-hole vertical positions from the shared elevation (also used for DXF)
+  const elevation = getProfileElevation(profileData, calculations);
+  const flangeHeight = elevation.flange * scale;
+  const lipHeight = elevation.lip * scale;
+
+  return {
+    svgWidth: PROFILE_SVG_WIDTH,
+    svgHeight: PROFILE_SVG_HEIGHT,
+    profileLength,
+    profileHeight,
+    offsetX,
+    offsetY,
+    scale,
+    flangeHeight,
+    lipHeight,
+    topBoltY: offsetY - flangeHeight / 2,
+    bottomBoltY: offsetY + profileHeight + flangeHeight / 2,
+    calculations,
+  };
+}
+
+/**
+ * Profile point (mm) drawn at an SVG point
+ */
+export const toProfilePoint = (layout: ProfileLayout, x: number, y: number) => ({
+  x: (x - layout.offsetX) / layout.scale,
+  y: (y - layout.offsetY) / layout.scale,
+});
+
+/**
+ * Zoom by a factor, keeping the profile point under the anchor where it is
+ */
+export function zoomView(profileData: ProfileData, view: ProfileView, factor: number, anchor?: { x: number; y: number }): ProfileView {
+  const zoom = clampZoom(profileData, view.zoom * factor);
+  const { x, y } = anchor ?? { x: view.centerX, y: view.centerY };
+  const ratio = view.zoom / zoom;
+
+  return {
+    zoom,
+    centerX: x - (x - view.centerX) * ratio,
+    centerY: y - (y - view.centerY) * ratio,
+  };
+}
+
+/**
+ * Move the view by a distance in SVG units
+ */
+export const panView = (view: ProfileView, layout: ProfileLayout, dx: number, dy: number): ProfileView => ({
+  ...view,
+  centerX: view.centerX - dx / layout.scale,
+  centerY: view.centerY - dy / layout.scale,
+});
+
+/**
+ * View that fills the drawing width with a range along the profile
+ */
+export function zoomToRange(profileData: ProfileData, start: number, end: number): ProfileView {
+  const span = Math.max(Math.abs(end - start), 1);
+  const zoom = clampZoom(profileData, (PROFILE_SVG_WIDTH - 2 * RANGE_PADDING) / (span * getFitScale(profileData)));
+
+  return {
+    zoom,
+    centerX: (start + end) / 2,
+    centerY: profileData.profileHeight / 2,
+  };
+}
+
+/**
+ * View that fills the drawing width with the whole profile, as far as its height allows
+ */
+export function getFitWidthView(profileData: ProfileData): ProfileView {
+  const view = zoomToRange(profileData, 0, profileData.length);
+  const heightZoom = (PROFILE_SVG_HEIGHT - 2 * RANGE_PADDING) / (profileData.profileHeight * getFitScale(profileData));
+  return { ...view, zoom: clampZoom(profileData, Math.min(view.zoom, heightZoom)) };
+}
@@ -1,7 +1,9 @@
+import { getToolingLibrary, getToolingStation } from './tooling-library';
+
 /**
  * Punch Dimensions and Specifications
- * 
- * Standard punch dimensions for NC manufacturing
+ *
+ * Punch dimensions for NC manufacturing, read from the active tooling library
  * Each punch type has specific dimensions and manufacturing hit codes
  */
 
@@ -15,90 +17,18 @@ export interface PunchDimension {
   shape: 'square' | 'round' | 'rectangular' | 'oval';
 }
 
-export const PUNCH_DIMENSIONS: Record<string, PunchDimension> = {
-  'BOLT HOLE': {
-    hitCode: '.1',
-    station: 'BOLT HOLE',
-    description: '11mm square Bolt Hole',
-    width: 11,
-    height: 11,
-    shape: 'square',
-  },
-  
-  'DIMPLE': {
-    hitCode: '.2',
-    station: 'DIMPLE',
-    description: '5mm round Stitch',
-    diameter: 5,
-    shape: 'round',
-  },
-  
-  'WEB TAB': {
-    hitCode: '.3',
-    station: 'WEB TAB',
-    description: '70mm (h) x 45mm (w), Web Connection Tab',
-    width: 45,
-    height: 70,
-    shape: 'rectangular',
-  },
-  
-  'SERVICE': {
-    hitCode: '.4',
-    station: 'SERVICE',
-    description: '300mm (h) x 115mm (w) Stub Connection Point',
-    width: 115,
-    height: 300,
-    shape: 'rectangular',
-  },
-  
-  'SMALL SERVICE HOLE': {
-    hitCode: '.5',
-    station: 'SMALL SERVICE HOLE',
-    description: '115mm round Service Hole',
-    diameter: 115,
-    shape: 'round',
-  },
-  
-  'M SERVICE HOLE': {
-    hitCode: '.6',
-    station: 'M SERVICE HOLE',
-    description: '200mm round Service Hole',
-    diameter: 200,
-    shape: 'round',
-  },
-  
-  'LARGE SERVICE HOLE': {
-    hitCode: '.7',
-    station: 'LARGE SERVICE HOLE',
-    description: '400mm x 200mm Service Hole',
-    width: 400,
-    height: 200,
-    shape: 'oval',
-  },
-  
-  // Alias for corner brackets (uses SERVICE hit code in export)
-  'CORNER BRACKETS': {
-    hitCode: '.4',
-    station: 'CORNER BRACKETS',
-    description: '300mm (h) x 115mm (w) Corner Bracket Point',
-    width: 115,
-    height: 300,
-    shape: 'rectangular',
-  },
-};
-
 /**
  * Get punch dimensions by station name
  */
 export function getPunchDimensions(station: string): PunchDimension | undefined {
-  return PUNCH_DIMENSIONS[station];
+  return getToolingStation(station);
 }
 
 /**
  * Get hit code for a punch station
  */
 export function getHitCode(station: string): string {
-  const punch = PUNCH_DIMENSIONS[station];
+  const punch = getToolingStation(station);
   return punch?.hitCode || '.0';
 }
 
@@ -106,7 +36,7 @@ export function getHitCode(station: string): string {
  * Get descriptive text for a punch station
  */
 export function getPunchDescription(station: string): string {
-  const punch = PUNCH_DIMENSIONS[station];
+  const punch = getToolingStation(station);
   return punch?.description || station;
 }
 
@@ -114,27 +44,44 @@ export function getPunchDescription(station: string): string {
  * Get visual dimensions for rendering
  */
 export function getVisualDimensions(station: string): { width: number; height: number } {
-  const punch = PUNCH_DIMENSIONS[station];
-  
+  const punch = getToolingStation(station);
+
   if (!punch) return { width: 10, height: 10 };
-  
+
   if (punch.shape === 'round') {
     return { width: punch.diameter || 10, height: punch.diameter || 10 };
   }
-  
+
   return { width: punch.width || 10, height: punch.height || 10 };
 }
 
+/**
+ * Display colour for a punch station
+ */
+export function getPunchColor(station: string): string {
+  return getToolingStation(station)?.color || '#6b7280';
+}
+
 /**
  * Punch dimensions reference table (for documentation)
  */
-export const PUNCH_DIMENSIONS_TABLE = [
-  { hitCode: 'Hit .1', station: 'BOLT HOLE', description: '11mm square Bolt Hole' },
-  { hitCode: 'Hit .2', station: 'DIMPLE', description: '5mm round Stitch' },
-  { hitCode: 'Hit .3', station: 'WEB TAB', description: '70mm (h) x 45mm (w), Web Connection Tab' },
-  { hitCode: 'Hit .4', station: 'SERVICE', description: '300mm (h) x 115mm (w) Stub Connection Point' },
-  { hitCode: 'Hit .5', station: 'SMALL SERVICE HOLE', description: '115mm round Service Hole' },
-  { hitCode: 'Hit .6', station: 'M SERVICE HOLE', description: '200mm round Service Hole' },
-  { hitCode: 'Hit .7', station: 'LARGE SERVICE HOLE', description: '400mm x 200mm Service Hole' },
-];
+export function getPunchDimensionsTable() {
+  return Object.values(getToolingLibrary().stations).map(({ hitCode, station, description }) => ({
+    hitCode: `Hit ${hitCode}`,
+    station,
+    description,
+  }));
+}
 
+/**
+ * Distance along the profile between two punches - centre to centre, and between
+ * their nearest edges from the punch widths (negative when they overlap)
+ */
+export function getPunchDistance(
+  a: { type: string; position: number },
+  b: { type: string; position: number }
+): { centreToCentre: number; edgeToEdge: number } {
+  const centreToCentre = Math.abs(b.position - a.position);
+  const edgeToEdge = centreToCentre - getVisualDimensions(a.type).width / 2 - getVisualDimensions(b.type).width / 2;
+  return { centreToCentre, edgeToEdge };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { Punch, PunchOverride } from '@/types/manufacturing';
+import {
+  applyPunchOverrides,
+  createLockOverride,
+  describeOverride,
+  diffPunchOverrides,
+  getGeneratedPunches,
+} from './punch-overrides';
+
+const punch = (type: Punch['type'], position: number): Punch => ({ type, position, active: true });
+
+const generated = [punch('BOLT HOLE', 30), punch('WEB TAB', 600), punch('DIMPLE', 1000), punch('BOLT HOLE', 5170)];
+
+describe('applyPunchOverrides', () => {
+  it('adds, deletes and moves punches', () => {
+    const overrides: PunchOverride[] = [
+      { id: '1', kind: 'add', punch: { type: 'DIMPLE', position: 2000 } },
+      { id: '2', kind: 'delete', target: { type: 'WEB TAB', position: 600 } },
+      { id: '3', kind: 'move', target: { type: 'DIMPLE', position: 1000 }, position: 1100 },
+    ];
+    const { punches, results } = applyPunchOverrides(generated, overrides, 5200);
+
+    expect(punches).toEqual([punch('BOLT HOLE', 30), punch('DIMPLE', 1100), punch('DIMPLE', 2000), punch('BOLT HOLE', 5170)]);
+    expect(results.map(result => result.status)).toEqual(['applied', 'applied', 'applied']);
+  });
+
+  it('flags operations that no longer fit the program as stale', () => {
+    const overrides: PunchOverride[] = [
+      { id: '1', kind: 'delete', target: { type: 'WEB TAB', position: 650 } },
+      { id: '2', kind: 'move', target: { type: 'DIMPLE', position: 1000 }, position: 6000 },
+      { id: '3', kind: 'add', punch: { type: 'DIMPLE', position: -5 } },
+    ];
+    const { punches, results } = applyPunchOverrides(generated, overrides, 5200);
+
+    expect(punches).toEqual(generated);
+    expect(results.map(result => [result.status, result.reason])).toEqual([
+      ['stale', 'WEB TAB @ 650mm is no longer generated'],
+      ['stale', '6000mm is beyond the 5200mm profile'],
+      ['stale', '-5mm is beyond the 5200mm profile'],
+    ]);
+  });
+
+  it('restores a locked punch the program no longer generates', () => {
+    const lock = createLockOverride({ type: 'WEB TAB', position: 1200 });
+    const { punches, results } = applyPunchOverrides(generated, [lock], 5200);
+
+    expect(punches).toContainEqual(punch('WEB TAB', 1200));
+    expect(results[0].status).toBe('restored');
+  });
+
+  it('applies locks after every other operation', () => {
+    const lock = createLockOverride({ type: 'WEB TAB', position: 600 });
+    const remove: PunchOverride = { id: '1', kind: 'delete', target: { type: 'WEB TAB', position: 600 } };
+    const { punches, results } = applyPunchOverrides(generated, [lock, remove], 5200);
+
+    expect(punches).toContainEqual(punch('WEB TAB', 600));
+    expect(results.map(result => result.override.kind)).toEqual(['delete', 'lock']);
+  });
+});
+
+describe('diffPunchOverrides', () => {
+  it('records an edited program as the operations that rebuild it', () => {
+    const edited = [punch('BOLT HOLE', 30), punch('DIMPLE', 1100), punch('DIMPLE', 2000), punch('BOLT HOLE', 5170)];
+    const overrides = diffPunchOverrides(generated, edited);
+
+    expect(overrides.map(describeOverride)).toEqual([
+      'Delete WEB TAB @ 600mm',
+      'Move DIMPLE 1000 → 1100mm',
+      'Add DIMPLE @ 2000mm',
+    ]);
+    expect(applyPunchOverrides(generated, overrides, 5200).punches).toEqual(edited);
+  });
+
+  it('needs no operations for an unedited program', () => {
+    expect(diffPunchOverrides(generated, generated)).toEqual([]);
+  });
+
+  it('keeps locks on punches still in the program', () => {
+    const kept = createLockOverride({ type: 'WEB TAB', position: 600 });
+    const dropped = createLockOverride({ type: 'DIMPLE', position: 1000 });
+    const edited = generated.filter(p => p.type !== 'DIMPLE');
+
+    expect(diffPunchOverrides(generated, edited, [kept, dropped])).toContain(kept);
+    expect(diffPunchOverrides(generated, edited, [kept, dropped])).not.toContain(dropped);
+  });
+
+  it('survives regeneration of a real program', () => {
+    const program = getGeneratedPunches(makeProfile(), makeExportData());
+    const edited = program.filter(p => p.type !== 'DIMPLE').map(p => (p.type === 'WEB TAB' ? { ...p, position: p.position + 10 } : p));
+
+    const overrides = diffPunchOverrides(program, edited);
+    expect(applyPunchOverrides(program, overrides, 5200).punches).toEqual([...edited].sort((a, b) => a.position - b.position));
+  });
+});
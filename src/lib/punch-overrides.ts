@@ -0,0 +1,161 @@
+import { ExportData, ProfileData } from '@/types/form-types';
+import { Punch, PunchOverride, PunchRef } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+
+/**
+ * Punch Overrides
+ * Manual punch edits kept as a layer of operations on top of the generated program,
+ * so they can be re-applied whenever Profile Settings regenerate it.
+ * Operations point at generated punches by station and position.
+ */
+
+export type OverrideStatus = 'applied' | 'restored' | 'stale';
+
+export interface OverrideResult {
+  override: PunchOverride;
+  status: OverrideStatus;
+  reason?: string;
+}
+
+export interface OverrideApplication {
+  punches: Punch[];
+  results: OverrideResult[];
+}
+
+// Positions closer than this are the same punch
+const POSITION_TOLERANCE = 0.01;
+
+let overrideCounter = 0;
+const nextId = () => `override-${Date.now()}-${overrideCounter++}`;
+
+export const getPunchKey = (punch: PunchRef): string => `${punch.type}@${punch.position}`;
+
+// The punch an operation adds or acts on
+export const getOverridePunch = (override: PunchOverride): PunchRef =>
+  override.kind === 'add' ? override.punch : override.target;
+
+const describe = (punch: PunchRef) => `${punch.type} @ ${punch.position}mm`;
+
+const matches = (punch: PunchRef, ref: PunchRef) =>
+  punch.type === ref.type && Math.abs(punch.position - ref.position) < POSITION_TOLERANCE;
+
+const inRange = (position: number, length: number) => position >= 0 && position <= length;
+
+export const describeOverride = (override: PunchOverride): string => {
+  switch (override.kind) {
+    case 'add':
+      return `Add ${describe(override.punch)}`;
+    case 'delete':
+      return `Delete ${describe(override.target)}`;
+    case 'move':
+      return `Move ${override.target.type} ${override.target.position} → ${override.position}mm`;
+    case 'lock':
+      return `Lock ${describe(override.target)}`;
+  }
+};
+
+export const createLockOverride = (punch: PunchRef): PunchOverride => ({
+  id: nextId(),
+  kind: 'lock',
+  target: { type: punch.type, position: punch.position },
+});
+
+/**
+ * The program Profile Settings generate before any manual edits
+ */
+export function getGeneratedPunches(profileData: ProfileData, exportData: ExportData): Punch[] {
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, profileData, exportData);
+  return generator.getPunches();
+}
+
+/**
+ * Re-apply the override layer to a freshly generated program.
+ * Operations that no longer fit (their punch isn't generated any more, or they fall outside the profile) are skipped and flagged stale.
+ */
+export function applyPunchOverrides(generated: Punch[], overrides: PunchOverride[], length: number): OverrideApplication {
+  const punches = generated.map((punch) => ({ ...punch }));
+  const results: OverrideResult[] = [];
+  const stale = (override: PunchOverride, reason: string) => {
+    results.push({ override, status: 'stale', reason });
+  };
+  const beyondLength = (position: number) => `${position}mm is beyond the ${length}mm profile`;
+
+  // Locks go last so they see the program after every other edit
+  const ordered = [...overrides.filter((o) => o.kind !== 'lock'), ...overrides.filter((o) => o.kind === 'lock')];
+
+  ordered.forEach((override) => {
+    switch (override.kind) {
+      case 'add': {
+        if (!inRange(override.punch.position, length)) return stale(override, beyondLength(override.punch.position));
+        punches.push({ ...override.punch, active: true });
+        break;
+      }
+      case 'delete': {
+        const index = punches.findIndex((punch) => matches(punch, override.target));
+        if (index < 0) return stale(override, `${describe(override.target)} is no longer generated`);
+        punches.splice(index, 1);
+        break;
+      }
+      case 'move': {
+        const index = punches.findIndex((punch) => matches(punch, override.target));
+        if (index < 0) return stale(override, `${describe(override.target)} is no longer generated`);
+        if (!inRange(override.position, length)) return stale(override, beyondLength(override.position));
+        punches[index] = { ...punches[index], position: override.position };
+        break;
+      }
+      case 'lock': {
+        if (!inRange(override.target.position, length)) return stale(override, beyondLength(override.target.position));
+        if (!punches.some((punch) => matches(punch, override.target))) {
+          punches.push({ ...override.target, active: true });
+          results.push({ override, status: 'restored', reason: 'Generated program no longer has this punch - kept at its locked position' });
+          return;
+        }
+        break;
+      }
+    }
+    results.push({ override, status: 'applied' });
+  });
+
+  return { punches: punches.sort((a, b) => a.position - b.position), results };
+}
+
+/**
+ * Turn an edited program back into operations on the generated one.
+ * Existing locks are kept while their punch is still in the edited program - they apply after the other operations.
+ */
+export function diffPunchOverrides(generated: Punch[], edited: Punch[], locks: PunchOverride[] = []): PunchOverride[] {
+  const remainingGenerated = [...generated];
+  const remainingEdited = [...edited];
+  const take = (list: Punch[], ref: PunchRef) => {
+    const index = list.findIndex((punch) => matches(punch, ref));
+    return index >= 0 ? list.splice(index, 1)[0] : undefined;
+  };
+
+  const keptLocks = locks.filter((lock) => lock.kind === 'lock' && edited.some((punch) => matches(punch, lock.target)));
+
+  // Punches left where they were generated need no operation
+  [...remainingEdited].forEach((punch) => {
+    if (take(remainingGenerated, punch)) take(remainingEdited, punch);
+  });
+
+  const deletes: PunchOverride[] = [];
+  const moves: PunchOverride[] = [];
+  const adds: PunchOverride[] = [];
+  const byPosition = (a: Punch, b: Punch) => a.position - b.position;
+
+  // Within each station, pair what's left in order: pairs are moves, the rest deletes or adds
+  [...new Set([...remainingGenerated, ...remainingEdited].map((punch) => punch.type))].forEach((type) => {
+    const from = remainingGenerated.filter((punch) => punch.type === type).sort(byPosition);
+    const to = remainingEdited.filter((punch) => punch.type === type).sort(byPosition);
+    const pairs = Math.min(from.length, to.length);
+
+    for (let i = 0; i < pairs; i++) {
+      moves.push({ id: nextId(), kind: 'move', target: { type, position: from[i].position }, position: to[i].position });
+    }
+    from.slice(pairs).forEach((punch) => deletes.push({ id: nextId(), kind: 'delete', target: { type, position: punch.position } }));
+    to.slice(pairs).forEach((punch) => adds.push({ id: nextId(), kind: 'add', punch: { type, position: punch.position } }));
+  });
+
+  return [...deletes, ...moves, ...adds, ...keptLocks];
+}
@@ -0,0 +1,51 @@
+import * as z from 'zod';
+import { PunchStationType } from '@/types/form-types';
+
+/**
+ * Zod schemas shared by the forms and the job file format
+ */
+
+export const pointLoadSchema = z.object({
+  position: z.number().min(0),
+  load: z.number().min(0),
+  dead: z.number().min(0).optional(),
+  bearingLength: z.number().positive(),
+  description: z.string().optional(),
+}).refine((pointLoad) => pointLoad.load + (pointLoad.dead ?? 0) > 0, { message: 'Expected a dead or live load', path: ['load'] });
+
+export const profileSchema = z.object({
+  profileType: z.enum(['Joist Single', 'Bearer Single', 'Joist Box', 'Bearer Box']),
+  profileHeight: z.number().min(200).max(500),
+  length: z.number().min(1000).max(15000),
+  joistLength: z.number().min(1000).max(15000).optional(),
+  joistSpacing: z.number().min(400).max(1200),
+  stubSpacing: z.number().min(600).max(2400),
+  stubsEnabled: z.boolean(),
+  holeType: z.enum(['50mm', '200mm', '200mm x 400mm', '115 Round', 'No Holes']),
+  holeSpacing: z.number().min(400).max(1000),
+  punchStations: z.array(z.object({
+    station: z.custom<PunchStationType>((value) => typeof value === 'string' && value.length > 0, 'Expected a punch station name'),
+    enabled: z.boolean(),
+    spacing: z.number().optional(),
+    customPositions: z.array(z.number()).optional(),
+  })),
+  stubPositions: z.array(z.number()).optional(),
+  endBoxJoist: z.boolean().optional(),
+  screensEnabled: z.boolean().optional(),
+  kpaRating: z.string().refine((value) => Number(value) > 0, 'Expected a kPa rating').optional(),
+  joistBox: z.boolean().optional(),
+  pointLoads: z.array(pointLoadSchema).optional(),
+});
+
+export const exportSchema = z.object({
+  quantity: z.number().min(1).max(999),
+  programName: z.string().min(1).max(50),
+  postProcessor: z.string().optional(),
+  includeDiagrams: z.boolean().optional(),
+});
+
+export const punchSchema = z.object({
+  position: z.number().min(0),
+  type: z.custom<PunchStationType>((value) => typeof value === 'string' && value.length > 0, 'Expected a punch station name'),
+  active: z.boolean(),
+});
@@ -0,0 +1,144 @@
+import { ProfileData } from '@/types/form-types';
+import { MANUFACTURING_CONSTANTS } from './constants';
+import { getPunchDimensions, getVisualDimensions } from './punch-dimensions';
+import { JOIST_LIP_HEIGHT, getWebPunchCentre } from './profile-geometry';
+import { getServiceHoleStation, isJoistProfile } from './utils/manufacturing';
+
+/**
+ * Section Properties
+ * Bending, shear and bearing properties of the roll formed C-sections in N and mm, from the
+ * profile height, gauge and flange of each profile type. Sections are modelled on their
+ * centreline with square corners; box members are two sections side by side.
+ */
+
+// G450 roll formed strip
+export const STEEL = {
+  yieldStress: 450, // MPa
+  elasticModulus: 200000, // MPa
+  density: 7850, // kg/m³
+} as const;
+
+export interface SectionDimensions {
+  height: number; // Outside web depth
+  thickness: number;
+  flange: number; // Outside flange width
+  lip: number; // Outside lip depth, 0 for plain channels
+  webs: number; // Sections side by side - 2 for box members
+}
+
+// A service hole through the web, as a band of web depth lost at the hole
+export interface WebHole {
+  height: number;
+  centre: number; // Up from the bottom of the web
+  round: boolean;
+}
+
+export interface SectionProperties {
+  dimensions: SectionDimensions;
+  area: number; // mm²
+  selfWeight: number; // N/mm (kN/m)
+  secondMoment: number; // Gross, for deflection - mm⁴
+  sectionModulus: number; // Effective, at the net section through a service hole - mm³
+  webDepth: number; // Flat web between the bends
+  hole?: WebHole;
+}
+
+type Element = { area: number; y: number; ownSecondMoment: number };
+
+// Effective width factor for a plate buckling at yield (Winter's formula)
+const effectiveWidthFactor = (width: number, thickness: number, bucklingCoefficient: number) => {
+  const slenderness = (1.052 / Math.sqrt(bucklingCoefficient)) * (width / thickness) * Math.sqrt(STEEL.yieldStress / STEEL.elasticModulus);
+  return slenderness <= 0.673 ? 1 : (1 - 0.22 / slenderness) / slenderness;
+};
+
+// Web strips left after cutting out the hole band
+const subtractBand = ([from, to]: [number, number], hole?: [number, number]): Array<[number, number]> => {
+  if (!hole || hole[1] <= from || hole[0] >= to) return [[from, to]];
+  return ([[from, hole[0]], [hole[1], to]] as Array<[number, number]>).filter(([a, b]) => b > a);
+};
+
+const strip = (thickness: number, [from, to]: [number, number]): Element => ({
+  area: thickness * (to - from),
+  y: (from + to) / 2,
+  ownSecondMoment: (thickness * (to - from) ** 3) / 12,
+});
+
+const combine = (elements: Element[]) => {
+  const area = elements.reduce((sum, element) => sum + element.area, 0);
+  const centroid = elements.reduce((sum, element) => sum + element.area * element.y, 0) / area;
+  const secondMoment = elements.reduce((sum, element) => sum + element.ownSecondMoment + element.area * (element.y - centroid) ** 2, 0);
+  return { area, centroid, secondMoment };
+};
+
+export const getSectionDimensions = (profileType: ProfileData['profileType'], profileHeight: number, thickness: number = MANUFACTURING_CONSTANTS.PROFILE_THICKNESS): SectionDimensions => {
+  const isJoist = isJoistProfile(profileType);
+  return {
+    height: profileHeight,
+    thickness,
+    flange: isJoist ? MANUFACTURING_CONSTANTS.JOIST_FLANGE_HEIGHT : MANUFACTURING_CONSTANTS.FLANGE_HEIGHT,
+    lip: isJoist ? JOIST_LIP_HEIGHT : 0,
+    webs: profileType.endsWith('Box') ? 2 : 1,
+  };
+};
+
+/**
+ * The service hole a hole type cuts through the web, at its station's height on the web
+ */
+export const getWebHole = (holeType: string, profileHeight: number): WebHole | undefined => {
+  if (holeType === 'No Holes') return undefined;
+  const station = getServiceHoleStation(holeType);
+  return {
+    height: getVisualDimensions(station).height,
+    centre: getWebPunchCentre(station, profileHeight),
+    round: getPunchDimensions(station)?.shape === 'round',
+  };
+};
+
+/**
+ * Properties of a section, with its section modulus reduced for local buckling of the
+ * compression flange, lip and web and taken at the net section through its service holes
+ */
+export function getSectionProperties(dimensions: SectionDimensions, hole?: WebHole): SectionProperties {
+  const { height, thickness: t, flange, lip, webs } = dimensions;
+  const depth = height - t; // Between flange centrelines
+  const flangeWidth = flange - (lip > 0 ? t : t / 2);
+  const lipDepth = lip > 0 ? lip - t / 2 : 0;
+  const bend = MANUFACTURING_CONSTANTS.BEND_RADIUS + t;
+
+  const flangeElement = (y: number, width: number): Element => ({ area: width * t, y, ownSecondMoment: 0 });
+  const lips = (topFactor: number): Element[] => lipDepth > 0
+    ? [strip(t, [0, lipDepth]), strip(t, [depth - lipDepth * topFactor, depth])]
+    : [];
+
+  // Gross section - deflection and self weight
+  const gross = combine([
+    flangeElement(0, flangeWidth),
+    flangeElement(depth, flangeWidth),
+    strip(t, [0, depth]),
+    ...lips(1),
+  ]);
+
+  // Effective section in bending, compression on top: stiffened flanges on lipped sections,
+  // and the compression half of the web keeps only its part next to the flange
+  const flangeFactor = effectiveWidthFactor(flangeWidth, t, lipDepth > 0 ? 4 : 0.43);
+  const webFactor = effectiveWidthFactor(depth, t, 24);
+  const holeBand: [number, number] | undefined = hole && [hole.centre - t / 2 - hole.height / 2, hole.centre - t / 2 + hole.height / 2];
+  const effective = combine([
+    flangeElement(0, flangeWidth),
+    flangeElement(depth, flangeWidth * flangeFactor),
+    ...subtractBand([0, depth / 2], holeBand).map(band => strip(t, band)),
+    ...subtractBand([depth - (webFactor * depth) / 2, depth], holeBand).map(band => strip(t, band)),
+    ...lips(effectiveWidthFactor(lipDepth, t, 0.43)),
+  ]);
+  const extremeFibre = Math.max(depth + t / 2 - effective.centroid, effective.centroid + t / 2);
+
+  return {
+    dimensions,
+    area: gross.area * webs,
+    selfWeight: gross.area * webs * STEEL.density * 9.81 * 1e-9,
+    secondMoment: gross.secondMoment * webs,
+    sectionModulus: (effective.secondMoment / extremeFibre) * webs,
+    webDepth: height - 2 * bend,
+    hole,
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SPAN_TABLE_LIBRARY,
+  DERIVED_LOAD_CLASSES,
+  DERIVED_STANDARD_ID,
+  SPAN_TABLE_FORMAT,
+  SpanTableFileError,
+  getActiveStandard,
+  getLoadClasses,
+  parseSpanTableCsv,
+  parseSpanTableFile,
+  removeStandard,
+  upsertStandards,
+} from './span-table-library';
+import { getSpanTableRecommendation, getSpanTableRows } from './span-table';
+
+const CSV = [
+  'standard,version,load_class,profile_type,profile_height,joist_spacing,max_span',
+  'AS/NZS 4600,2024.1,2.5,Joist Single,350,600,6800',
+  'AS/NZS 4600,2024.1,2.5,Joist Single,350,400,7900',
+  'AS/NZS 4600,2024.1,2.5,Joist Box,350,600,9000',
+  'AS/NZS 4600,2024.1,2.5,Joist Single,250,600,5200',
+  'AS/NZS 4600,2024.1,5,Joist Single,350,600,5100',
+  'AS/NZS 4600,2018,2.5,Joist Single,350,600,6500',
+].join('\n');
+
+describe('parseSpanTableCsv', () => {
+  it('groups spans by standard and version', () => {
+    const standards = parseSpanTableCsv(CSV);
+    expect(standards.map(standard => standard.id)).toEqual(['AS/NZS 4600@2024.1', 'AS/NZS 4600@2018']);
+    expect(standards[0].entries).toHaveLength(5);
+    expect(standards[0].entries[0]).toEqual({ loadClass: '2.5', profileType: 'Joist Single', profileHeight: 350, joistSpacing: 600, maxSpan: 6800 });
+  });
+
+  it('reads columns in any order and ignores blank lines', () => {
+    const text = 'max_span,joist_spacing,profile_height,profile_type,load_class,version,standard\r\n\r\n6800,600,350,Joist Single,2.5,1,Test\r\n';
+    expect(parseSpanTableCsv(text)[0].entries[0].maxSpan).toBe(6800);
+  });
+
+  it('reports a missing column against the header', () => {
+    expect(() => parseSpanTableCsv('standard,version,load_class\nA,1,2.5')).toThrow(
+      expect.objectContaining({ message: expect.stringContaining('profile_type, profile_height, joist_spacing, max_span'), line: 1 })
+    );
+  });
+
+  it('reports a bad row by its line', () => {
+    const text = CSV.replace('Joist Box,350,600,9000', 'Bearer Box,350,600,9000');
+    expect(() => parseSpanTableCsv(text)).toThrow(expect.objectContaining({ line: 4 }));
+    expect(() => parseSpanTableCsv('')).toThrow(SpanTableFileError);
+  });
+});
+
+describe('parseSpanTableFile', () => {
+  const file = { format: SPAN_TABLE_FORMAT, standard: 'NZS 3604', version: '2011', entries: [{ loadClass: '1.5', profileType: 'Joist Single', profileHeight: 250, joistSpacing: 600, maxSpan: 5400 }] };
+
+  it('reads JSON files holding one standard or several', () => {
+    expect(parseSpanTableFile('table.json', JSON.stringify(file))[0].id).toBe('NZS 3604@2011');
+    expect(parseSpanTableFile('TABLES.JSON', JSON.stringify([file, { ...file, version: '2024' }]))).toHaveLength(2);
+  });
+
+  it('rejects JSON files in another format', () => {
+    expect(() => parseSpanTableFile('table.json', JSON.stringify({ ...file, format: 'other' }))).toThrow(/format/);
+    expect(() => parseSpanTableFile('table.json', '{')).toThrow(/not valid JSON/);
+  });
+
+  it('reads anything else as CSV', () => {
+    expect(parseSpanTableFile('table.csv', CSV)).toHaveLength(2);
+  });
+});
+
+describe('span table library', () => {
+  const [current, previous] = parseSpanTableCsv(CSV);
+  const library = { ...upsertStandards(DEFAULT_SPAN_TABLE_LIBRARY, [current, previous]), activeStandardId: current.id };
+
+  it('derives tables for the standard kPa ratings until a standard is active', () => {
+    expect(getActiveStandard(DEFAULT_SPAN_TABLE_LIBRARY)).toBeUndefined();
+    expect(getLoadClasses(DEFAULT_SPAN_TABLE_LIBRARY)).toEqual(DERIVED_LOAD_CLASSES);
+    expect(getLoadClasses(library)).toEqual(['2.5', '5']);
+  });
+
+  it('replaces a standard loaded again at the same version', () => {
+    const reloaded = upsertStandards(library, [{ ...current, entries: current.entries.slice(0, 1) }]);
+    expect(reloaded.standards).toHaveLength(2);
+    expect(getActiveStandard(reloaded)!.entries).toHaveLength(1);
+  });
+
+  it('falls back to derived tables when the active standard is removed', () => {
+    expect(removeStandard(library, current.id)).toEqual({ standards: [previous], activeStandardId: DERIVED_STANDARD_ID });
+  });
+
+  it('reads the deepest table at or below the profile height', () => {
+    expect(getSpanTableRows('2.5', 350, undefined, library).map(row => row.maxSpan)).toEqual([6800, 7900, 9000]);
+    expect(getSpanTableRows('2.50', 300, undefined, library).map(row => row.maxSpan)).toEqual([5200]);
+    expect(getSpanTableRows('2.5', 200, undefined, library)).toEqual([]);
+  });
+
+  it('recommends from the published table', () => {
+    expect(getSpanTableRecommendation(7500, '2.5', 350, undefined, library)).toEqual({ profileType: 'Joist Single', joistSpacing: 400, exceedsLimit: false });
+    expect(getSpanTableRecommendation(7500, '3.0', 350, undefined, library)).toBeUndefined();
+  });
+});
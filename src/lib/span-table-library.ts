@@ -0,0 +1,218 @@
+import * as z from 'zod';
+
+/**
+ * Span Table Library
+ * Published span tables, loaded from CSV or JSON files, for each design standard at a version.
+ * The active standard sets the kPa ratings on offer and the table every recommendation and span
+ * limit is read from. The built-in standard has no data of its own - its tables are derived from
+ * the capacity checks (see span-table.ts).
+ *
+ * CSV files have a header row and one line per span:
+ *
+ *   standard,version,load_class,profile_type,profile_height,joist_spacing,max_span
+ *   AS/NZS 4600,2024.1,2.5,Joist Single,350,600,6800
+ *
+ * JSON files hold { "format": "spanplus-span-table", "standard", "version", "entries": [...] },
+ * or an array of them, with entries named as in SpanTableEntry.
+ */
+
+export interface SpanTableEntry {
+  loadClass: string; // kPa
+  profileType: 'Joist Single' | 'Joist Box';
+  profileHeight: number;
+  joistSpacing: number;
+  maxSpan: number;
+}
+
+export interface SpanTableStandard {
+  id: string;
+  standard: string; // e.g. AS/NZS 4600
+  version: string;
+  entries: SpanTableEntry[];
+}
+
+export interface SpanTableLibrary {
+  standards: SpanTableStandard[];
+  activeStandardId: string;
+}
+
+export class SpanTableFileError extends Error {
+  constructor(
+    message: string,
+    public line?: number // 1-based, for CSV files
+  ) {
+    super(message);
+    this.name = 'SpanTableFileError';
+  }
+}
+
+export const SPAN_TABLE_FORMAT = 'spanplus-span-table';
+
+export const DERIVED_STANDARD_ID = 'derived';
+export const DERIVED_STANDARD_NAME = 'Span+ capacity checks';
+
+// kPa ratings offered while the tables are derived - the checks work for any floor load
+export const DERIVED_LOAD_CLASSES = ['1.5', '2.5', '3.0', '4.0', '5.0'];
+
+const STORAGE_KEY = 'span-plus-span-tables';
+
+const CSV_COLUMNS = ['standard', 'version', 'load_class', 'profile_type', 'profile_height', 'joist_spacing', 'max_span'] as const;
+
+const entrySchema = z.object({
+  loadClass: z.string().refine((value) => Number(value) > 0, 'Expected a kPa rating'),
+  profileType: z.enum(['Joist Single', 'Joist Box']),
+  profileHeight: z.number().positive(),
+  joistSpacing: z.number().positive(),
+  maxSpan: z.number().positive(),
+});
+
+const standardFileSchema = z.object({
+  format: z.literal(SPAN_TABLE_FORMAT),
+  standard: z.string().trim().min(1),
+  version: z.string().trim().min(1),
+  entries: z.array(entrySchema).min(1),
+});
+
+export const DEFAULT_SPAN_TABLE_LIBRARY: SpanTableLibrary = {
+  standards: [],
+  activeStandardId: DERIVED_STANDARD_ID,
+};
+
+const loadStoredLibrary = (): SpanTableLibrary | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SpanTableLibrary) : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeLibrary: SpanTableLibrary = loadStoredLibrary() ?? DEFAULT_SPAN_TABLE_LIBRARY;
+const listeners = new Set<() => void>();
+
+export const getSpanTableLibrary = (): SpanTableLibrary => activeLibrary;
+
+/**
+ * Replace the span table library, persisting it in the browser and notifying subscribers
+ */
+export const setSpanTableLibrary = (library: SpanTableLibrary): void => {
+  activeLibrary = library;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeSpanTableLibrary = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The loaded standard in use - undefined while tables are derived from the capacity checks
+ */
+export const getActiveStandard = (library: SpanTableLibrary = activeLibrary): SpanTableStandard | undefined =>
+  library.standards.find((standard) => standard.id === library.activeStandardId);
+
+export const describeStandard = (standard?: SpanTableStandard): string =>
+  standard ? `${standard.standard} ${standard.version}` : DERIVED_STANDARD_NAME;
+
+/**
+ * kPa ratings the active standard has tables for, lightest first
+ */
+export const getLoadClasses = (library: SpanTableLibrary = activeLibrary): string[] => {
+  const standard = getActiveStandard(library);
+  if (!standard) return DERIVED_LOAD_CLASSES;
+  return [...new Set(standard.entries.map((entry) => entry.loadClass))].sort((a, b) => Number(a) - Number(b));
+};
+
+export const isSameLoadClass = (a: string, b: string): boolean => Number(a) === Number(b);
+
+/**
+ * Add standards, replacing any already loaded at the same standard and version
+ */
+export const upsertStandards = (library: SpanTableLibrary, standards: SpanTableStandard[]): SpanTableLibrary => {
+  const incoming = new Set(standards.map((standard) => standard.id));
+  return {
+    ...library,
+    standards: [...library.standards.filter((standard) => !incoming.has(standard.id)), ...standards],
+  };
+};
+
+export const removeStandard = (library: SpanTableLibrary, id: string): SpanTableLibrary => ({
+  standards: library.standards.filter((standard) => standard.id !== id),
+  activeStandardId: library.activeStandardId === id ? DERIVED_STANDARD_ID : library.activeStandardId,
+});
+
+const standardId = (standard: string, version: string) => `${standard}@${version}`;
+
+const toStandard = (standard: string, version: string, entries: SpanTableEntry[]): SpanTableStandard => ({
+  id: standardId(standard, version),
+  standard,
+  version,
+  entries,
+});
+
+/**
+ * Read a span table CSV; one file can hold several standards or versions
+ */
+export function parseSpanTableCsv(text: string): SpanTableStandard[] {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line: index + 1, fields: line.split(',').map((field) => field.trim()) }))
+    .filter(({ fields }) => fields.some((field) => field !== ''));
+  if (lines.length === 0) throw new SpanTableFileError('Span table file is empty');
+
+  const [header, ...rows] = lines;
+  const columns = CSV_COLUMNS.map((column) => header.fields.map((field) => field.toLowerCase()).indexOf(column));
+  const missing = CSV_COLUMNS.filter((_, index) => columns[index] < 0);
+  if (missing.length > 0) {
+    throw new SpanTableFileError(`Span table header is missing ${missing.join(', ')}`, header.line);
+  }
+
+  const grouped = new Map<string, { standard: string; version: string; entries: SpanTableEntry[] }>();
+  rows.forEach(({ line, fields }) => {
+    const [standard, version, loadClass, profileType, profileHeight, joistSpacing, maxSpan] = columns.map((column) => fields[column] ?? '');
+    const result = entrySchema.safeParse({
+      loadClass,
+      profileType,
+      profileHeight: Number(profileHeight),
+      joistSpacing: Number(joistSpacing),
+      maxSpan: Number(maxSpan),
+    });
+    if (!standard || !version || !result.success) {
+      const issue = result.success ? 'standard and version are required' : result.error.issues.map((i) => `${i.path.join('.')} - ${i.message}`).join('; ');
+      throw new SpanTableFileError(`Line ${line}: ${issue}`, line);
+    }
+
+    const id = standardId(standard, version);
+    const group = grouped.get(id) ?? { standard, version, entries: [] };
+    group.entries.push(result.data);
+    grouped.set(id, group);
+  });
+
+  if (grouped.size === 0) throw new SpanTableFileError('Span table file has no spans');
+  return [...grouped.values()].map(({ standard, version, entries }) => toStandard(standard, version, entries));
+}
+
+/**
+ * Read a span table JSON file holding one standard or an array of them
+ */
+export function parseSpanTableJson(text: string): SpanTableStandard[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new SpanTableFileError(`Span table file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const result = z.array(standardFileSchema).min(1).safeParse(Array.isArray(raw) ? raw : [raw]);
+  if (!result.success) {
+    throw new SpanTableFileError(`Invalid span table file: ${result.error.issues.map((issue) => `${issue.path.join('.') || '(file)'} - ${issue.message}`).join('; ')}`);
+  }
+  return result.data.map(({ standard, version, entries }) => toStandard(standard, version, entries));
+}
+
+export const parseSpanTableFile = (fileName: string, text: string): SpanTableStandard[] =>
+  fileName.toLowerCase().endsWith('.json') ? parseSpanTableJson(text) : parseSpanTableCsv(text);
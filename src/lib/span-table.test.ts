@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkMemberCapacity } from './structural-capacity';
+import { SPAN_TABLE_SPACINGS, deriveSpanTable, getJoistSpanLimit, getSpanTableRecommendation } from './span-table';
+
+describe('deriveSpanTable', () => {
+  const rows = deriveSpanTable('2.5', 350);
+
+  it('lists single then box joists at each spacing, widest first', () => {
+    expect(rows.map(row => `${row.profileType}@${row.joistSpacing}`)).toEqual([
+      ...SPAN_TABLE_SPACINGS.map(spacing => `Joist Single@${spacing}`),
+      ...SPAN_TABLE_SPACINGS.map(spacing => `Joist Box@${spacing}`),
+    ]);
+  });
+
+  it('takes the longest span every check passes, in 50mm steps', () => {
+    rows.forEach(({ profileType, joistSpacing, maxSpan }) => {
+      const check = (span: number) => checkMemberCapacity({ profileType, profileHeight: 350, holeType: '200mm', span, spacing: joistSpacing, kpa: 2.5 });
+      expect(maxSpan % 50).toBe(0);
+      expect(check(maxSpan).passes).toBe(true);
+      expect(check(maxSpan + 50).passes).toBe(false);
+    });
+  });
+
+  it('names the check that limits each span', () => {
+    expect(rows[0].governing).toBe('web-crippling');
+    expect(rows[1].governing).toBe('deflection');
+  });
+
+  it('spans less on a shallower profile and under a heavier floor', () => {
+    expect(deriveSpanTable('2.5', 200)[0].maxSpan).toBeLessThan(rows[0].maxSpan);
+    expect(deriveSpanTable('5.0', 350)[0].maxSpan).toBeLessThan(rows[0].maxSpan);
+  });
+});
+
+describe('getJoistSpanLimit', () => {
+  it('works out a derived limit at the joist\'s own spacing', () => {
+    const at600 = getJoistSpanLimit('Joist Single', 350, '200mm', 600, '2.5');
+    const at450 = getJoistSpanLimit('Joist Single', 350, '200mm', 450, '2.5');
+    expect(at600).toEqual({ maxSpan: 6900, governing: 'web-crippling' });
+    expect(at450!.maxSpan).toBeGreaterThan(at600!.maxSpan);
+  });
+});
+
+describe('getSpanTableRecommendation', () => {
+  it('takes single joists at the widest spacing that carries the span', () => {
+    expect(getSpanTableRecommendation(6000, '2.5', 350)).toEqual({ profileType: 'Joist Single', joistSpacing: 600, exceedsLimit: false });
+    expect(getSpanTableRecommendation(8000, '2.5', 350)).toEqual({ profileType: 'Joist Single', joistSpacing: 400, exceedsLimit: false });
+  });
+
+  it('falls back to the last row when nothing carries the span', () => {
+    expect(getSpanTableRecommendation(30000, '2.5', 350)).toEqual({ profileType: 'Joist Box', joistSpacing: 300, exceedsLimit: true });
+  });
+});
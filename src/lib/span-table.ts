@@ -0,0 +1,136 @@
+import { SpanTableRecommendation } from '@/types/manufacturing';
+import { CapacityCheckId, checkSection, getGoverningCheck, getMemberLoads, getMemberSection } from './structural-capacity';
+import { SpanTableLibrary, getActiveStandard, getSpanTableLibrary, isSameLoadClass } from './span-table-library';
+
+/**
+ * Span Table
+ * Maximum joist spans for a profile height, kPa rating and service hole at each joist spacing,
+ * read from the active standard's published table - or derived from the capacity checks when
+ * no standard is loaded. Recommendations take the first row that carries the span: single
+ * joists at the widest spacing first, then box joists.
+ */
+
+export interface SpanTableRow {
+  profileType: SpanTableRecommendation['profileType'];
+  joistSpacing: number;
+  maxSpan: number; // Rounded down to SPAN_STEP when derived
+  governing?: CapacityCheckId; // Check that limits a derived span
+}
+
+// Longest span a joist may have at its spacing, and the check that limits it when derived
+export type JoistSpanLimit = Pick<SpanTableRow, 'maxSpan' | 'governing'>;
+
+export const SPAN_TABLE_SPACINGS = [600, 500, 400, 300];
+
+const SPAN_STEP = 50;
+const MAX_SPAN = 20000;
+const SEARCH_STEPS = 20;
+
+const PROFILE_ORDER: SpanTableRow['profileType'][] = ['Joist Single', 'Joist Box'];
+
+// Joists carry the default 200mm service holes unless told otherwise
+const DEFAULT_JOIST_HOLE_TYPE = '200mm';
+
+/**
+ * Longest span passing every check - each check's utilisation only grows with the span
+ */
+const findMaxSpan = (profileType: SpanTableRow['profileType'], joistSpacing: number, kpa: number, profileHeight: number, holeType: string): SpanTableRow => {
+  const section = getMemberSection({ profileType, profileHeight, holeType });
+  const loads = getMemberLoads(section, joistSpacing, kpa);
+  const worstAt = (span: number) => getGoverningCheck(checkSection(section, span, loads));
+
+  let low = 0;
+  let high = MAX_SPAN;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const middle = (low + high) / 2;
+    if (worstAt(middle).utilisation <= 1) low = middle;
+    else high = middle;
+  }
+
+  return {
+    profileType,
+    joistSpacing,
+    maxSpan: Math.floor(low / SPAN_STEP) * SPAN_STEP,
+    governing: worstAt(high).id,
+  };
+};
+
+export function deriveSpanTable(kpaRating: string, profileHeight: number, holeType: string = DEFAULT_JOIST_HOLE_TYPE): SpanTableRow[] {
+  const kpa = Number(kpaRating);
+  return PROFILE_ORDER.flatMap(profileType =>
+    SPAN_TABLE_SPACINGS.map(spacing => findMaxSpan(profileType, spacing, kpa, profileHeight, holeType))
+  );
+}
+
+/**
+ * Rows of the active standard's table for a kPa rating. Published tables are read at the
+ * deepest height they list that doesn't exceed the profile's, so a shallower table is used
+ * rather than none; empty when the standard has nothing for the rating or height.
+ */
+export function getSpanTableRows(
+  kpaRating: string,
+  profileHeight: number,
+  holeType?: string,
+  library: SpanTableLibrary = getSpanTableLibrary()
+): SpanTableRow[] {
+  const standard = getActiveStandard(library);
+  if (!standard) return deriveSpanTable(kpaRating, profileHeight, holeType);
+
+  const entries = standard.entries.filter(entry => isSameLoadClass(entry.loadClass, kpaRating) && entry.profileHeight <= profileHeight);
+  const height = Math.max(...entries.map(entry => entry.profileHeight));
+
+  return entries
+    .filter(entry => entry.profileHeight === height)
+    .sort((a, b) => PROFILE_ORDER.indexOf(a.profileType) - PROFILE_ORDER.indexOf(b.profileType) || b.joistSpacing - a.joistSpacing)
+    .map(({ profileType, joistSpacing, maxSpan }) => ({ profileType, joistSpacing, maxSpan }));
+}
+
+/**
+ * Longest span any joist in the table can carry - undefined when there is no table
+ */
+export const getMaxSpan = (kpaRating: string, profileHeight: number, holeType?: string): number | undefined => {
+  const rows = getSpanTableRows(kpaRating, profileHeight, holeType);
+  return rows.length > 0 ? Math.max(...rows.map(row => row.maxSpan)) : undefined;
+};
+
+/**
+ * Longest span for a joist at its own spacing. Derived limits are worked out at exactly that
+ * spacing; published tables use the next wider spacing they list.
+ */
+export function getJoistSpanLimit(
+  profileType: SpanTableRow['profileType'],
+  profileHeight: number,
+  holeType: string,
+  joistSpacing: number,
+  kpaRating: string
+): JoistSpanLimit | undefined {
+  if (!getActiveStandard()) {
+    const { maxSpan, governing } = findMaxSpan(profileType, joistSpacing, Number(kpaRating), profileHeight, holeType);
+    return { maxSpan, governing };
+  }
+
+  const row = getSpanTableRows(kpaRating, profileHeight, holeType)
+    .filter(candidate => candidate.profileType === profileType && candidate.joistSpacing >= joistSpacing)
+    .sort((a, b) => a.joistSpacing - b.joistSpacing)[0];
+  return row && { maxSpan: row.maxSpan };
+}
+
+/**
+ * Joist type and spacing for a span - undefined when the active standard has no table for it
+ */
+export const getSpanTableRecommendation = (
+  length: number,
+  kpaRating: string,
+  profileHeight: number,
+  holeType?: string,
+  library: SpanTableLibrary = getSpanTableLibrary()
+): SpanTableRecommendation | undefined => {
+  const table = getSpanTableRows(kpaRating, profileHeight, holeType, library);
+  if (table.length === 0) return undefined;
+
+  const row = table.find(candidate => candidate.maxSpan >= length);
+  if (row) return { profileType: row.profileType, joistSpacing: row.joistSpacing, exceedsLimit: false };
+
+  const last = table[table.length - 1];
+  return { profileType: last.profileType, joistSpacing: last.joistSpacing, exceedsLimit: true };
+};
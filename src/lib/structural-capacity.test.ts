@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DESIGN_BASIS, checkMemberCapacity, getGoverningCheck, getMemberLoads, getMemberSection } from './structural-capacity';
+
+const joist = { profileType: 'Joist Single' as const, profileHeight: 350, holeType: '200mm', spacing: 600, kpa: 2.5 };
+
+describe('getMemberLoads', () => {
+  const section = getMemberSection({ profileType: 'Joist Single', profileHeight: 350, holeType: 'No Holes' });
+
+  it('adds the decking to the self weight and spreads the live load over the spacing', () => {
+    const loads = getMemberLoads(section, 600, 2.5);
+    expect(loads.dead).toBeCloseTo(DESIGN_BASIS.deadLoad * 0.6 + section.selfWeight);
+    expect(loads.live).toBeCloseTo(1.5);
+    expect(loads.strength).toBeCloseTo(DESIGN_BASIS.deadFactor * loads.dead + DESIGN_BASIS.liveFactor * loads.live);
+  });
+
+  it('takes the dead only combination when it governs', () => {
+    const loads = getMemberLoads(section, 600, 0);
+    expect(loads.strength).toBeCloseTo(DESIGN_BASIS.deadOnlyFactor * loads.dead);
+  });
+});
+
+describe('checkMemberCapacity', () => {
+  it('checks bending, shear, web crippling and deflection', () => {
+    const result = checkMemberCapacity({ ...joist, span: 5000 });
+    expect(result.checks.map(check => check.id)).toEqual(['bending', 'shear', 'web-crippling', 'deflection']);
+    expect(result.governing).toBe(getGoverningCheck(result.checks));
+    expect(result.passes).toBe(true);
+  });
+
+  it('fails once the span outgrows the section', () => {
+    expect(checkMemberCapacity({ ...joist, span: 9000 }).passes).toBe(false);
+  });
+
+  it('gives a box member more capacity than a single one', () => {
+    const single = checkMemberCapacity({ ...joist, span: 6000 });
+    const box = checkMemberCapacity({ ...joist, profileType: 'Joist Box', span: 6000 });
+    expect(box.governing.utilisation).toBeLessThan(single.governing.utilisation);
+  });
+
+  it('loses shear capacity to a service hole that leaves too little web beside it', () => {
+    const shear = (holeType: string, profileHeight: number) =>
+      checkMemberCapacity({ ...joist, holeType, profileHeight, span: 5000 }).checks.find(check => check.id === 'shear')!.capacity;
+    expect(shear('200mm', 350)).toBe(shear('No Holes', 350));
+    expect(shear('200mm', 250)).toBeLessThan(shear('No Holes', 250));
+    expect(shear('200mm x 400mm', 250)).toBeLessThan(shear('200mm', 250));
+  });
+});
@@ -0,0 +1,205 @@
+import { ProfileData } from '@/types/form-types';
+import { MANUFACTURING_CONSTANTS } from './constants';
+import { STEEL, SectionProperties, getSectionDimensions, getSectionProperties, getWebHole } from './section-properties';
+
+/**
+ * Structural Capacity
+ * Limit state checks for a simply supported member under a uniform floor load: bending,
+ * shear, web crippling at the supports and deflection. Each check reports its demand,
+ * capacity and utilisation, so a span is accepted on evidence rather than a lookup.
+ */
+
+export type CapacityCheckId = 'bending' | 'shear' | 'web-crippling' | 'deflection' | 'stub-bearing';
+
+export const CAPACITY_CHECK_NAMES: Record<CapacityCheckId, string> = {
+  'bending': 'Bending',
+  'shear': 'Shear',
+  'web-crippling': 'Web crippling',
+  'deflection': 'Deflection',
+  'stub-bearing': 'Stub bearing',
+};
+
+export interface CapacityCheck {
+  id: CapacityCheckId;
+  name: string;
+  demand: number;
+  capacity: number;
+  unit: 'kNm' | 'kN' | 'mm';
+  utilisation: number; // demand / capacity - over 1 fails
+}
+
+export interface MemberLoads {
+  dead: number; // Service loads in kN/m, self weight included
+  live: number;
+  strength: number; // Factored for the strength checks
+}
+
+export interface MemberCapacity {
+  span: number;
+  spacing: number;
+  kpa: number;
+  section: SectionProperties;
+  loads: MemberLoads;
+  checks: CapacityCheck[];
+  governing: CapacityCheck;
+  passes: boolean;
+}
+
+export interface MemberDesignInput {
+  profileType: ProfileData['profileType'];
+  profileHeight: number;
+  holeType: string;
+  span: number; // Between supports
+  spacing: number; // Width of floor each member carries - its centres
+  kpa: number; // Floor live load
+  thickness?: number;
+}
+
+// Loads, capacity factors and limits the checks are made against
+export const DESIGN_BASIS = {
+  deadLoad: 0.4, // kPa - decking and fixings, on top of the member's self weight
+  deadFactor: 1.2,
+  liveFactor: 1.5,
+  deadOnlyFactor: 1.35,
+  bendingFactor: 0.9,
+  shearFactor: 0.95,
+  cripplingFactor: 0.85,
+  interiorCripplingFactor: 0.9,
+  stubBearingFactor: 0.85,
+  bearingLength: MANUFACTURING_CONSTANTS.FLANGE_HEIGHT, // Sitting on a bearer flange
+  deflectionLimit: 300, // span / 300 under dead plus live load
+  cantileverDeflectionLimit: 150, // overhang / 150 at the tip
+} as const;
+
+export const capacityCheck = (id: CapacityCheckId, unit: CapacityCheck['unit'], demand: number, capacity: number): CapacityCheck => ({
+  id,
+  name: CAPACITY_CHECK_NAMES[id],
+  unit,
+  demand,
+  capacity,
+  utilisation: capacity > 0 ? demand / capacity : Infinity,
+});
+
+// Design moment capacity of the effective section, in kNm
+export const getBendingCapacity = (section: SectionProperties): number =>
+  (DESIGN_BASIS.bendingFactor * section.sectionModulus * STEEL.yieldStress) / 1e6;
+
+/**
+ * Shear capacity of the webs, reduced where a service hole leaves too little web beside it
+ */
+const getShearCapacity = (section: SectionProperties): number => {
+  const { thickness: t, webs } = section.dimensions;
+  const depth = section.webDepth;
+  const coefficient = 5.34; // Unstiffened web
+  const { yieldStress: fy, elasticModulus: E } = STEEL;
+  const limit = Math.sqrt((E * coefficient) / fy);
+  const slenderness = depth / t;
+
+  const perWeb = slenderness <= limit
+    ? 0.64 * fy * depth * t
+    : slenderness <= 1.415 * limit
+      ? 0.64 * t * t * Math.sqrt(coefficient * fy * E)
+      : (0.905 * E * coefficient * t ** 3) / depth;
+
+  const hole = section.hole;
+  if (!hole) return perWeb * webs;
+  const remaining = depth / 2 - (hole.round ? hole.height / 2.83 : hole.height / 2);
+  const reduction = Math.max(0, Math.min(1, remaining / (54 * t)));
+  return perWeb * reduction * webs;
+};
+
+/**
+ * End one-flange web crippling capacity of the webs, fastened to the support
+ */
+const getCripplingCapacity = (section: SectionProperties): number => {
+  const { thickness: t, webs } = section.dimensions;
+  const radius = MANUFACTURING_CONSTANTS.BEND_RADIUS;
+  const perWeb = 4 * t * t * STEEL.yieldStress
+    * (1 - 0.14 * Math.sqrt(radius / t))
+    * (1 + 0.35 * Math.sqrt(DESIGN_BASIS.bearingLength / t))
+    * (1 - 0.02 * Math.sqrt(section.webDepth / t));
+  return Math.max(0, perWeb) * webs;
+};
+
+/**
+ * Interior one-flange web crippling capacity of the webs under a load bearing on the top
+ * flange over a length, away from the member's ends
+ */
+export const getInteriorCripplingCapacity = (section: SectionProperties, bearingLength: number): number => {
+  const { thickness: t, webs } = section.dimensions;
+  const radius = MANUFACTURING_CONSTANTS.BEND_RADIUS;
+  const perWeb = 13 * t * t * STEEL.yieldStress
+    * (1 - 0.23 * Math.sqrt(radius / t))
+    * (1 + 0.14 * Math.sqrt(bearingLength / t))
+    * (1 - 0.01 * Math.sqrt(section.webDepth / t));
+  return Math.max(0, perWeb) * webs;
+};
+
+/**
+ * Load for the strength checks under the combination that governs - dead only, or dead plus live
+ */
+export const getStrengthLoad = (dead: number, live: number): number =>
+  Math.max(DESIGN_BASIS.deadOnlyFactor * dead, DESIGN_BASIS.deadFactor * dead + DESIGN_BASIS.liveFactor * live);
+
+/**
+ * Bearing capacity of a stub stiffening the webs under a load - the flange bears on the stub
+ * across its width, at yield
+ */
+export const getStubBearingCapacity = (section: SectionProperties, stubWidth: number): number => {
+  const { thickness: t, webs } = section.dimensions;
+  return stubWidth * t * STEEL.yieldStress * webs;
+};
+
+/**
+ * Loads on a member carrying a strip of floor of the given width, in kN/m
+ */
+export const getMemberLoads = (section: SectionProperties, spacing: number, kpa: number): MemberLoads => {
+  const width = spacing / 1000;
+  const dead = DESIGN_BASIS.deadLoad * width + section.selfWeight;
+  const live = kpa * width;
+  return { dead, live, strength: getStrengthLoad(dead, live) };
+};
+
+/**
+ * Check a section over a span against loads already worked out for it
+ */
+export function checkSection(section: SectionProperties, span: number, loads: MemberLoads): CapacityCheck[] {
+  const reaction = (loads.strength * span) / 2 / 1000; // kN
+  const moment = (loads.strength * span * span) / 8 / 1e6; // kNm
+  const deflection = (5 * (loads.dead + loads.live) * span ** 4) / (384 * STEEL.elasticModulus * section.secondMoment);
+
+  return [
+    capacityCheck('bending', 'kNm', moment, getBendingCapacity(section)),
+    capacityCheck('shear', 'kN', reaction, (DESIGN_BASIS.shearFactor * getShearCapacity(section)) / 1000),
+    capacityCheck('web-crippling', 'kN', reaction, (DESIGN_BASIS.cripplingFactor * getCripplingCapacity(section)) / 1000),
+    capacityCheck('deflection', 'mm', deflection, span / DESIGN_BASIS.deflectionLimit),
+  ];
+}
+
+// The check closest to failing - or furthest past it
+export const getGoverningCheck = (checks: CapacityCheck[]): CapacityCheck =>
+  checks.reduce((worst, current) => (current.utilisation > worst.utilisation ? current : worst));
+
+export const getMemberSection = ({ profileType, profileHeight, holeType, thickness }: Pick<MemberDesignInput, 'profileType' | 'profileHeight' | 'holeType' | 'thickness'>): SectionProperties =>
+  getSectionProperties(getSectionDimensions(profileType, profileHeight, thickness), getWebHole(holeType, profileHeight));
+
+/**
+ * Check a member carrying floor load over its span
+ */
+export function checkMemberCapacity(input: MemberDesignInput): MemberCapacity {
+  const section = getMemberSection(input);
+  const loads = getMemberLoads(section, input.spacing, input.kpa);
+  const checks = checkSection(section, input.span, loads);
+  const governing = getGoverningCheck(checks);
+
+  return {
+    span: input.span,
+    spacing: input.spacing,
+    kpa: input.kpa,
+    section,
+    loads,
+    checks,
+    governing,
+    passes: governing.utilisation <= 1,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeProfile } from '@/test/fixtures';
+import { NCFileGenerator } from './nc-generator';
+import { detectClashes } from './clash-detection';
+import {
+  DEFAULT_TOOLING_LIBRARY,
+  assignStation,
+  getActiveMachine,
+  getActiveStations,
+  getWebPlacement,
+  removeMachine,
+  removeStation,
+  upsertMachine,
+  upsertStation,
+} from './tooling-library';
+
+const library = DEFAULT_TOOLING_LIBRARY;
+
+describe('upsertStation', () => {
+  it('adds a new station to the library', () => {
+    const updated = upsertStation(library, { ...library.stations.DIMPLE, station: 'STITCH', hitCode: '.8' });
+    expect(updated.stations.STITCH.hitCode).toBe('.8');
+    expect(getActiveStations(updated).map(station => station.station)).not.toContain('STITCH');
+  });
+
+  it('renames a station in place and keeps it fitted', () => {
+    const updated = upsertStation(library, { ...library.stations.DIMPLE, station: 'STITCH' }, 'DIMPLE');
+    expect(Object.keys(updated.stations).indexOf('STITCH')).toBe(Object.keys(library.stations).indexOf('DIMPLE'));
+    expect(updated.stations.DIMPLE).toBeUndefined();
+    expect(getActiveMachine(updated)?.stations).toContain('STITCH');
+  });
+});
+
+describe('removeStation', () => {
+  it('takes the station off every machine', () => {
+    const updated = removeStation(library, 'DIMPLE');
+    expect(updated.stations.DIMPLE).toBeUndefined();
+    expect(getActiveMachine(updated)?.stations).not.toContain('DIMPLE');
+  });
+});
+
+describe('machines', () => {
+  it('fits and removes stations', () => {
+    const removed = assignStation(library, 'roll-former-1', 'DIMPLE', false);
+    expect(getActiveStations(removed).map(station => station.station)).not.toContain('DIMPLE');
+    expect(getActiveMachine(assignStation(removed, 'roll-former-1', 'DIMPLE', true))?.stations).toContain('DIMPLE');
+  });
+
+  it('falls back to the first machine when the active one is removed', () => {
+    const twoMachines = upsertMachine(library, { id: 'roll-former-2', name: 'Roll Former 2', stations: [] });
+    const updated = removeMachine(twoMachines, 'roll-former-1');
+    expect(updated.activeMachineId).toBe('roll-former-2');
+  });
+});
+
+describe('getWebPlacement', () => {
+  it('uses the default placement for the station kind', () => {
+    expect(getWebPlacement('WEB TAB')).toEqual({ anchor: 'top', offset: 20 });
+    expect(getWebPlacement('M SERVICE HOLE')).toEqual({ anchor: 'centre', offset: 0 });
+  });
+});
+
+describe('clash detection against a library', () => {
+  it('flags stations the library given does not fit to its machine', () => {
+    const generator = new NCFileGenerator();
+    const profileData = makeProfile();
+    generator.updateCalculations(null, profileData, makeExportData());
+
+    const without = assignStation(library, 'roll-former-1', 'DIMPLE', false);
+    const issues = detectClashes(generator.getCalculations(), profileData, undefined, without).issues;
+    expect(issues.filter(issue => issue.ruleId === 'tooling').map(issue => issue.element1)).toEqual(['DIMPLE']);
+  });
+});
@@ -0,0 +1,275 @@
+import type { PunchDimension } from './punch-dimensions';
+
+/**
+ * Tooling Library
+ * Editable punch stations and the roll formers they are fitted to.
+ * The active library is the single source of punch geometry, hit codes and colours.
+ */
+
+// Which part of the profile a station punches - decides how it is grouped, drawn and clash checked
+export type ToolingStationKind = 'flange-hole' | 'dimple' | 'web-tab' | 'service-hole' | 'stub';
+
+/**
+ * Where a web face punch sits up the web. Centred punches are offset above the web's centre
+ * line; top and bottom punches keep offset mm between their edge and that flange's bend.
+ */
+export interface WebPlacement {
+  anchor: 'centre' | 'top' | 'bottom';
+  offset: number;
+}
+
+/**
+ * Profile heights a web face station may be punched on, in mm. Either end can be left open;
+ * the station's own size and placement also set a floor (see getStationHeightRange).
+ */
+export interface ProfileHeightRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ToolingStation extends PunchDimension {
+  kind: ToolingStationKind;
+  color: string; // Display colour (hex) for drawings, legends and tables
+  exportAs?: string; // Station name written to the NC file when it differs from the library name
+  placement?: WebPlacement; // Web face stations only - defaults to the placement for its kind
+  heightRange?: ProfileHeightRange; // Web face stations only - the factory's limits, if any
+}
+
+export interface Machine {
+  id: string;
+  name: string;
+  stations: string[]; // Station names fitted to this machine
+}
+
+export interface ToolingLibrary {
+  stations: Record<string, ToolingStation>;
+  machines: Machine[];
+  activeMachineId: string;
+}
+
+const STORAGE_KEY = 'span-plus-tooling-library';
+
+export const DEFAULT_TOOLING_LIBRARY: ToolingLibrary = {
+  stations: {
+    'BOLT HOLE': {
+      hitCode: '.1',
+      station: 'BOLT HOLE',
+      description: '11mm square Bolt Hole',
+      width: 11,
+      height: 11,
+      shape: 'square',
+      kind: 'flange-hole',
+      color: '#ef4444',
+    },
+    'DIMPLE': {
+      hitCode: '.2',
+      station: 'DIMPLE',
+      description: '5mm round Stitch',
+      diameter: 5,
+      shape: 'round',
+      kind: 'dimple',
+      color: '#f59e0b',
+    },
+    'WEB TAB': {
+      hitCode: '.3',
+      station: 'WEB TAB',
+      description: '70mm (h) x 45mm (w), Web Connection Tab',
+      width: 45,
+      height: 70,
+      shape: 'rectangular',
+      kind: 'web-tab',
+      color: '#22c55e',
+    },
+    'SERVICE': {
+      hitCode: '.4',
+      station: 'SERVICE',
+      description: '300mm (h) x 115mm (w) Stub Connection Point',
+      width: 115,
+      height: 300,
+      shape: 'rectangular',
+      kind: 'stub',
+      color: '#9333ea',
+    },
+    'SMALL SERVICE HOLE': {
+      hitCode: '.5',
+      station: 'SMALL SERVICE HOLE',
+      description: '115mm round Service Hole',
+      diameter: 115,
+      shape: 'round',
+      kind: 'service-hole',
+      color: '#06b6d4',
+    },
+    'M SERVICE HOLE': {
+      hitCode: '.6',
+      station: 'M SERVICE HOLE',
+      description: '200mm round Service Hole',
+      diameter: 200,
+      shape: 'round',
+      kind: 'service-hole',
+      color: '#3b82f6',
+    },
+    'LARGE SERVICE HOLE': {
+      hitCode: '.7',
+      station: 'LARGE SERVICE HOLE',
+      description: '400mm x 200mm Service Hole',
+      width: 400,
+      height: 200,
+      shape: 'oval',
+      kind: 'service-hole',
+      color: '#6366f1',
+    },
+    // Corner brackets are hit with the SERVICE tool
+    'CORNER BRACKETS': {
+      hitCode: '.4',
+      station: 'CORNER BRACKETS',
+      description: '300mm (h) x 115mm (w) Corner Bracket Point',
+      width: 115,
+      height: 300,
+      shape: 'rectangular',
+      kind: 'stub',
+      color: '#f97316',
+      exportAs: 'SERVICE',
+    },
+  },
+  machines: [
+    {
+      id: 'roll-former-1',
+      name: 'Roll Former 1',
+      stations: [
+        'BOLT HOLE',
+        'DIMPLE',
+        'WEB TAB',
+        'SERVICE',
+        'SMALL SERVICE HOLE',
+        'M SERVICE HOLE',
+        'LARGE SERVICE HOLE',
+        'CORNER BRACKETS',
+      ],
+    },
+  ],
+  activeMachineId: 'roll-former-1',
+};
+
+// Web tabs take the joist connection just under the top flange; holes and stubs are centred
+export const DEFAULT_WEB_PLACEMENTS: Partial<Record<ToolingStationKind, WebPlacement>> = {
+  'web-tab': { anchor: 'top', offset: 20 },
+  'service-hole': { anchor: 'centre', offset: 0 },
+  'stub': { anchor: 'centre', offset: 0 },
+};
+
+const loadStoredLibrary = (): ToolingLibrary | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ToolingLibrary) : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeLibrary: ToolingLibrary = loadStoredLibrary() ?? DEFAULT_TOOLING_LIBRARY;
+const listeners = new Set<() => void>();
+
+export const getToolingLibrary = (): ToolingLibrary => activeLibrary;
+
+/**
+ * Replace the active library, persisting it in the browser and notifying subscribers
+ */
+export const setToolingLibrary = (library: ToolingLibrary): void => {
+  activeLibrary = library;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const resetToolingLibrary = (): void => setToolingLibrary(DEFAULT_TOOLING_LIBRARY);
+
+export const subscribeToolingLibrary = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getToolingStation = (station: string): ToolingStation | undefined => activeLibrary.stations[station];
+
+export const getWebPlacement = (station: string): WebPlacement => {
+  const tooling = getToolingStation(station);
+  return tooling?.placement ?? (tooling && DEFAULT_WEB_PLACEMENTS[tooling.kind]) ?? { anchor: 'centre', offset: 0 };
+};
+
+export const getActiveMachine = (library: ToolingLibrary = activeLibrary): Machine | undefined =>
+  library.machines.find((machine) => machine.id === library.activeMachineId) ?? library.machines[0];
+
+/**
+ * Stations fitted to the active machine, in library order
+ */
+export const getActiveStations = (library: ToolingLibrary = activeLibrary): ToolingStation[] => {
+  const fitted = new Set(getActiveMachine(library)?.stations ?? []);
+  return Object.values(library.stations).filter((station) => fitted.has(station.station));
+};
+
+/**
+ * Add or re-dimension a station; renaming keeps its machine assignments
+ */
+export const upsertStation = (library: ToolingLibrary, station: ToolingStation, previousName = station.station): ToolingLibrary => {
+  // Rebuild in order so a renamed station keeps its place
+  const stations: Record<string, ToolingStation> = {};
+  Object.entries(library.stations).forEach(([name, existing]) => {
+    stations[name === previousName ? station.station : name] = name === previousName ? station : existing;
+  });
+  stations[station.station] = station;
+
+  return {
+    ...library,
+    stations,
+    machines: library.machines.map((machine) => ({
+      ...machine,
+      stations: machine.stations.map((name) => (name === previousName ? station.station : name)),
+    })),
+  };
+};
+
+export const removeStation = (library: ToolingLibrary, name: string): ToolingLibrary => {
+  const stations = { ...library.stations };
+  delete stations[name];
+
+  return {
+    ...library,
+    stations,
+    machines: library.machines.map((machine) => ({
+      ...machine,
+      stations: machine.stations.filter((station) => station !== name),
+    })),
+  };
+};
+
+export const upsertMachine = (library: ToolingLibrary, machine: Machine): ToolingLibrary => {
+  const exists = library.machines.some((m) => m.id === machine.id);
+  return {
+    ...library,
+    machines: exists ? library.machines.map((m) => (m.id === machine.id ? machine : m)) : [...library.machines, machine],
+  };
+};
+
+export const removeMachine = (library: ToolingLibrary, id: string): ToolingLibrary => {
+  const machines = library.machines.filter((machine) => machine.id !== id);
+  return {
+    ...library,
+    machines,
+    activeMachineId: library.activeMachineId === id ? machines[0]?.id ?? '' : library.activeMachineId,
+  };
+};
+
+/**
+ * Fit or remove a station on a machine
+ */
+export const assignStation = (library: ToolingLibrary, machineId: string, station: string, fitted: boolean): ToolingLibrary => ({
+  ...library,
+  machines: library.machines.map((machine) => {
+    if (machine.id !== machineId) return machine;
+    const stations = machine.stations.filter((name) => name !== station);
+    return { ...machine, stations: fitted ? [...stations, station] : stations };
+  }),
+});
@@ -1,5 +1,6 @@
 import { MANUFACTURING_CONSTANTS } from '../constants';
-import { ManufacturingDimensions, SpanTableRecommendation } from '@/types/manufacturing';
+import { ManufacturingDimensions } from '@/types/manufacturing';
+import { PunchStationType } from '@/types/form-types';
 
 /**
  * Round value to 0.5mm precision for manufacturing
@@ -39,41 +40,6 @@ export const calculateBoltOffset = (index: number): number => {
   return pattern[index % pattern.length];
 };
 
-/**
- * Get span table recommendation based on length and kPa rating
- */
-export const getSpanTableRecommendation = (
-  length: number, 
-  kpaRating: '2.5' | '5.0'
-): SpanTableRecommendation => {
-  const maxLimit = MANUFACTURING_CONSTANTS.SPAN_LIMITS[kpaRating];
-  
-  if (kpaRating === '2.5') {
-    if (length <= 6800) return { profileType: 'Joist Single', joistSpacing: 600, exceedsLimit: false };
-    if (length <= 7600) return { profileType: 'Joist Single', joistSpacing: 500, exceedsLimit: false };
-    if (length <= 8600) return { profileType: 'Joist Single', joistSpacing: 400, exceedsLimit: false };
-    if (length <= 9550) return { profileType: 'Joist Single', joistSpacing: 300, exceedsLimit: false };
-    
-    if (length <= 9100) return { profileType: 'Joist Box', joistSpacing: 600, exceedsLimit: false };
-    if (length <= 9750) return { profileType: 'Joist Box', joistSpacing: 500, exceedsLimit: false };
-    if (length <= 10600) return { profileType: 'Joist Box', joistSpacing: 400, exceedsLimit: false };
-    if (length <= 11750) return { profileType: 'Joist Box', joistSpacing: 300, exceedsLimit: false };
-    
-    return { profileType: 'Joist Box', joistSpacing: 300, exceedsLimit: true };
-  } else {
-    if (length <= 4500) return { profileType: 'Joist Single', joistSpacing: 600, exceedsLimit: false };
-    if (length <= 5100) return { profileType: 'Joist Single', joistSpacing: 500, exceedsLimit: false };
-    if (length <= 5850) return { profileType: 'Joist Single', joistSpacing: 400, exceedsLimit: false };
-    if (length <= 7000) return { profileType: 'Joist Single', joistSpacing: 300, exceedsLimit: false };
-    
-    if (length <= 7700) return { profileType: 'Joist Box', joistSpacing: 500, exceedsLimit: false };
-    if (length <= 8350) return { profileType: 'Joist Box', joistSpacing: 400, exceedsLimit: false };
-    if (length <= 9300) return { profileType: 'Joist Box', joistSpacing: 300, exceedsLimit: false };
-    
-    return { profileType: 'Joist Box', joistSpacing: 300, exceedsLimit: true };
-  }
-};
-
 /**
  * Calculate stub positions based on length and spacing
  */
@@ -114,3 +80,21 @@ export const isBearerProfile = (profileType: string): boolean => {
 export const isJoistProfile = (profileType: string): boolean => {
   return profileType === 'Joist Single' || profileType === 'Joist Box';
 };
+
+/**
+ * Station that punches a profile's service holes for its hole type
+ */
+export const getServiceHoleStation = (holeType: string): PunchStationType => {
+  switch (holeType) {
+    case '115 Round':
+    case '115mm':
+      return 'SMALL SERVICE HOLE';
+    case '200mm x 400mm':
+    case '200 x 400 Oval':
+      return 'LARGE SERVICE HOLE';
+    case '200mm':
+    case '200 Round':
+    default:
+      return 'M SERVICE HOLE';
+  }
+};
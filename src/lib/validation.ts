@@ -1,5 +1,9 @@
 import { ProfileData } from '@/types/form-types';
 import { MANUFACTURING_CONSTANTS } from './constants';
+import { fitsProfileHeight, getStationHeightRange } from './profile-geometry';
+import { getServiceHoleStation } from './utils/manufacturing';
+import { getMaxSpan } from './span-table';
+import { describeStandard, getActiveStandard } from './span-table-library';
 
 export class ValidationError extends Error {
   constructor(
@@ -29,6 +33,11 @@ export const validateProfileData = (data: ProfileData): void => {
     );
   }
 
+  const holeTypeError = getHoleTypeFitError(data.holeType, data.profileHeight);
+  if (holeTypeError) {
+    throw new ValidationError(holeTypeError, 'holeType', 'HOLE_TYPE_DOES_NOT_FIT');
+  }
+
   if (data.joistSpacing < 400 || data.joistSpacing > 1200) {
     throw new ValidationError(
       'Joist spacing must be between 400mm and 1200mm',
@@ -37,10 +46,28 @@ export const validateProfileData = (data: ProfileData): void => {
     );
   }
 
+  const offProfile = data.pointLoads?.find(pointLoad => pointLoad.position > data.length);
+  if (offProfile) {
+    throw new ValidationError(
+      `Point load at ${offProfile.position}mm is past the end of the ${data.length}mm profile`,
+      'pointLoads',
+      'POINT_LOAD_OFF_PROFILE'
+    );
+  }
+
   // Validate span table limits
   if (data.kpaRating) {
-    const maxLimit = MANUFACTURING_CONSTANTS.SPAN_LIMITS[data.kpaRating];
-    const spanLength = data.profileType?.includes('Bearer') ? data.joistLength : data.length;
+    const isBearer = data.profileType?.includes('Bearer');
+    const maxLimit = getMaxSpan(data.kpaRating, data.profileHeight, isBearer ? undefined : data.holeType);
+    const spanLength = isBearer ? data.joistLength : data.length;
+
+    if (maxLimit === undefined) {
+      throw new ValidationError(
+        `${describeStandard(getActiveStandard())} has no span table for ${data.kpaRating}kPa at ${data.profileHeight}mm`,
+        'kpaRating',
+        'NO_SPAN_TABLE'
+      );
+    }
     
     if (spanLength && spanLength > maxLimit) {
       throw new ValidationError(
@@ -52,6 +79,20 @@ export const validateProfileData = (data: ProfileData): void => {
   }
 };
 
+/**
+ * Why a hole type's service holes can't be punched on a profile height, or undefined when they can
+ */
+export const getHoleTypeFitError = (holeType: string, profileHeight: number): string | undefined => {
+  if (holeType === 'No Holes') return undefined;
+
+  const station = getServiceHoleStation(holeType);
+  if (fitsProfileHeight(station, profileHeight)) return undefined;
+  const { min, max } = getStationHeightRange(station);
+
+  const range = max === undefined ? `at least ${min}mm` : `between ${min}mm and ${max}mm`;
+  return `${holeType} holes (${station}) need a profile height of ${range} - ${profileHeight}mm is selected`;
+};
+
 export const validatePunchPosition = (
   position: number, 
   profileLength: number, 
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { makeExportData, makeJoist, makeProfile } from '@/test/fixtures';
+import { PointLoad, ProfileData } from '@/types/form-types';
+import { Punch } from '@/types/manufacturing';
+import { NCFileGenerator } from './nc-generator';
+import { getGeneratedPunches } from './punch-overrides';
+import { DESIGN_BASIS } from './structural-capacity';
+import { checkPointLoads, describePointLoad, findStubPosition, getBearingZone, getClearPosition } from './web-bearing';
+
+const pointLoad = (overrides: Partial<PointLoad> = {}): PointLoad => ({ position: 1000, load: 5, bearingLength: 100, ...overrides });
+
+const check = (profileData: ProfileData, pointLoads: PointLoad[], extraPunches: Punch[] = []) => {
+  const withLoads = { ...profileData, pointLoads };
+  const generator = new NCFileGenerator();
+  generator.updateCalculations(null, withLoads, makeExportData());
+  if (extraPunches.length > 0) {
+    generator.setManualPunches([...getGeneratedPunches(withLoads, makeExportData()), ...extraPunches]);
+  }
+  return checkPointLoads(withLoads, generator.getCalculations());
+};
+
+describe('getBearingZone', () => {
+  it('spreads the bearing length by half the profile height each side', () => {
+    expect(getBearingZone(pointLoad(), 350)).toEqual({ from: 775, to: 1225 });
+  });
+});
+
+describe('getClearPosition', () => {
+  it('moves an opening just clear of the zone on its own side of the load', () => {
+    const zone = getBearingZone(pointLoad(), 350);
+    expect(getClearPosition(zone, pointLoad(), { position: 800, type: 'M SERVICE HOLE' })).toBe(675);
+    expect(getClearPosition(zone, pointLoad(), { position: 1100, type: 'M SERVICE HOLE' })).toBe(1325);
+  });
+});
+
+describe('describePointLoad', () => {
+  it('gives the dead part only when there is one', () => {
+    expect(describePointLoad(pointLoad({ description: 'Tank' }))).toBe('Tank 5kN @ 1000mm');
+    expect(describePointLoad(pointLoad({ dead: 2 }))).toBe('Point load 2kN dead + 5kN live @ 1000mm');
+  });
+});
+
+describe('findStubPosition', () => {
+  const load = pointLoad({ position: 800, bearingLength: 10 });
+
+  it('takes the load position when the web face is clear there', () => {
+    expect(findStubPosition(load, getBearingZone(load, 250), 250, [])).toBe(800);
+  });
+
+  it('finds no room when an opening fills the bearing zone', () => {
+    const serviceHole = { position: 800, type: 'M SERVICE HOLE' };
+    expect(findStubPosition(load, getBearingZone(load, 250), 250, [serviceHole])).toBeUndefined();
+  });
+});
+
+describe('checkPointLoads', () => {
+  it('reports the openings inside the bearing zone and reduces the capacity beside them', () => {
+    const [bearing] = check(makeJoist(), [pointLoad()]);
+    expect(bearing.openings).toEqual([{ position: 800, type: 'M SERVICE HOLE' }]);
+    expect(bearing.holeReduction).toBeLessThan(1);
+    expect(bearing.stiffener).toBeUndefined();
+  });
+
+  it('takes a SERVICE stub inside the zone as a stiffener', () => {
+    const [bearing] = check(makeProfile(), [pointLoad({ position: 1531 })]);
+    expect(bearing.stiffener).toMatchObject({ position: 1531, type: 'SERVICE' });
+    expect(bearing.check).toMatchObject({ id: 'stub-bearing' });
+    expect(bearing.check.utilisation).toBeLessThan(1);
+  });
+
+  it('still fails a load heavier than the stub carries, and reports openings beyond the stub', () => {
+    const [bearing] = check(makeProfile(), [pointLoad({ position: 2000, load: 200 })], [{ type: 'SERVICE', position: 2100, active: true }]);
+    expect(bearing.stiffener).toEqual({ position: 2100, type: 'SERVICE' });
+    expect(bearing.check.id).toBe('stub-bearing');
+    expect(bearing.check.utilisation).toBeGreaterThan(1);
+    expect(bearing.openings).toEqual([{ position: 1800, type: 'WEB TAB' }]);
+  });
+
+  it('suggests a stub only where it clears the web face', () => {
+    const [bearing] = check(makeProfile(), [pointLoad({ position: 1820, load: 20 })]);
+    expect(bearing.stubPosition).toBe(1890);
+  });
+
+  it('factors each load by the combination that governs it', () => {
+    const [live, dead, mixed] = check(makeJoist(), [pointLoad(), pointLoad({ load: 0, dead: 5 }), pointLoad({ load: 1, dead: 5 })]);
+    expect(live.check.demand).toBeCloseTo(DESIGN_BASIS.liveFactor * 5);
+    expect(dead.check.demand).toBeCloseTo(DESIGN_BASIS.deadOnlyFactor * 5);
+    expect(mixed.check.demand).toBeCloseTo(DESIGN_BASIS.deadFactor * 5 + DESIGN_BASIS.liveFactor * 1);
+  });
+
+  it('leaves out loads past the end of the member', () => {
+    expect(check(makeJoist(), [pointLoad({ position: 9000 })])).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { NCCalculations, PointLoad, ProfileData } from '@/types/form-types';
+import { getVisualDimensions } from './punch-dimensions';
+import { roundHalf } from './utils/manufacturing';
+import { MANUFACTURING_CONSTANTS } from './constants';
+import { getWebPunchShape } from './profile-geometry';
+import { getShapeGap } from './shape-clearance';
+import {
+  CapacityCheck,
+  DESIGN_BASIS,
+  capacityCheck,
+  getInteriorCripplingCapacity,
+  getMemberSection,
+  getStrengthLoad,
+  getStubBearingCapacity,
+} from './structural-capacity';
+
+/**
+ * Web Bearing
+ * Local checks under point loads on the top flange. The load spreads through the web from its
+ * bearing length down to mid-depth; that length of web is its bearing zone. Web crippling over
+ * the bearing length is reduced for the nearest service hole or web tab, and any opening inside
+ * the zone is reported. A SERVICE stub inside the zone stiffens the web and takes the load in
+ * bearing instead, covering the openings inside its own zone; the rest are still reported.
+ */
+
+export interface BearingZone {
+  from: number;
+  to: number;
+}
+
+type WebPunch = { position: number; type: string };
+
+export interface PointLoadBearing {
+  pointLoad: PointLoad;
+  zone: BearingZone;
+  // Web crippling - or the stub's bearing when a stub stiffens the web - under the load at its
+  // governing combination
+  check: CapacityCheck;
+  holeReduction: number; // Capacity kept beside the nearest opening - 1 when none is close
+  openings: WebPunch[]; // Service holes and web tabs inside the zone, less those the stub covers
+  stiffener?: WebPunch; // SERVICE stub inside the zone
+  stubPosition?: number; // Nearest spot in the zone a SERVICE stub clears the web face, without a stiffener
+}
+
+const STIFFENER = 'SERVICE';
+
+// Steps tried either side of the load when looking for room for a stub
+const STUB_SEARCH_STEP = 0.5;
+
+/**
+ * Web the load spreads into - its bearing length plus half the profile height each side
+ */
+export const getBearingZone = (pointLoad: PointLoad, profileHeight: number): BearingZone => {
+  const halfWidth = pointLoad.bearingLength / 2 + profileHeight / 2;
+  return { from: roundHalf(pointLoad.position - halfWidth), to: roundHalf(pointLoad.position + halfWidth) };
+};
+
+export const describePointLoad = (pointLoad: PointLoad): string => {
+  const load = pointLoad.dead ? `${pointLoad.dead}kN dead + ${pointLoad.load}kN live` : `${pointLoad.load}kN`;
+  return `${pointLoad.description || 'Point load'} ${load} @ ${pointLoad.position}mm`;
+};
+
+// Gap between an opening's edge and the near edge of the bearing, 0 when they overlap
+const clearDistance = (pointLoad: PointLoad, punch: WebPunch) =>
+  Math.max(0, Math.abs(punch.position - pointLoad.position) - getVisualDimensions(punch.type).width / 2 - pointLoad.bearingLength / 2);
+
+/**
+ * Where an opening inside a bearing zone would sit just clear of it, on its own side of the load
+ */
+export const getClearPosition = (zone: BearingZone, pointLoad: PointLoad, punch: WebPunch): number => {
+  const halfWidth = getVisualDimensions(punch.type).width / 2;
+  return punch.position < pointLoad.position ? roundHalf(zone.from - halfWidth) : roundHalf(zone.to + halfWidth);
+};
+
+/**
+ * Nearest position to the load, inside its bearing zone, where a SERVICE stub's outline clears
+ * every other web face punch by the web face overlap rule's default separation - undefined when
+ * there's no room
+ */
+export function findStubPosition(pointLoad: PointLoad, zone: BearingZone, profileHeight: number, facePunches: WebPunch[]): number | undefined {
+  const minGap = MANUFACTURING_CONSTANTS.POSITION_TOLERANCE;
+  const stubWidth = getVisualDimensions(STIFFENER).width;
+  const clearAt = (position: number) => {
+    const stub = getWebPunchShape(STIFFENER, position, profileHeight);
+    return facePunches
+      .filter(punch => Math.abs(punch.position - position) < (stubWidth + getVisualDimensions(punch.type).width) / 2 + minGap)
+      .every(punch => getShapeGap(stub, getWebPunchShape(punch.type, punch.position, profileHeight)) >= minGap);
+  };
+
+  const start = roundHalf(pointLoad.position);
+  const reach = Math.max(start - zone.from, zone.to - start);
+  for (let offset = 0; offset <= reach; offset += STUB_SEARCH_STEP) {
+    const position = [start - offset, start + offset].find(candidate => candidate >= zone.from && candidate <= zone.to && clearAt(candidate));
+    if (position !== undefined) return position;
+  }
+  return undefined;
+}
+
+/**
+ * Check every point load on a member against the web beneath it
+ */
+export function checkPointLoads(profileData: ProfileData, calculations: NCCalculations): PointLoadBearing[] {
+  const pointLoads = (profileData.pointLoads ?? []).filter(pointLoad => pointLoad.position <= profileData.length);
+  if (pointLoads.length === 0) return [];
+
+  const section = getMemberSection({ profileType: profileData.profileType, profileHeight: profileData.profileHeight, holeType: 'No Holes' });
+  const webOpenings = [...calculations.serviceHoles, ...calculations.webHoles].filter(punch => punch.active);
+  const stubs = calculations.stubs.filter(punch => punch.active && punch.type === STIFFENER);
+  const facePunches = [...webOpenings, ...calculations.stubs.filter(punch => punch.active)];
+
+  return pointLoads.map(pointLoad => {
+    const zone = getBearingZone(pointLoad, profileData.profileHeight);
+    const halfWidthOf = (punch: WebPunch) => getVisualDimensions(punch.type).width / 2;
+    const overlaps = (punch: WebPunch) => punch.position + halfWidthOf(punch) > zone.from && punch.position - halfWidthOf(punch) < zone.to;
+    const demand = getStrengthLoad(pointLoad.dead ?? 0, pointLoad.load);
+    const openings = webOpenings.filter(overlaps).map(({ position, type }) => ({ position, type }));
+    const stiffener = stubs.find(overlaps);
+
+    if (stiffener) {
+      // The stub stiffens the web over its own zone, as a load of its width would spread
+      const stubZone = getBearingZone({ position: stiffener.position, load: 0, bearingLength: halfWidthOf(stiffener) * 2 }, profileData.profileHeight);
+      const covered = (punch: WebPunch) => punch.position - halfWidthOf(punch) >= stubZone.from && punch.position + halfWidthOf(punch) <= stubZone.to;
+      const capacity = (DESIGN_BASIS.stubBearingFactor * getStubBearingCapacity(section, halfWidthOf(stiffener) * 2)) / 1000;
+      return {
+        pointLoad,
+        zone,
+        check: capacityCheck('stub-bearing', 'kN', demand, capacity),
+        holeReduction: 1,
+        openings: openings.filter(opening => !covered(opening)),
+        stiffener: { position: stiffener.position, type: stiffener.type },
+      };
+    }
+
+    // Reduction for an opening beside the bearing, from its depth and clear distance
+    const holeReduction = Math.min(1, ...webOpenings.map(punch => {
+      const ratio = getVisualDimensions(punch.type).height / section.webDepth;
+      return Math.max(0, 1.01 - 0.325 * ratio + (0.083 * clearDistance(pointLoad, punch)) / section.webDepth);
+    }));
+    const capacity = (DESIGN_BASIS.interiorCripplingFactor * getInteriorCripplingCapacity(section, pointLoad.bearingLength) * holeReduction) / 1000;
+
+    const check = capacityCheck('web-crippling', 'kN', demand, capacity);
+    const needsStub = openings.length > 0 || check.utilisation > 1;
+    return {
+      pointLoad,
+      zone,
+      check,
+      holeReduction,
+      openings,
+      stubPosition: needsStub ? findStubPosition(pointLoad, zone, profileData.profileHeight, facePunches) : undefined,
+    };
+  });
+}
@@ -0,0 +1,54 @@
+import { ExportData, PlatformData, ProfileData } from '@/types/form-types';
+
+/**
+ * Test fixtures - the Profile Settings defaults, with overrides per test
+ */
+
+export const makeProfile = (overrides: Partial<ProfileData> = {}): ProfileData => ({
+  profileType: 'Bearer Single',
+  profileHeight: 350,
+  length: 5200,
+  joistLength: 6000,
+  joistSpacing: 600,
+  stubSpacing: 1200,
+  stubPositions: [331, 1531, 2731, 3931, 4869],
+  stubsEnabled: true,
+  holeType: 'No Holes',
+  holeSpacing: 650,
+  punchStations: [
+    { station: 'BOLT HOLE', enabled: true },
+    { station: 'DIMPLE', enabled: true },
+    { station: 'WEB TAB', enabled: true },
+    { station: 'M SERVICE HOLE', enabled: true },
+    { station: 'SERVICE', enabled: true },
+    { station: 'CORNER BRACKETS', enabled: true },
+  ],
+  endBoxJoist: false,
+  screensEnabled: false,
+  kpaRating: '2.5',
+  joistBox: false,
+  ...overrides,
+});
+
+export const makeJoist = (overrides: Partial<ProfileData> = {}): ProfileData => makeProfile({
+  profileType: 'Joist Single',
+  length: 4000,
+  joistLength: undefined,
+  stubPositions: [],
+  holeType: '200mm',
+  ...overrides,
+});
+
+export const makeExportData = (overrides: Partial<ExportData> = {}): ExportData => ({
+  quantity: 2,
+  programName: 'TEST',
+  ...overrides,
+});
+
+export const makePlatform = (overrides: Partial<PlatformData> = {}): PlatformData => ({
+  width: 6000,
+  span: 4000,
+  bays: 2,
+  pitch: 600,
+  ...overrides,
+});
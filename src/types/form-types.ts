@@ -1,8 +1,17 @@
 export interface PlatformData {
-  width: number;
-  span: number;
-  bays: number;
-  pitch: number;
+  width: number; // Platform width (mm) - length of each bearer line
+  span: number; // Joist span (mm) between the two bearer lines
+  bays: number; // Number of post bays along each bearer
+  pitch: number; // Joist centres (mm) along the bearers
+}
+
+// A concentrated load on the member's top flange - plant, a tank leg, a stair landing
+export interface PointLoad {
+  position: number; // Centre of the load from the member start (mm)
+  load: number; // Live load (kN) - people, stock, anything that comes and goes
+  dead?: number; // Dead load (kN) - the weight of whatever is fixed there, none when unset
+  bearingLength: number; // Length of flange the load bears on (mm)
+  description?: string;
 }
 
 export interface ProfileData {
@@ -22,15 +31,21 @@ export interface ProfileData {
   endBoxJoist?: boolean;
   // Screens mode: special hole positioning for screen applications
   screensEnabled?: boolean;
-  // kPa rating: structural load rating (applies to joists only)
-  kpaRating?: '2.5' | '5.0';
+  // kPa rating: structural load rating - one of the load classes in the active span tables
+  kpaRating?: string;
   // Joist Box mode: for bearers, triple SERVICE punches at joist positions (suppresses web tabs)
   joistBox?: boolean;
+  // Point loads on the top flange, checked for local web bearing
+  pointLoads?: PointLoad[];
 }
 
 export interface ExportData {
   quantity: number;
   programName: string;
+  // Machine post-processor id for the NC file - the default csvCOMPONENT format when unset
+  postProcessor?: string;
+  // Add shear, moment and deflection diagrams to the PDF drawing
+  includeDiagrams?: boolean;
 }
 
 export interface NCCalculations {
@@ -55,7 +70,10 @@ export interface NCCalculations {
   holeEdgeDistance: number;
 }
 
-export type PunchStationType = 'BOLT HOLE' | 'DIMPLE' | 'WEB TAB' | 'M SERVICE HOLE' | 'SMALL SERVICE HOLE' | 'LARGE SERVICE HOLE' | 'SERVICE' | 'CORNER BRACKETS';
+export type BuiltInPunchStationType = 'BOLT HOLE' | 'DIMPLE' | 'WEB TAB' | 'M SERVICE HOLE' | 'SMALL SERVICE HOLE' | 'LARGE SERVICE HOLE' | 'SERVICE' | 'CORNER BRACKETS';
+
+// Built-in stations plus any station added to the tooling library
+export type PunchStationType = BuiltInPunchStationType | (string & {});
 
 export interface PunchStationSettings {
   station: PunchStationType;
@@ -1,4 +1,4 @@
-import { PunchStationType } from './form-types';
+import { ExportData, PlatformData, ProfileData, PunchStationType } from './form-types';
 
 export interface PunchStationConfig {
   station: PunchStationType;
@@ -31,3 +31,95 @@ export interface SpanTableRecommendation {
   joistSpacing: number;
   exceedsLimit: boolean;
 }
+
+export interface PlatformMember {
+  mark: string; // Member mark, e.g. B1, J1
+  memberType: 'Bearer' | 'Joist';
+  profileType: ProfileData['profileType'];
+  length: number;
+  quantity: number;
+  joistSpacing: number;
+  stubPositions: number[];
+  profileData: ProfileData;
+  punches: Punch[];
+}
+
+export interface PlatformSchedule {
+  platform: PlatformData;
+  members: PlatformMember[];
+  // Joist positions along each bearer, measured from the bearer start
+  joistPositions: number[];
+  // Post positions along each bearer, measured from the bearer start
+  postPositions: number[];
+}
+
+export interface BatchPart {
+  id: string;
+  partCode: string;
+  quantity: number;
+  profileData: ProfileData;
+  // Snapshot of manual punch edits; null when the part uses the calculated program
+  manualPunches: Punch[] | null;
+}
+
+/**
+ * Machine-neutral punch program for one part - post-processors turn these into machine files
+ */
+export interface NCProgram {
+  componentCode: string; // Unique per line when several parts share one file, e.g. B1-1
+  partCode: string;
+  memberType: 'BEARER' | 'JOIST';
+  quantity: number;
+  length: number;
+  // Active punches sorted by position, unrounded and with the app's station names
+  punches: Punch[];
+}
+
+/**
+ * Punch by station and position, as operations in a punch override layer refer to it
+ */
+export interface PunchRef {
+  type: PunchStationType;
+  position: number;
+}
+
+/**
+ * Manual edit kept on top of the generated program and re-applied when it regenerates
+ */
+export type PunchOverride =
+  | { id: string; kind: 'add'; punch: PunchRef }
+  | { id: string; kind: 'delete'; target: PunchRef }
+  | { id: string; kind: 'move'; target: PunchRef; position: number }
+  // Keep this punch exactly here, restoring it if the generated program no longer has it
+  | { id: string; kind: 'lock'; target: PunchRef };
+
+/**
+ * Clash issue accepted by an engineer, hidden from the clash count until its geometry changes
+ */
+export interface ClashSuppression {
+  id: string;
+  ruleId: string;
+  fingerprint: string; // Issue fingerprint when suppressed - rule, web height and punch positions
+  issue: string; // Issue message when suppressed
+  note: string; // Why the issue is acceptable
+  author: string;
+  createdAt: string; // ISO date
+}
+
+/**
+ * Job saved in the local job library
+ */
+export interface SavedJob {
+  id: string;
+  name: string;
+  customer: string;
+  revision: number; // Bumped each time the job is saved over
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
+  profileData: ProfileData;
+  exportData: ExportData;
+  // Manual punch edits, re-applied over the generated program when the job is opened
+  punchOverrides: PunchOverride[];
+  // Clash issues accepted for this job
+  clashSuppressions: ClashSuppression[];
+}
@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of the command line NC generator (src/cli), sharing the app's generation code
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  build: {
+    ssr: 'src/cli/span-plus-cli.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'span-plus.js',
+      },
+    },
+  },
+});